@@ -1,48 +1,53 @@
 import React, { useState, useRef, useEffect, FC, useCallback, useMemo } from 'react';
-import { Mic, Square, Volume2, Brain, ArrowLeft, ArrowRight } from 'lucide-react';
-import { Dua, Surah } from './types';
-import { duaDatabase } from './constants';
+import { Mic, Square, Volume2, Brain, ArrowLeft, ArrowRight, Sparkles, Zap } from 'lucide-react';
+import { Dua, QuizCategory, Surah } from './types';
+import { duaDatabase, quizCategories } from './constants';
+import { getQuizQuestions, useQuizBank } from './quiz-bank';
+import { LIGHTNING_SECONDS } from './lightning-round';
+import { LEADERBOARD_IDLE_SECONDS, useLeaderboard } from './leaderboard';
 import { surahDatabase } from './surah-data';
 import { QuizScreen } from './components/QuizScreen';
-
-// Type declarations for Web Speech API
-declare global {
-  interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
-  }
-  
-  interface SpeechRecognitionEvent extends Event {
-    readonly results: SpeechRecognitionResultList;
-    readonly resultIndex: number;
-  }
-
-  interface SpeechRecognitionResultList {
-    [index: number]: SpeechRecognitionResult;
-    readonly length: number;
-    item(index: number): SpeechRecognitionResult;
-  }
-
-  interface SpeechRecognitionResult {
-    [index: number]: SpeechRecognitionAlternative;
-    readonly length: number;
-    readonly isFinal: boolean;
-    item(index: number): SpeechRecognitionAlternative;
-  }
-
-  interface SpeechRecognitionAlternative {
-    readonly transcript: string;
-    readonly confidence: number;
-  }
-
-  interface SpeechRecognitionErrorEvent extends Event {
-    readonly error: string;
-    readonly message: string;
-  }
-}
+import { OperatorScreen } from './components/OperatorScreen';
+import { AskScreen } from './components/AskScreen';
+import { Leaderboard } from './components/Leaderboard';
+import { speech, speak, speakPrompt, isSpeechCancelled, changeVolume, repeatLastUtterance } from './speech';
+import { GREETING, prompt } from './prompts';
+import { LOCALES, Locale, defaultLocale, getLocale, setLocale, t, useLocale } from './i18n';
+import { AyahRange, playAyahSequence, isAyahPlaybackAborted } from './ayah-playback';
+import { useSettings } from './settings';
+import { DEFAULT_RECITER_ID, reciters, reciterFor, surahAudioUrl, getReciter } from './reciters';
+import { splitWords, estimateWordTimings, wordIndexAt } from './read-along';
+import { surahKeyForNumber, surahTamilName } from './surah-resolver';
+import { createHandsFreeListener, HandsFreeListener } from './hands-free';
+import { createRecognizer, Recognizer, RecognitionEvent, RecognitionError } from './recognizer';
+import {
+  GlobalIntent, WelcomeIntent, LandingIntent, SurahIntent, DuaListIntent, DuaPlayerIntent,
+  IntentMatch, SpokenAlternative, bestIntent, needsConfirmation, parseConfirmation,
+  parseGlobalCommand, parseWelcome, isVoiceScreen, parseLanding, parseSurahCommand, parseDuaRequest, parseDuaChoice, parseDuaPlayerCommand,
+} from './intents';
+
+// Where a cut-off recitation can pick up again: a time offset in the surah file,
+// or the next ayah when playing ayah by ayah.
+type ResumePoint = { surahKey: string; position: number } | { surahKey: string; nextAyah: number };
+
+const PREVIEW_WARNING_MS = 5000;
+
+// A "did you say ...?" nobody answers is dropped, so the next visitor's command is not taken as a yes or no.
+const CONFIRMATION_TIMEOUT_MS = 20_000;
+
+// Offline, a missing file means the operator has not pre-downloaded this surah.
+const audioUnavailableMessage = () => t(navigator.onLine ? 'surah.audioMissing' : 'surah.notCachedOffline');
+
+const isOperatorHash = () => window.location.hash === '#operator';
+
+const recognitionLang = () => LOCALES[getLocale()].recognitionLang;
+
+// Reciters have Tamil names; other languages show the transliterated one.
+const reciterLabel = (reciter: { name: string; nameTamil: string }) =>
+  getLocale() === 'ta' ? reciter.nameTamil : reciter.name;
 
 const App: FC = () => {
-  const [currentScreen, setCurrentScreen] = useState('initial');
+  const [currentScreen, setCurrentScreen] = useState(() => (isOperatorHash() ? 'operator' : 'initial'));
   const [isListening, setIsListening] = useState(false);
   const [transcription, setTranscription] = useState('');
   const [isPlaying, setIsPlaying] = useState(false);
@@ -50,16 +55,66 @@ const App: FC = () => {
   const [message, setMessage] = useState('');
   
   const [currentDua, setCurrentDua] = useState<Dua | null>(null);
+  const [duaWordIndex, setDuaWordIndex] = useState(-1);
+  const [duaPart, setDuaPart] = useState<'arabic' | 'meaning' | null>(null);
   const [duaMessage, setDuaMessage] = useState('');
   const [failedRecognitionAttempts, setFailedRecognitionAttempts] = useState(0);
+  const [memorisation, setMemorisation] = useState({ enabled: false, from: 1, to: 10, repeat: 3, pauseSeconds: 2 });
+  const [resumePoint, setResumePointState] = useState<ResumePoint | null>(null);
+  const [duaChoices, setDuaChoicesState] = useState<Dua[] | null>(null);
+  const [quizCategory, setQuizCategory] = useState<QuizCategory | null>(null);
+  const [quizLightning, setQuizLightning] = useState(false);
+  // Shown over the welcome screen while no one is using the kiosk.
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [reciterId, setReciterIdState] = useState(DEFAULT_RECITER_ID);
+  const settings = useSettings();
+  // Re-renders the category picker when an operator imports a quiz bank.
+  useQuizBank();
+  const { entries: leaderboardEntries } = useLeaderboard();
+  const locale = useLocale();
   
   const audioRef = useRef<HTMLAudioElement>(null);
-  const recognitionRef = useRef<any>(null);
+  const recognitionRef = useRef<Recognizer | null>(null);
+  // Set while the kiosk is in hands-free mode; replaces push-to-talk recognition.
+  const handsFreeRef = useRef<HandsFreeListener | null>(null);
+  // What was heard and the action waiting on a yes after "did you say ...?".
+  const pendingConfirmationRef = useRef<{ heard: string; act: () => void } | null>(null);
+  const confirmationTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isWelcomeSequencePlaying = useRef(false);
-  const postRecitationActionInProgress = useRef(false);
   const playbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const ayahSessionRef = useRef<AbortController | null>(null);
+  // Always the latest handlePlaybackEnd, for async playback that outlives the render it started in.
+  const handlePlaybackEndRef = useRef<(isManualStop?: boolean) => void>(() => {});
+  const resumePointRef = useRef<ResumePoint | null>(null);
+  // Duas Siddiqa has just read out for the visitor to choose between.
+  const duaChoicesRef = useRef<Dua[] | null>(null);
+
+  const reciterIdRef = useRef(DEFAULT_RECITER_ID);
+  // Start times of the current dua's words, known once its audio duration is.
+  const duaTimingsRef = useRef<number[]>([]);
+  const duaSessionRef = useRef<AbortController | null>(null);
+  const duaWordRefs = useRef<(HTMLSpanElement | null)[]>([]);
+
+  const setResumePoint = useCallback((point: ResumePoint | null) => {
+    resumePointRef.current = point;
+    setResumePointState(point);
+  }, []);
+
+  const setDuaChoices = useCallback((duas: Dua[] | null) => {
+    duaChoicesRef.current = duas;
+    setDuaChoicesState(duas);
+  }, []);
+
+  const selectReciter = useCallback((id: string) => {
+    if (id === reciterIdRef.current) return;
+    reciterIdRef.current = id;
+    setReciterIdState(id);
+    // A saved position belongs to the previous reciter's recording.
+    setResumePoint(null);
+  }, [setResumePoint]);
 
   const stopListening = useCallback(() => {
+    handsFreeRef.current?.disarm();
     if (recognitionRef.current) {
         recognitionRef.current.stop();
     }
@@ -70,15 +125,21 @@ const App: FC = () => {
         clearTimeout(playbackTimerRef.current);
         playbackTimerRef.current = null;
     }
+    if (ayahSessionRef.current) {
+        ayahSessionRef.current.abort();
+        ayahSessionRef.current = null;
+    }
+    if (duaSessionRef.current) {
+        duaSessionRef.current.abort();
+        duaSessionRef.current = null;
+    }
     if (audioRef.current) {
         audioRef.current.pause();
         audioRef.current.currentTime = 0;
         audioRef.current.onended = null;
         audioRef.current.onerror = null;
     }
-    if ('speechSynthesis' in window) {
-        window.speechSynthesis.cancel();
-    }
+    speech.cancel();
     setIsPlaying(false);
     
     if (clearState) {
@@ -93,22 +154,25 @@ const App: FC = () => {
   }, [currentScreen]);
 
   const startListening = useCallback((force: boolean = false) => {
-    if (!force && audioRef.current && !audioRef.current.paused && !isWelcomeSequencePlaying.current) {
+    const isBusy = (audioRef.current && !audioRef.current.paused) || speech.isSpeaking();
+    if (!force && isBusy && !isWelcomeSequencePlaying.current) {
       return;
     }
     
+    if (handsFreeRef.current) {
+      setTranscription('');
+      handsFreeRef.current.arm(settings.listening.wakeWindowSeconds);
+      return;
+    }
+
     if (recognitionRef.current) {
-      let lang = 'en-US'; // Default
-      if (currentScreen === 'landing' || currentScreen === 'duaList') {
-        lang = 'ta-IN';
-      }
-      recognitionRef.current.lang = lang;
+      recognitionRef.current.lang = recognitionLang();
 
       setTranscription('');
-      if (currentScreen === 'duaList') {
-        setDuaMessage('கேட்கிறது...');
+      if (currentScreen === 'duaList' || currentScreen === 'duaPlayer') {
+        setDuaMessage(t('common.listening'));
       } else if (currentScreen !== 'welcome' && currentScreen !== 'landing') {
-        setMessage('கேட்கிறது...');
+        setMessage(t('common.listening'));
       }
       setIsListening(true);
       try {
@@ -116,8 +180,13 @@ const App: FC = () => {
       } catch (error) {
         console.warn('Could not start recognition, it might already be active.', error);
       }
+    } else {
+      // No recogniser on this browser: say so instead of leaving the mic button dead.
+      const unsupported = t('mic.unsupported');
+      if (currentScreen === 'duaList' || currentScreen === 'duaPlayer') setDuaMessage(unsupported);
+      else if (currentScreen !== 'welcome') setMessage(unsupported);
     }
-  }, [currentScreen]);
+  }, [currentScreen, settings.listening.wakeWindowSeconds]);
 
   const goBackToDuaList = useCallback(() => {
     stopPlayback();
@@ -128,14 +197,25 @@ const App: FC = () => {
     setDuaMessage('');
   }, [stopPlayback, stopListening]);
 
- const handlePlaybackEnd = useCallback((isManualStop: boolean = false) => {
-    if (postRecitationActionInProgress.current) {
-        postRecitationActionInProgress.current = false;
+  // After a dua, wait for "repeat", "meaning" or "back"; return to the list if nothing is asked.
+  const awaitDuaCommand = useCallback(() => {
+    const options = prompt('duaOptions');
+    setDuaMessage(options.text);
+    speakPrompt(options).then(
+      () => startListening(true),
+      err => {
+        if (isSpeechCancelled(err)) return;
+        console.error('Dua options TTS failed', err);
         startListening(true);
-        return;
-    }
+      }
+    );
+    playbackTimerRef.current = setTimeout(goBackToDuaList, settings.dua.returnAfterSeconds * 1000);
+  }, [startListening, goBackToDuaList, settings.dua.returnAfterSeconds]);
 
+ const handlePlaybackEnd = useCallback((isManualStop: boolean = false) => {
     if (isWelcomeSequencePlaying.current) return;
+    // Each ayah in a verse-range session ends the audio; the session itself decides when playback is over.
+    if (ayahSessionRef.current && !isManualStop) return;
     
     const wasPlayingSurah = !!currentSurah;
     const wasPlayingDua = !!currentDua;
@@ -143,9 +223,11 @@ const App: FC = () => {
     if (isManualStop) {
         stopPlayback();
         if (currentScreen === 'surah') {
-          setMessage('ஓதுதல் நிறுத்தப்பட்டது. மீண்டும் கேட்க, மைக்ரோஃபோனை அழுத்தவும்.');
+          setMessage(t('surah.stopped'));
         } else if (currentScreen === 'duaPlayer') {
-          goBackToDuaList();
+          setDuaPart(null);
+          setDuaWordIndex(-1);
+          awaitDuaCommand();
         }
         setTranscription('');
         return;
@@ -153,284 +235,359 @@ const App: FC = () => {
 
     if (currentScreen === 'surah' && wasPlayingSurah) {
         stopPlayback();
-        postRecitationActionInProgress.current = true;
-        const postRecitationMessage = 'ஓதுதல் முடிந்தது. அடுத்த சூராவின் பெயரைச் சொல்லுங்கள்.';
-        setMessage(postRecitationMessage);
-
-        if (audioRef.current) {
-            const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(postRecitationMessage)}&tl=ta&client=tw-ob`;
-            audioRef.current.src = ttsUrl;
-            audioRef.current.play().catch(err => {
+        const endPrompt = prompt(resumePointRef.current ? 'surahPreviewEnded' : 'surahFinished');
+        setMessage(endPrompt.text);
+
+        speakPrompt(endPrompt).then(
+            () => startListening(true),
+            err => {
+                if (isSpeechCancelled(err)) return;
                 console.error("Post-recitation TTS failed", err);
-                postRecitationActionInProgress.current = false;
                 startListening(true);
-            });
-        } else {
-            postRecitationActionInProgress.current = false;
-            startListening(true);
-        }
+            }
+        );
     } else if (currentScreen === 'duaPlayer' && wasPlayingDua) {
         stopPlayback();
         // Automatically go back to the list after Dua finishes
         goBackToDuaList();
     }
-  }, [stopPlayback, currentScreen, startListening, currentSurah, currentDua, goBackToDuaList]);
-  
-  const playSurah = useCallback(async (surahKey: string) => {
+  }, [stopPlayback, currentScreen, startListening, currentSurah, currentDua, goBackToDuaList, awaitDuaCommand]);
+
+  useEffect(() => {
+    handlePlaybackEndRef.current = handlePlaybackEnd;
+  }, [handlePlaybackEnd]);
+
+  // The recitation player follows the same spoken volume as the prompts.
+  useEffect(() => {
+    const applyVolume = (volume: number) => {
+      if (audioRef.current) audioRef.current.volume = volume;
+    };
+    applyVolume(speech.getVolume());
+    return speech.onVolumeChange(applyVolume);
+  }, []);
+
+  const playSurah = useCallback(async (surahKey: string, startAt: number = 0) => {
     const surah = surahDatabase[surahKey];
     if (surah) {
       stopPlayback();
+      setResumePoint(null);
       setCurrentSurah(surah.name);
       
-      setMessage(`ஓதப்படுகிறது: சூரா ${surah.name}...`);
+      setMessage(t('surah.playing', { name: surah.name }));
+      const reciter = reciterFor(surah, reciterIdRef.current);
       if (audioRef.current) {
-        audioRef.current.src = surah.audio;
-        audioRef.current.play().catch(err => {
+        const audio = audioRef.current;
+        audio.src = surahAudioUrl(surah, reciter);
+        if (startAt > 0) {
+          audio.addEventListener('loadedmetadata', () => { audio.currentTime = startAt; }, { once: true });
+        }
+        audio.play().catch(err => {
           console.error('Audio playback error:', err);
-          setMessage('ஆடியோ கோப்பு கிடைக்கவில்லை. தயவுசெய்து ஆடியோ கோப்பைச் சேர்க்கவும்.');
+          setMessage(audioUnavailableMessage());
         });
-        audioRef.current.onplaying = () => setIsPlaying(true);
+        audio.onplaying = () => setIsPlaying(true);
         
-        playbackTimerRef.current = setTimeout(() => {
-          if (audioRef.current && !audioRef.current.paused) {
-            handlePlaybackEnd(false);
-          }
-        }, 60000);
+        const policy = settings.recitation;
+        if (policy.mode === 'preview') {
+          const previewMs = policy.seconds * 1000;
+          const endPreview = () => {
+            if (audioRef.current && !audioRef.current.paused) {
+              setResumePoint({ surahKey, position: audioRef.current.currentTime });
+              handlePlaybackEndRef.current(false);
+            }
+          };
+          // Warn a few seconds before the preview is cut off.
+          playbackTimerRef.current = setTimeout(() => {
+            setMessage(t('surah.previewEnding', { name: surah.name }));
+            playbackTimerRef.current = setTimeout(endPreview, Math.min(PREVIEW_WARNING_MS, previewMs));
+          }, Math.max(0, previewMs - PREVIEW_WARNING_MS));
+        }
       }
       
       setTimeout(() => {
-        setMessage(`இப்போது ஓதப்படுவது: சூரா ${surah.name} (அத்தியாயம் ${surah.number})`);
+        setMessage(t('surah.nowPlaying', { name: surah.name, number: surah.number, reciter: reciterLabel(reciter) }));
       }, 500);
     } else {
-      setMessage(`மன்னிக்கவும், அந்த சூராவை கண்டுபிடிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.`);
+      setMessage(t('surah.notFound'));
+    }
+  }, [stopPlayback, setResumePoint, settings.recitation]);
+
+  const playAyahRange = useCallback(async (surahKey: string, range: AyahRange, repeat: number, pauseMs: number, stopAfterMs?: number) => {
+    const surah = surahDatabase[surahKey];
+    if (!surah || !audioRef.current) return;
+    stopPlayback();
+    setResumePoint(null);
+    const startedAt = Date.now();
+    const session = new AbortController();
+    ayahSessionRef.current = session;
+    setCurrentSurah(surah.name);
+    setIsPlaying(true);
+
+    let lastAyah: number;
+    try {
+      lastAyah = await playAyahSequence(audioRef.current, surah, range, {
+        reciter: reciterFor(surah, reciterIdRef.current),
+        repeat,
+        pauseMs,
+        signal: session.signal,
+        shouldStop: stopAfterMs === undefined ? undefined : () => Date.now() - startedAt >= stopAfterMs,
+        onProgress: (progress) => {
+          setMessage(t('surah.playingAyah', { name: surah.name, ayah: progress.ayah, repetition: progress.repetition, repeat }));
+        },
+      });
+    } catch (err) {
+      if (isAyahPlaybackAborted(err)) return;
+      console.error('Ayah playback error:', err);
+      ayahSessionRef.current = null;
+      setIsPlaying(false);
+      setMessage(audioUnavailableMessage());
+      return;
+    }
+    ayahSessionRef.current = null;
+    if (lastAyah < range.to) {
+      setResumePoint({ surahKey, nextAyah: lastAyah + 1 });
     }
-  }, [stopPlayback, handlePlaybackEnd]);
+    handlePlaybackEndRef.current(false);
+  }, [stopPlayback, setResumePoint]);
 
-  const handleWelcomeCommand = useCallback((command: string) => {
-    if (command.toLowerCase().includes('continue')) {
+  // Plays a whole surah under the operator's recitation policy, optionally from a resume point.
+  const playRecitation = useCallback((surahKey: string, resume: ResumePoint | null = null) => {
+    const surah = surahDatabase[surahKey];
+    if (!surah) return;
+    const policy = settings.recitation;
+    if (policy.mode === 'ayahBoundary') {
+      const from = resume && 'nextAyah' in resume ? resume.nextAyah : 1;
+      playAyahRange(surahKey, { from, to: surah.ayahCount }, 1, 0, policy.seconds * 1000);
+    } else {
+      playSurah(surahKey, resume && 'position' in resume ? resume.position : 0);
+    }
+  }, [settings.recitation, playAyahRange, playSurah]);
+
+  const resumeRecitation = useCallback(() => {
+    const resume = resumePointRef.current;
+    if (resume) playRecitation(resume.surahKey, resume);
+  }, [playRecitation]);
+
+  // Plays the whole surah, or the configured verse range when memorisation mode is on.
+  const startSurah = useCallback((surahKey: string, spokenRange: AyahRange | null = null, spokenRepeat: number | null = null) => {
+    const surah = surahDatabase[surahKey];
+    if (!surah) return;
+    const repeat = spokenRepeat ?? memorisation.repeat;
+    const pauseMs = memorisation.pauseSeconds * 1000;
+
+    if (spokenRange) {
+      playAyahRange(surahKey, spokenRange, repeat, pauseMs);
+    } else if (memorisation.enabled) {
+      const from = Math.min(memorisation.from, surah.ayahCount);
+      playAyahRange(surahKey, { from, to: Math.min(Math.max(memorisation.to, from), surah.ayahCount) }, repeat, pauseMs);
+    } else {
+      playRecitation(surahKey);
+    }
+  }, [memorisation, playAyahRange, playRecitation]);
+
+  const handleWelcomeCommand = useCallback((intent: WelcomeIntent) => {
+    if (intent.type === 'continue') {
         setCurrentScreen('landing');
     }
   }, []);
 
-  const handleVoiceCommand = useCallback((command: string) => {
-    if (!command) return;
-
-    let foundSurahKey: string | null = null;
-    const surahKeys = Object.keys(surahDatabase).sort((a, b) => b.length - a.length);
-    for (const key of surahKeys) {
-      if (command.toLowerCase().includes(key) || command.toLowerCase().includes(key.replace(/-/g, ' '))) {
-        foundSurahKey = key;
+  const handleVoiceCommand = useCallback((intent: SurahIntent) => {
+    switch (intent.type) {
+      case 'resume':
+        if (resumePointRef.current) resumeRecitation();
+        else setMessage(t('surah.nothingToResume'));
+        break;
+      case 'play':
+        if (intent.reciterId) selectReciter(intent.reciterId);
+        startSurah(intent.surahKey, intent.range, intent.repeat);
+        break;
+      case 'reciter': {
+        selectReciter(intent.reciterId);
+        setMessage(t('surah.reciterChosen', { reciter: reciterLabel(getReciter(intent.reciterId)) }));
         break;
       }
+      default:
+        setMessage(t('surah.notFound'));
     }
-    if (foundSurahKey) {
-        playSurah(foundSurahKey);
-    } else {
-        setMessage(`மன்னிக்கவும், அந்த சூராவை கண்டுபிடிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.`);
-    }
-  }, [playSurah]);
+  }, [startSurah, resumeRecitation, selectReciter]);
 
-  const playDua = useCallback((dua: Dua) => {
+  // Plays the Arabic then the Tamil meaning, `settings.dua.repeat` times, then waits for a command.
+  const playDua = useCallback(async (dua: Dua, startAt: number = 0, meaningOnly: boolean = false) => {
     stopPlayback();
     stopListening();
-    
-    const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(dua.arabic)}&tl=ar&client=tw-ob`;
-    
-    if (audioRef.current) {
-      audioRef.current.src = ttsUrl;
-      audioRef.current.play().catch(err => {
-        console.error('TTS playback error:', err);
-        setDuaMessage('ஆடியோவை இயக்க முடியவில்லை. பிணைய இணைப்பைச் சரிபார்க்கவும்.');
-        setIsPlaying(false);
-        setTimeout(() => goBackToDuaList(), 2000);
-      });
-      audioRef.current.onplaying = () => setIsPlaying(true);
+    setDuaMessage('');
+    const session = new AbortController();
+    duaSessionRef.current = session;
+    const { signal } = session;
+    const words = splitWords(dua.arabic);
+    const { repeat, includeTranslation } = settings.dua;
+    const onStart = () => setIsPlaying(true);
+
+    try {
+      for (let round = 0; round < (meaningOnly ? 1 : repeat); round++) {
+        if (!meaningOnly) {
+          setDuaPart('arabic');
+          await speak(dua.arabic, 'ar', {
+            signal,
+            audio: dua.audio,
+            startAt: round === 0 ? startAt : 0,
+            onStart,
+            onProgress: (time, duration) => {
+              // Recorded timings only describe the recording, so TTS audio is always estimated.
+              const timings = dua.audio && dua.wordTimings ? dua.wordTimings : estimateWordTimings(words, duration);
+              duaTimingsRef.current = timings;
+              setDuaWordIndex(wordIndexAt(timings, time));
+            },
+          });
+        }
+        if (meaningOnly || includeTranslation) {
+          setDuaPart('meaning');
+          setDuaWordIndex(-1);
+          await speak(dua.translationTamil, 'ta', { signal, onStart });
+        }
+      }
+    } catch (err) {
+      if (isSpeechCancelled(err)) return;
+      console.error('TTS playback error:', err);
+      setDuaMessage(t('dua.audioFailed'));
     }
-  }, [stopPlayback, stopListening, goBackToDuaList]);
+    duaSessionRef.current = null;
+    setIsPlaying(false);
+    setDuaPart(null);
+    setDuaWordIndex(-1);
+    awaitDuaCommand();
+  }, [stopPlayback, stopListening, awaitDuaCommand, settings.dua]);
 
   const selectDuaAndPlay = useCallback((dua: Dua) => {
     setCurrentDua(dua);
     setCurrentScreen('duaPlayer');
   }, []);
 
-  const handleDuaRequest = useCallback((transcript: string) => {
-    const foundDua = Object.values(duaDatabase).find(dua => 
-      dua.keywords.some(keyword => transcript.toLowerCase().includes(keyword.toLowerCase()))
-    );
-    
-    if (foundDua) {
-      selectDuaAndPlay(foundDua);
-    } else {
-      setDuaMessage('மன்னிக்கவும், அந்த துவாவைக் கண்டுபிடிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.');
+  // Reads out close matches as "1. ..., 2. ..." and listens for the visitor's pick.
+  const offerDuaChoices = useCallback(async (duas: Dua[]) => {
+    setDuaChoices(duas);
+    const choose = prompt('duaChoose');
+    setDuaMessage(choose.text);
+    try {
+      await speakPrompt(choose, { interrupt: true });
+      for (const [i, dua] of duas.entries()) {
+        await speak(String(i + 1), LOCALES[getLocale()].speechLang);
+        // Dua names are Tamil whatever the visitor's language.
+        await speak(dua.name, 'ta');
+      }
+      await speakPrompt(prompt('duaChooseHint'));
+    } catch (err) {
+      if (isSpeechCancelled(err)) return;
+      console.error('Dua choices TTS failed', err);
     }
-  }, [selectDuaAndPlay]);
+    startListening(true);
+  }, [setDuaChoices, startListening]);
 
-  const handleLandingCommand = useCallback((command: string) => {
-    const lowerCommand = command.toLowerCase().replace(/[.,?]/g, '').trim();
-    
-    const surahKeywords = ['சூரா', 'சுரா', 'surah'];
-    const quizKeywords = ['வினாடி வினா', 'quiz', 'vinadi vina'];
-    const duaKeywords = ['துஆ', 'துவா', 'dua'];
+  const handleDuaRequest = useCallback((intent: DuaListIntent) => {
+    if (intent.type === 'choose') {
+      offerDuaChoices(intent.duas);
+      return;
+    }
+    setDuaChoices(null);
+    if (intent.type === 'dua') {
+      selectDuaAndPlay(intent.dua);
+    } else {
+      setDuaMessage(t('dua.notFound'));
+    }
+  }, [selectDuaAndPlay, offerDuaChoices, setDuaChoices]);
+
+  const handleDuaPlayerCommand = useCallback((intent: DuaPlayerIntent) => {
+    if (!currentDua) return;
+    if (intent.type === 'meaningOnly') {
+      playDua(currentDua, 0, true);
+    } else if (intent.type === 'repeat') {
+      playDua(currentDua);
+    } else if (intent.type === 'back') {
+      goBackToDuaList();
+    } else {
+      const notUnderstood = prompt('duaNotUnderstood');
+      setDuaMessage(notUnderstood.text);
+      speakPrompt(notUnderstood).then(() => startListening(true), err => {
+        if (!isSpeechCancelled(err)) startListening(true);
+      });
+    }
+  }, [currentDua, playDua, goBackToDuaList, startListening]);
 
-    const navigate = (screen: string) => {
+  const handleLandingCommand = useCallback((intent: LandingIntent) => {
+    if (intent.type === 'navigate') {
         setFailedRecognitionAttempts(0);
-        setCurrentScreen(screen);
-    };
-
-    if (surahKeywords.some(keyword => lowerCommand.includes(keyword))) {
-        navigate('surah');
-    } else if (quizKeywords.some(keyword => lowerCommand.includes(keyword))) {
-        navigate('quizRules');
-    } else if (duaKeywords.some(keyword => lowerCommand.includes(keyword))) {
-        navigate('duaList');
+        setCurrentScreen(intent.screen);
     } else {
         const newAttemptCount = failedRecognitionAttempts + 1;
         setFailedRecognitionAttempts(newAttemptCount);
         
         stopListening();
 
-        let errorMsg: string;
-        let shouldListenAgain: boolean;
-
-        if (newAttemptCount < 3) {
-            errorMsg = "மன்னிக்கவும், எனக்குப் புரியவில்லை. மீண்டும் முயற்சிக்கவும்.";
-            shouldListenAgain = true;
-        } else {
-            errorMsg = "மன்னிக்கவும், உங்கள் குரலை என்னால் கண்டறிய முடியவில்லை. திரையில் உள்ள பொத்தான்களைப் பயன்படுத்தவும்.";
-            shouldListenAgain = false;
-        }
+        const shouldListenAgain = newAttemptCount < 3;
+        const errorPrompt = prompt(shouldListenAgain ? 'landingNotUnderstood' : 'landingUseButtons');
 
-        const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(errorMsg)}&tl=ta&client=tw-ob`;
-        
-        if (audioRef.current) {
-            audioRef.current.src = ttsUrl;
-            audioRef.current.play().catch(e => {
-                console.error("Error TTS failed", e);
+        speakPrompt(errorPrompt).then(
+            () => {
                 if (shouldListenAgain) startListening();
-            });
-            audioRef.current.onended = () => {
+            },
+            e => {
+                if (isSpeechCancelled(e)) return;
+                console.error("Error TTS failed", e);
                 if (shouldListenAgain) startListening();
             }
-        } else {
-            if (shouldListenAgain) startListening();
-        }
+        );
     }
   }, [startListening, stopListening, failedRecognitionAttempts]);
 
   useEffect(() => {
     if (currentScreen === 'welcome') {
       stopPlayback();
-      const arabicGreeting = 'ٱلسَّلَامُ عَلَيْكُمْ';
-      const tamilIntro = "நான் சித்திக்கா - உங்கள் இஸ்லாமிய ரோபோ தோழி. நாம் தொடங்கலாமா?";
-      
-      let cancelled = false;
+      const token = new AbortController();
       isWelcomeSequencePlaying.current = true;
       
-      const playAudio = (text: string, lang: string, isLast: boolean = false) => {
-          return new Promise<void>((resolve, reject) => {
-              if (cancelled || !audioRef.current) {
-                  return reject('cancelled or no audio element');
-              }
-              const audio = audioRef.current;
-              const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(text)}&tl=${lang}&client=tw-ob`;
-              
-              const onEnded = () => {
-                  audio.removeEventListener('ended', onEnded);
-                  audio.removeEventListener('error', onError);
-                  if (isLast) {
-                      startListening(true);
-                  }
-                  if (!cancelled) resolve();
-              };
-              const onError = (e: any) => {
-                  audio.removeEventListener('ended', onEnded);
-                  audio.removeEventListener('error', onError);
-                   if (isLast) {
-                      // Fallback if audio fails to play, still start listening
-                      startListening(true);
-                  }
-                  if (!cancelled) reject(e);
-              };
-
-              audio.src = ttsUrl;
-              audio.addEventListener('ended', onEnded);
-              audio.addEventListener('error', onError);
-              audio.play().catch(onError);
-          });
-      };
-      
       const startSequence = async () => {
           try {
-              await playAudio(arabicGreeting, 'ar');
-              if (cancelled) return;
-              await playAudio(tamilIntro, 'ta', true);
+              await speakPrompt(GREETING, { signal: token.signal });
+              await speakPrompt(prompt('welcomeIntro'), { signal: token.signal });
           } catch (error) {
-              if (!cancelled) {
-                  console.warn("Welcome audio playback failed.", error);
-              }
+              if (isSpeechCancelled(error)) return;
+              console.warn("Welcome audio playback failed.", error);
           } finally {
-              if (!cancelled) {
+              if (!token.signal.aborted) {
                   isWelcomeSequencePlaying.current = false;
               }
           }
+          // Start listening even if the greeting failed to play.
+          startListening(true);
       };
 
       startSequence();
 
       return () => {
-          cancelled = true;
+          token.abort();
           isWelcomeSequencePlaying.current = false;
           stopPlayback();
           stopListening();
       };
     }
-  }, [currentScreen, stopPlayback, startListening, stopListening]);
+    // Picking a language replays the greeting in it.
+  }, [currentScreen, locale, stopPlayback, startListening, stopListening]);
 
   useEffect(() => {
-    let cancelled = false;
     if (currentScreen === 'landing') {
       stopPlayback();
       setFailedRecognitionAttempts(0);
-      
-      const playAudio = (text: string, lang: string) => {
-          return new Promise<void>((resolve, reject) => {
-              if (cancelled || !audioRef.current) {
-                  return reject('cancelled or no audio element');
-              }
-              const audio = audioRef.current;
-              const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(text)}&tl=${lang}&client=tw-ob`;
-              
-              const onEnded = () => {
-                  audio.removeEventListener('ended', onEnded);
-                  audio.removeEventListener('error', onError);
-                  if (!cancelled) resolve();
-              };
-              const onError = (e: any) => {
-                  audio.removeEventListener('ended', onEnded);
-                  audio.removeEventListener('error', onError);
-                  if (!cancelled) reject(e);
-              };
-
-              audio.src = ttsUrl;
-              audio.addEventListener('ended', onEnded);
-              audio.addEventListener('error', onError);
-              audio.play().catch(onError);
-          });
-      };
+      const token = new AbortController();
       
       const startSequence = async () => {
           try {
-              const tamilGreeting = "இன்று நீங்கள் என்ன செய்ய விரும்புகிறீர்கள்?";
-              const tamilChoice = "சூரா, வினாடி வினா, அல்லது துஆ?";
               await new Promise(resolve => setTimeout(resolve, 500)); // Delay for transition
-              if (cancelled) return;
-              await playAudio(tamilGreeting, 'ta');
-              if (cancelled) return;
-              await playAudio(tamilChoice, 'ta');
-              if (cancelled) return;
+              if (token.signal.aborted) return;
+              await speakPrompt(prompt('landingQuestion'), { signal: token.signal });
+              await speakPrompt(prompt('landingChoices'), { signal: token.signal });
               startListening();
           } catch (error) {
-              if (!cancelled) {
+              if (!isSpeechCancelled(error)) {
                   console.warn("Landing screen audio playback failed.", error);
               }
           }
@@ -439,7 +596,7 @@ const App: FC = () => {
       startSequence();
 
       return () => {
-          cancelled = true;
+          token.abort();
           stopPlayback();
       };
     }
@@ -449,160 +606,257 @@ const App: FC = () => {
     if (currentScreen === 'quizRules') {
         stopPlayback(); // Stop any previous sound
 
-        const rulesTitle = "வினாடி வினா விதிகள்.";
-        const rules = [
-            'ஒன்று: 5 கேள்விகள் கேட்கப்படும் மற்றும் ஒவ்வொன்றிற்கும் ஒரு சரியான பதில் உள்ளது.',
-            'இரண்டு: எந்தவொரு கேள்விக்கும் உங்களுக்கு அதிகபட்சம் மூன்று முயற்சிகள் வழங்கப்படும்.',
-            'மூன்று: 5வது கேள்விக்குப் பிறகு மதிப்பெண் அட்டை வழங்கப்படும்.',
-            'நான்கு: நீங்கள் விருப்பத்தை கிளிக் செய்யலாம் அல்லது "ஆப்ஷன் 1" என்று கூறலாம்.'
-        ];
-        
-        const audioQueue = [rulesTitle, ...rules];
-        let cancelled = false;
+        const audioQueue = (['quizRulesTitle', 'quizRule1', 'quizRule2', 'quizRule3', 'quizRule4'] as const).map(id => prompt(id));
+        const token = new AbortController();
 
         const playQueue = async () => {
-            if (!audioRef.current) return;
-            const audio = audioRef.current;
-
-            for (const text of audioQueue) {
-                if (cancelled) break;
-                await new Promise<void>((resolve, reject) => {
-                    const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(text)}&tl=ta&client=tw-ob`;
-                    
-                    const onEnded = () => {
-                        audio.removeEventListener('ended', onEnded);
-                        audio.removeEventListener('error', onError);
-                        if (!cancelled) resolve();
-                    };
-                    const onError = (e: any) => {
-                        audio.removeEventListener('ended', onEnded);
-                        audio.removeEventListener('error', onError);
-                        console.error("Quiz rules audio chunk failed", e);
-                        if (!cancelled) reject(e); // Stop on failure
-                    };
-
-                    audio.src = ttsUrl;
-                    audio.addEventListener('ended', onEnded);
-                    audio.addEventListener('error', onError);
-                    audio.play().catch(onError);
-                });
+            for (const rule of audioQueue) {
+                await speakPrompt(rule, { signal: token.signal });
             }
         };
         
         playQueue().catch(err => {
-            if (!cancelled) {
+            if (!isSpeechCancelled(err)) {
                 console.error("Failed to play all quiz rules.", err);
             }
         });
 
         return () => {
-            cancelled = true;
+            token.abort();
             stopPlayback(false);
         };
     }
   }, [currentScreen, stopPlayback]);
 
   useEffect(() => {
-      let cancelled = false;
       if (currentScreen === 'surah' || currentScreen === 'duaList') {
           stopPlayback();
-          const instructionText = currentScreen === 'surah' 
-            ? "நீங்கள் கேட்க விரும்பும் சூராவின் பெயரைச் சொல்லுங்கள்"
-            : "நீங்கள் கேட்க விரும்பும் துஆவைத் தேர்ந்தெடுக்கவும் அல்லது அதன் பெயரைச் சொல்லவும்";
-
-          const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(instructionText)}&tl=ta&client=tw-ob`;
-
-          if (audioRef.current) {
-              const audio = audioRef.current;
-              const onEnded = () => {
-                  audio.removeEventListener('ended', onEnded);
-                  audio.removeEventListener('error', onError);
-                  if (!cancelled) startListening(true);
-              };
-              const onError = (e: any) => {
-                  audio.removeEventListener('ended', onEnded);
-                  audio.removeEventListener('error', onError);
-                  console.error("Instructional audio failed", e);
-                  if (!cancelled) startListening(true); // Fallback
-              };
-
-              audio.src = ttsUrl;
-              audio.addEventListener('ended', onEnded);
-              audio.addEventListener('error', onError);
-              audio.play().catch(onError);
-          }
+          const instruction = prompt(currentScreen === 'surah' ? 'surahInstruction' : 'duaInstruction');
+          const token = new AbortController();
 
-          return () => {
-              cancelled = true;
-              if (audioRef.current && audioRef.current.src === ttsUrl) {
-                  stopPlayback(false);
+          speakPrompt(instruction, { signal: token.signal }).then(
+              () => startListening(true),
+              e => {
+                  if (isSpeechCancelled(e)) return;
+                  console.error("Instructional audio failed", e);
+                  startListening(true); // Fallback
               }
-          };
+          );
+
+          return () => token.abort();
       }
   }, [currentScreen, startListening, stopPlayback]);
 
   useEffect(() => {
     if (currentScreen === 'duaPlayer' && currentDua) {
+        duaTimingsRef.current = [];
+        setDuaWordIndex(-1);
         playDua(currentDua);
     }
   }, [currentScreen, currentDua, playDua]);
 
+  useEffect(() => {
+    duaWordRefs.current[duaWordIndex]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [duaWordIndex]);
+
+  const replayDuaFromWord = (index: number) => {
+    if (!currentDua) return;
+    // Before the duration is known (or with speech synthesis) replay from the start.
+    const startAt = duaTimingsRef.current[index] ?? 0;
+    setDuaWordIndex(startAt > 0 ? index : -1);
+    playDua(currentDua, startAt);
+  };
+
 
+  const goBack = useCallback(() => {
+    stopPlayback();
+    stopListening();
+    setCurrentScreen('landing');
+    setTranscription('');
+    setMessage('');
+    setDuaMessage('');
+    setCurrentDua(null);
+    setResumePoint(null);
+    setIsListening(false);
+  }, [stopPlayback, stopListening, setResumePoint]);
+  
+  // Global commands run before the screen grammar; returns false to let the screen handle it.
+  const handleGlobalCommand = useCallback((intent: GlobalIntent): boolean => {
+    switch (intent.type) {
+      case 'back':
+        if (currentScreen === 'duaPlayer') goBackToDuaList();
+        else if (currentScreen === 'surah' || currentScreen === 'duaList') goBack();
+        else return false;
+        return true;
+      case 'home':
+        if (currentScreen === 'landing') return false;
+        goBack();
+        return true;
+      case 'stop':
+        if (currentScreen === 'surah' || currentScreen === 'duaPlayer') handlePlaybackEnd(true);
+        else stopPlayback();
+        return true;
+      case 'repeatPrompt':
+        repeatLastUtterance().then(
+          () => startListening(true),
+          err => { if (!isSpeechCancelled(err)) startListening(true); }
+        );
+        return true;
+      case 'volume':
+        changeVolume(intent.direction);
+        return true;
+      case 'nextSurah': {
+        if (currentScreen !== 'surah') return false;
+        const playing = Object.values(surahDatabase).find(surah => surah.name === currentSurah);
+        const nextKey = playing && surahKeyForNumber(playing.number % 114 + 1);
+        if (nextKey) startSurah(nextKey);
+        else setMessage(t('surah.chooseFirst'));
+        return true;
+      }
+    }
+  }, [currentScreen, currentSurah, goBack, goBackToDuaList, handlePlaybackEnd, stopPlayback, startListening, startSurah]);
+
+  const showListeningMessage = useCallback((text: string) => {
+    if (currentScreen === 'duaList' || currentScreen === 'duaPlayer') setDuaMessage(text);
+    else setMessage(text);
+  }, [currentScreen]);
+
+  const clearConfirmation = useCallback(() => {
+    pendingConfirmationRef.current = null;
+    if (confirmationTimerRef.current) clearTimeout(confirmationTimerRef.current);
+    confirmationTimerRef.current = null;
+  }, []);
+
+  // Asks "did you say ...?" and holds `act` until the visitor answers yes.
+  const askToConfirm = useCallback((heard: string, act: () => void) => {
+    // Asking again keeps the first deadline, so an answer that is never yes or no still runs out.
+    if (pendingConfirmationRef.current?.act !== act) {
+      clearConfirmation();
+      confirmationTimerRef.current = setTimeout(clearConfirmation, CONFIRMATION_TIMEOUT_MS);
+    }
+    pendingConfirmationRef.current = { heard, act };
+    const question = t('common.confirm', { heard });
+    showListeningMessage(question);
+    speak(question, LOCALES[getLocale()].speechLang, { interrupt: true }).then(
+      () => startListening(true),
+      err => { if (!isSpeechCancelled(err)) startListening(true); }
+    );
+  }, [clearConfirmation, showListeningMessage, startListening]);
+
+  const answerConfirmation = useCallback((alternatives: SpokenAlternative[], pending: { heard: string; act: () => void }) => {
+    const answer = bestIntent(alternatives, parseConfirmation).intent.type;
+    if (answer === 'unknown') {
+      askToConfirm(pending.heard, pending.act);
+      return;
+    }
+    clearConfirmation();
+    if (answer === 'yes') {
+      pending.act();
+      return;
+    }
+    // "No": drop the guess and let the visitor say it again.
+    const declined = prompt('confirmDeclined');
+    showListeningMessage(declined.text);
+    speakPrompt(declined, { interrupt: true }).then(
+      () => startListening(true),
+      err => { if (!isSpeechCancelled(err)) startListening(true); }
+    );
+  }, [askToConfirm, clearConfirmation, showListeningMessage, startListening]);
+
+  // Acts on a match straight away, or after a yes when the recogniser was unsure.
+  // `describe` names what was matched ("யாஸீன்"); otherwise the heard words are read back.
+  const dispatchMatch = useCallback(<I extends { type: string }>(
+    match: IntentMatch<I>,
+    handle: (intent: I) => void,
+    describe: (intent: I) => string | undefined = () => undefined
+  ) => {
+    if (!needsConfirmation(match)) {
+      handle(match.intent);
+      return;
+    }
+    askToConfirm(describe(match.intent) ?? match.transcript, () => handle(match.intent));
+  }, [askToConfirm]);
+
+  // Every alternative is matched against the global commands and the screen's grammar.
+  const handleAlternatives = useCallback((alternatives: SpokenAlternative[]) => {
+    if (!alternatives.length) return;
+    setTranscription(alternatives[0].transcript.toLowerCase().trim());
+
+    const pending = pendingConfirmationRef.current;
+    if (pending) {
+      answerConfirmation(alternatives, pending);
+      return;
+    }
+
+    const global = bestIntent(alternatives, transcript => parseGlobalCommand(transcript) ?? { type: 'unknown' as const });
+    if (global.intent.type !== 'unknown' && handleGlobalCommand(global.intent as GlobalIntent)) return;
+
+    if (currentScreen === 'welcome') dispatchMatch(bestIntent(alternatives, parseWelcome), handleWelcomeCommand);
+    else if (currentScreen === 'surah') dispatchMatch(bestIntent(alternatives, parseSurahCommand), handleVoiceCommand, intent => {
+      if (intent.type !== 'play') return undefined;
+      const surah = surahDatabase[intent.surahKey];
+      return (getLocale() === 'ta' && surahTamilName(surah.number)) || surah.name;
+    });
+    else if (currentScreen === 'duaList') {
+      const choices = duaChoicesRef.current;
+      const parse = (transcript: string) => choices ? parseDuaChoice(transcript, choices) : parseDuaRequest(transcript);
+      dispatchMatch(bestIntent(alternatives, parse), handleDuaRequest, intent => intent.type === 'dua' ? intent.dua.name : undefined);
+    }
+    else if (currentScreen === 'duaPlayer') dispatchMatch(bestIntent(alternatives, parseDuaPlayerCommand), handleDuaPlayerCommand);
+    else if (currentScreen === 'landing') dispatchMatch(bestIntent(alternatives, parseLanding), handleLandingCommand);
+  }, [currentScreen, answerConfirmation, dispatchMatch, handleGlobalCommand, handleVoiceCommand, handleDuaRequest, handleDuaPlayerCommand, handleLandingCommand, handleWelcomeCommand]);
+  const handleAlternativesRef = useRef(handleAlternatives);
+
+  // A question left unanswered does not carry over to another screen.
   useEffect(() => {
-    if (['quiz', 'quizRules', 'initial', 'duaPlayer'].includes(currentScreen)) {
+    clearConfirmation();
+    setDuaChoices(null);
+  }, [currentScreen, clearConfirmation, setDuaChoices]);
+
+  useEffect(() => {
+    if (['quiz', 'quizRules', 'ask', 'initial', 'operator'].includes(currentScreen)) {
       if (recognitionRef.current) {
         recognitionRef.current.stop();
       }
        // Don't nullify for quizRules as it might be needed by the audio playback effect
-      if (['quiz', 'initial'].includes(currentScreen)) {
+      if (['quiz', 'ask', 'initial', 'operator'].includes(currentScreen)) {
           recognitionRef.current = null;
       }
       return;
     }
 
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (SpeechRecognition) {
-      if (!recognitionRef.current) {
-        recognitionRef.current = new SpeechRecognition();
-        recognitionRef.current.continuous = false;
-        recognitionRef.current.interimResults = false;
-      }
-
-      recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
-        const transcript = event.results[0][0].transcript.toLowerCase().trim();
-        setTranscription(transcript);
-        
-        if (currentScreen === 'welcome') handleWelcomeCommand(transcript);
-        else if (currentScreen === 'surah') handleVoiceCommand(transcript);
-        else if (currentScreen === 'duaList') handleDuaRequest(transcript);
-        else if (currentScreen === 'landing') handleLandingCommand(transcript);
+    if (!recognitionRef.current) recognitionRef.current = createRecognizer();
+    if (recognitionRef.current) {
+      recognitionRef.current.onresult = (event: RecognitionEvent) => {
+        handleAlternatives(event.results[0].alternatives);
       };
 
-      recognitionRef.current.onerror = (event: SpeechRecognitionErrorEvent) => {
+      recognitionRef.current.onerror = (event: RecognitionError) => {
         console.error('Speech recognition error:', event.error, event.message);
         setIsListening(false);
+        clearConfirmation();
         
         if (currentScreen === 'landing' && (event.error === 'no-speech' || event.error === 'audio-capture')) {
-            handleLandingCommand(''); // Trigger retry logic
+            handleLandingCommand({ type: 'unknown' }); // Trigger retry logic
             return;
         }
 
-        let errorMessage = 'மன்னிக்கவும், எனக்குப் புரியவில்லை. மீண்டும் முயற்சிக்கவும்.';
+        let errorMessage = t('mic.notUnderstood');
         if (event.error !== 'aborted') {
           switch (event.error) {
             case 'network':
-              errorMessage = 'ஒரு நெட்வொர்க் பிழை ஏற்பட்டது. உங்கள் இணைய இணைப்பைச் சரிபார்க்கவும்.';
+              errorMessage = t('mic.network');
               break;
             case 'no-speech':
-              errorMessage = 'நான் எதுவும் கேட்கவில்லை. தயவுசெய்து மீண்டும் பேச முயற்சிக்கவும்.';
+              errorMessage = t('mic.noSpeech');
               break;
             case 'not-allowed':
             case 'service-not-allowed':
-              errorMessage = 'மைக்ரோஃபோன் அணுகல் மறுக்கப்பட்டது. உங்கள் உலாவி அமைப்புகளில் அதை இயக்கவும்.';
+              errorMessage = t('mic.denied');
               break;
           }
         }
-        if (currentScreen === 'duaList') setDuaMessage(errorMessage);
+        if (currentScreen === 'duaList' || currentScreen === 'duaPlayer') setDuaMessage(errorMessage);
         else if (currentScreen === 'surah') setMessage(errorMessage);
       };
 
@@ -611,21 +865,90 @@ const App: FC = () => {
 
     return () => {
       if (recognitionRef.current) recognitionRef.current.stop();
-      if ('speechSynthesis' in window) window.speechSynthesis.cancel();
     };
-  }, [currentScreen, handleVoiceCommand, handleDuaRequest, handleLandingCommand, handleWelcomeCommand]);
+  }, [currentScreen, clearConfirmation, handleAlternatives, handleLandingCommand]);
 
-  const goBack = useCallback(() => {
-    stopPlayback();
-    stopListening();
-    setCurrentScreen('landing');
-    setTranscription('');
-    setMessage('');
-    setDuaMessage('');
-    setCurrentDua(null);
-    setIsListening(false);
+  useEffect(() => {
+    handleAlternativesRef.current = handleAlternatives;
+  }, [handleAlternatives]);
+
+  // Hands-free mode keeps one continuous session open per screen and reconnects on its own.
+  useEffect(() => {
+    if (!settings.listening.handsFree || !isVoiceScreen(currentScreen)) return;
+    const listener = createHandsFreeListener({
+      lang: recognitionLang,
+      wakeWindowSeconds: settings.listening.wakeWindowSeconds,
+      onCommand: alternatives => handleAlternativesRef.current(alternatives),
+      isPlaying: () => !!audioRef.current && !audioRef.current.paused,
+      // Nobody answered in time: a later command is not a yes or no.
+      onWakeWindowEnd: () => clearConfirmation(),
+      onArmedChange: armed => {
+        setIsListening(armed);
+        if (armed && (currentScreen === 'duaList' || currentScreen === 'duaPlayer')) setDuaMessage(t('common.listening'));
+        else if (armed && currentScreen === 'surah') setMessage(t('common.listening'));
+      },
+      onFatalError: () => {
+        handsFreeRef.current = null;
+        setMessage(t('mic.denied'));
+      },
+    });
+    if (!listener) return;
+    handsFreeRef.current = listener;
+    listener.start();
+    return () => {
+      listener.stop();
+      handsFreeRef.current = null;
+    };
+  }, [settings.listening, settings.recognition, currentScreen, locale, clearConfirmation]);
+
+  // Each new visitor starts in the operator's language.
+  useEffect(() => {
+    if (currentScreen === 'initial') {
+      setLocale(defaultLocale());
+      setQuizCategory(null);
+      setQuizLightning(false);
+    }
+  }, [currentScreen, settings.defaultLocale]);
+
+  // A touch, a key or anything heard on the welcome screen hides the leaderboard and starts the wait again.
+  useEffect(() => {
+    if (currentScreen !== 'welcome') {
+      setShowLeaderboard(false);
+      return;
+    }
+    let idleTimer: ReturnType<typeof setTimeout>;
+    const wake = () => {
+      setShowLeaderboard(false);
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => setShowLeaderboard(true), LEADERBOARD_IDLE_SECONDS * 1000);
+    };
+    wake();
+    window.addEventListener('pointerdown', wake);
+    window.addEventListener('keydown', wake);
+    return () => {
+      clearTimeout(idleTimer);
+      window.removeEventListener('pointerdown', wake);
+      window.removeEventListener('keydown', wake);
+    };
+  }, [currentScreen, transcription]);
+
+  const leaveOperatorScreen = useCallback(() => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setCurrentScreen('initial');
+  }, []);
+
+  useEffect(() => {
+    const onHashChange = () => {
+      if (isOperatorHash()) {
+        stopPlayback();
+        stopListening();
+        setCurrentScreen('operator');
+      }
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
   }, [stopPlayback, stopListening]);
-  
+
   const uniqueSurahs = useMemo(() => {
     const seenNumbers = new Set<number>();
     const result: (Surah & { key: string })[] = [];
@@ -641,16 +964,30 @@ const App: FC = () => {
   const renderInitialScreen = () => (
     <div className="w-full h-full flex flex-col items-center justify-center text-center p-8 fade-in">
        <h1 className="text-5xl md:text-6xl font-bold text-amber-100 mb-2 tracking-wide">Siddiqah</h1>
-       <p className="text-xl text-emerald-200 mb-12 font-semibold">Your Islamic Robot Friend</p>
+       <p className="text-xl text-emerald-200 mb-12 font-semibold">{t('initial.tagline')}</p>
       <button 
         onClick={() => setCurrentScreen('welcome')}
         className="bg-amber-400 text-emerald-900 font-bold py-4 px-12 rounded-full text-2xl shadow-lg hover:bg-amber-300 transition-all duration-300 transform hover:scale-105"
       >
-        Start
+        {t('initial.start')}
       </button>
     </div>
   );
 
+  const renderLanguagePicker = () => (
+    <div className="mt-6 flex flex-wrap items-center justify-center gap-2" aria-label={t('welcome.language')}>
+      {(Object.keys(LOCALES) as Locale[]).map(code => (
+        <button
+          key={code}
+          onClick={() => setLocale(code)}
+          className={`py-1.5 px-4 rounded-full text-sm transition-colors ${code === locale ? 'bg-amber-400 text-emerald-900 font-semibold' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+        >
+          {LOCALES[code].name}
+        </button>
+      ))}
+    </div>
+  );
+
   const renderWelcomeScreen = () => (
     <div className="w-full h-full flex flex-col items-center justify-center text-center p-8 relative fade-in">
       <div className="absolute inset-0 flex items-center justify-center opacity-10">
@@ -659,21 +996,21 @@ const App: FC = () => {
       <div className="flex-grow flex flex-col items-center justify-center">
         <h1 className="text-7xl md:text-8xl font-bold text-amber-100 mb-4 tracking-wide font-arabic">ٱلسَّلَامُ عَلَيْكُمْ</h1>
         <p className="text-4xl md:text-5xl font-semibold text-emerald-100 mb-2 tracking-wide">Assalamu Alaikum</p>
-        <p className="text-2xl text-emerald-200 font-light tracking-wider">Peace be upon you</p>
-        <p className="text-2xl text-emerald-200 font-light tracking-wider font-tamil mt-2">உங்கள் மீது சாந்தி உண்டாவதாக</p>
-        <p className="text-xl text-emerald-100 mt-8 font-tamil">நான் சித்திக்கா - உங்கள் இஸ்லாமிய ரோபோ தோழி. நாம் தொடங்கலாமா?</p>
-        
+        <p className="text-2xl text-emerald-200 font-light tracking-wider font-tamil">{t('welcome.peace')}</p>
+        <p className="text-xl text-emerald-100 mt-8 font-tamil">{prompt('welcomeIntro').text}</p>
+        {renderLanguagePicker()}
+
         <div className="mt-8 h-20 flex flex-col items-center justify-center">
            {isListening ? (
              <div className="flex flex-col items-center justify-center text-amber-200 fade-in">
                 <div className="flex items-center gap-3">
                     <Mic className="text-red-400 animate-pulse" />
-                    <span>Listening for "Continue"...</span>
+                    <span>{t('welcome.listening')}</span>
                 </div>
                 <p className="mt-2 text-emerald-100 min-h-[24px] italic">{transcription || ' '}</p>
              </div>
            ) : (
-             <p className="text-lg text-amber-200 font-tamil">தொடர 'Continue' என்று கூறவும்.</p>
+             <p className="text-lg text-amber-200 font-tamil">{t('welcome.sayContinue')}</p>
            )}
         </div>
       </div>
@@ -682,9 +1019,15 @@ const App: FC = () => {
           onClick={() => setCurrentScreen('landing')} 
           className="bg-amber-400 text-emerald-900 font-bold py-3 px-6 rounded-full text-lg shadow-lg hover:bg-amber-300 transition-all duration-300 transform hover:scale-105 flex items-center gap-2"
         >
-          Continue <ArrowRight size={22} />
+          {t('common.continue')} <ArrowRight size={22} />
         </button>
       </div>
+      {showLeaderboard && leaderboardEntries.length > 0 && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-8 p-8 bg-emerald-950/95 fade-in">
+          <Leaderboard />
+          <p className="text-lg text-amber-200 font-tamil">{t('welcome.sayContinue')}</p>
+        </div>
+      )}
     </div>
   );
   
@@ -694,52 +1037,51 @@ const App: FC = () => {
         onClick={() => setCurrentScreen('welcome')} 
         className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"
       >
-        <ArrowLeft size={20} /> 
-        <div className="text-left">
-            <span>Back</span>
-            <div className="font-tamil text-xs font-normal opacity-80 -mt-1">பின் செல்</div>
-        </div>
+        <ArrowLeft size={20} /> {t('common.back')}
       </button>
       <div className="text-center space-y-12 fade-in">
         <div>
-          <p className="text-3xl text-amber-200 font-semibold">What would you like to do today?</p>
-          <p className="text-xl text-amber-100 font-tamil mt-2">இன்று நீங்கள் என்ன செய்ய விரும்புகிறீர்கள்?</p>
+          <p className="text-3xl text-amber-200 font-semibold font-tamil">{t('landing.question')}</p>
         </div>
         <div className="flex flex-col sm:flex-row gap-6 max-w-6xl mx-auto mt-12 justify-center sm:items-stretch">
           
-          <button onClick={() => setCurrentScreen('surah')} className="group flex flex-col text-center bg-gradient-to-br from-emerald-600 to-emerald-700 hover:from-emerald-500 hover:to-emerald-600 text-white p-8 rounded-2xl shadow-2xl transform transition-all duration-300 hover:scale-105 w-full sm:w-1/3">
+          <button onClick={() => setCurrentScreen('surah')} className="group flex flex-col text-center bg-gradient-to-br from-emerald-600 to-emerald-700 hover:from-emerald-500 hover:to-emerald-600 text-white p-8 rounded-2xl shadow-2xl transform transition-all duration-300 hover:scale-105 w-full sm:w-1/4">
             <div className="flex-grow">
               <Volume2 className="w-16 h-16 mx-auto mb-4 group-hover:animate-bounce" />
-              <h3 className="text-2xl font-bold">Play a Surah</h3>
-              <p className="font-tamil text-base text-emerald-100 mb-4">சூராவை ஓதவும்</p>
+              <h3 className="text-2xl font-bold font-tamil mb-4">{t('landing.surah')}</h3>
             </div>
             <div>
-                <p className="text-emerald-200 text-sm leading-tight">Listen to Quranic recitations</p>
-                <p className="font-tamil text-xs text-emerald-200">குர்ஆன் ஓதுதலைக் கேளுங்கள்</p>
+                <p className="font-tamil text-emerald-200 text-sm leading-tight">{t('landing.surahDetail')}</p>
             </div>
           </button>
 
-          <button onClick={() => setCurrentScreen('quizRules')} className="group flex flex-col text-center bg-gradient-to-br from-teal-600 to-teal-700 hover:from-teal-500 hover:to-teal-600 text-white p-8 rounded-2xl shadow-2xl transform transition-all duration-300 hover:scale-105 w-full sm:w-1/3">
+          <button onClick={() => setCurrentScreen('quizRules')} className="group flex flex-col text-center bg-gradient-to-br from-teal-600 to-teal-700 hover:from-teal-500 hover:to-teal-600 text-white p-8 rounded-2xl shadow-2xl transform transition-all duration-300 hover:scale-105 w-full sm:w-1/4">
              <div className="flex-grow">
               <Brain className="w-16 h-16 mx-auto mb-4 group-hover:animate-bounce" />
-              <h3 className="text-2xl font-bold">Start a Quiz</h3>
-              <p className="font-tamil text-base text-teal-100 mb-4">வினாடி வினா தொடங்க</p>
+              <h3 className="text-2xl font-bold font-tamil mb-4">{t('landing.quiz')}</h3>
             </div>
             <div>
-              <p className="text-teal-200 text-sm leading-tight">Test your Islamic knowledge</p>
-              <p className="font-tamil text-xs text-teal-200">உங்கள் இஸ்லாமிய அறிவை சோதிக்கவும்</p>
+              <p className="font-tamil text-teal-200 text-sm leading-tight">{t('landing.quizDetail')}</p>
             </div>
           </button>
 
-          <button onClick={() => setCurrentScreen('duaList')} className="group flex flex-col text-center bg-gradient-to-br from-cyan-600 to-cyan-700 hover:from-cyan-500 hover:to-cyan-600 text-white p-8 rounded-2xl shadow-2xl transform transition-all duration-300 hover:scale-105 w-full sm:w-1/3">
+          <button onClick={() => setCurrentScreen('duaList')} className="group flex flex-col text-center bg-gradient-to-br from-cyan-600 to-cyan-700 hover:from-cyan-500 hover:to-cyan-600 text-white p-8 rounded-2xl shadow-2xl transform transition-all duration-300 hover:scale-105 w-full sm:w-1/4">
             <div className="flex-grow">
               <div className="w-16 h-16 mx-auto mb-4 group-hover:animate-bounce text-5xl flex items-center justify-center">🤲</div>
-              <h3 className="text-2xl font-bold">Play a Dua</h3>
-              <p className="font-tamil text-base text-cyan-100 mb-4">துஆவைக் கேட்கவும்</p>
+              <h3 className="text-2xl font-bold font-tamil mb-4">{t('landing.dua')}</h3>
+            </div>
+            <div>
+              <p className="font-tamil text-cyan-200 text-sm leading-tight">{t('landing.duaDetail')}</p>
+            </div>
+          </button>
+
+          <button onClick={() => setCurrentScreen('ask')} className="group flex flex-col text-center bg-gradient-to-br from-amber-600 to-amber-700 hover:from-amber-500 hover:to-amber-600 text-white p-8 rounded-2xl shadow-2xl transform transition-all duration-300 hover:scale-105 w-full sm:w-1/4">
+            <div className="flex-grow">
+              <Sparkles className="w-16 h-16 mx-auto mb-4 group-hover:animate-bounce" />
+              <h3 className="text-2xl font-bold font-tamil mb-4">{t('landing.ask')}</h3>
             </div>
             <div>
-              <p className="text-cyan-200 text-sm leading-tight">Listen to beautiful supplications</p>
-              <p className="font-tamil text-xs text-cyan-200">அழகான பிரார்த்தனைகளைக் கேளுங்கள்</p>
+              <p className="font-tamil text-amber-200 text-sm leading-tight">{t('landing.askDetail')}</p>
             </div>
           </button>
         </div>
@@ -748,7 +1090,7 @@ const App: FC = () => {
         {isListening && (
           <div className="flex items-center gap-3 text-amber-200 fade-in">
             <Mic className="text-red-400 animate-pulse" />
-            <span>Listening...</span>
+            <span>{t('common.listening')}</span>
           </div>
         )}
         <p className="mt-2 text-emerald-100 min-h-[24px] italic">{transcription}</p>
@@ -756,15 +1098,69 @@ const App: FC = () => {
     </div>
   );
 
+  const renderReciterPicker = () => (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-3">
+      {reciters.map(reciter => (
+        <button
+          key={reciter.id}
+          onClick={() => selectReciter(reciter.id)}
+          className={`py-1.5 px-4 rounded-full text-sm transition-colors ${reciter.id === reciterId ? 'bg-amber-400 text-emerald-900 font-semibold' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+        >
+          {reciter.name}
+          {locale === 'ta' && <span className="block font-tamil text-xs opacity-80">{reciter.nameTamil}</span>}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderMemorisationControls = () => {
+    const numberInput = (field: 'from' | 'to' | 'repeat' | 'pauseSeconds', label: string, min: number) => (
+      <label className="flex items-center gap-2">
+        <span className="text-sm text-emerald-200">{label}</span>
+        <input
+          type="number"
+          min={min}
+          value={memorisation[field]}
+          onChange={(e) => setMemorisation(m => ({ ...m, [field]: Math.max(min, Number(e.target.value) || min) }))}
+          className="w-16 bg-black/20 text-white text-center rounded-lg py-1"
+        />
+      </label>
+    );
+
+    return (
+      <div className="flex flex-wrap items-center justify-center gap-4 mb-4 font-tamil">
+        <button
+          onClick={() => setMemorisation(m => ({ ...m, enabled: !m.enabled }))}
+          className={`py-2 px-4 rounded-full font-semibold transition-colors ${memorisation.enabled ? 'bg-amber-400 text-emerald-900' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+        >
+          {t('memorise.toggle')}
+        </button>
+        {memorisation.enabled && (
+          <>
+            {numberInput('from', t('memorise.from'), 1)}
+            {numberInput('to', t('memorise.to'), 1)}
+            {t('memorise.until') && <span className="text-sm text-emerald-200 -ml-2">{t('memorise.until')}</span>}
+            {numberInput('repeat', t('memorise.repeat'), 1)}
+            <span className="text-sm text-emerald-200 -ml-2">{t('memorise.times')}</span>
+            {numberInput('pauseSeconds', t('memorise.pause'), 0)}
+            <span className="text-sm text-emerald-200 -ml-2">{t('memorise.seconds')}</span>
+          </>
+        )}
+      </div>
+    );
+  };
+
   const renderSurahScreen = () => (
     <div className="relative w-full h-screen text-center flex flex-col items-center justify-start p-6">
-       <button onClick={goBack} className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> பின் செல்</button>
+       <button onClick={goBack} className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> {t('common.back')}</button>
 
       <div className="w-full max-w-7xl mx-auto flex flex-col items-center flex-shrink-0">
-        <h1 className="text-4xl sm:text-5xl font-bold text-amber-200 mb-2 font-tamil">{currentSurah || 'சூராவை ஓதவும்'}</h1>
+        <h1 className="text-4xl sm:text-5xl font-bold text-amber-200 mb-2 font-tamil">{currentSurah || t('surah.title')}</h1>
         <p className="text-lg text-emerald-200 mb-4 max-w-xl min-h-[56px] transition-all font-tamil">
-          {message || 'பட்டியலில் இருந்து ஒரு சூராவைத் தேர்ந்தெடுக்கவும் அல்லது அதன் பெயரைச் சொல்லவும்.'}
+          {message || t('surah.instructions')}
         </p>
+        {renderReciterPicker()}
+        {renderMemorisationControls()}
       </div>
       
       <div className="w-full max-w-7xl mx-auto flex-1 overflow-y-auto mb-4">
@@ -772,7 +1168,7 @@ const App: FC = () => {
               {uniqueSurahs.map((surah) => (
                 <button
                   key={surah.key}
-                  onClick={() => playSurah(surah.key)}
+                  onClick={() => startSurah(surah.key)}
                   className="bg-black/20 hover:bg-white/20 text-emerald-100 font-medium p-3 rounded-xl transition-colors duration-200 text-center h-28 flex flex-col items-center justify-center"
                 >
                   <span className="text-amber-300 font-bold text-2xl">{surah.number}</span>
@@ -786,6 +1182,14 @@ const App: FC = () => {
         <div className="h-16 flex items-center justify-center space-x-1.5">
           {isPlaying && currentSurah && Array(5).fill(0).map((_, i) => <div key={i} className={`w-1.5 h-16 bg-emerald-300 rounded-full animate-wave`} style={{ animationDelay: `${i * 0.1}s` }} />)}
         </div>
+        {resumePoint && !isPlaying && (
+          <button
+            onClick={resumeRecitation}
+            className="mt-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-6 rounded-full transition-colors flex items-center gap-2"
+          >
+            <ArrowRight size={20} /> {t('common.continue')}
+          </button>
+        )}
         <button 
           onClick={isPlaying ? () => handlePlaybackEnd(true) : () => startListening(true)}
           className={`w-24 h-24 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 mt-6 ${isListening ? 'bg-red-500 animate-pulse' : (isPlaying ? 'bg-red-600 hover:bg-red-700' : 'bg-amber-400 hover:bg-amber-500')}`}
@@ -799,24 +1203,30 @@ const App: FC = () => {
   
  const renderDuaListScreen = () => (
     <div className="relative w-full text-center flex flex-col items-center justify-center min-h-screen p-4 font-tamil">
-      <button onClick={goBack} className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> பின் செல்</button>
+      <button onClick={goBack} className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> {t('common.back')}</button>
       
       <div className="w-full max-w-7xl mx-auto flex flex-col items-center">
-        <h1 className="text-4xl sm:text-5xl font-bold text-amber-200 mb-2">துஆ பட்டியல்கள்</h1>
+        <h1 className="text-4xl sm:text-5xl font-bold text-amber-200 mb-2">{t('dua.listTitle')}</h1>
         <p className="text-lg text-emerald-200 mb-8 max-w-xl min-h-[28px]">
-          {duaMessage || 'நீங்கள் கேட்க விரும்பும் துஆவைத் தேர்ந்தெடுக்கவும் அல்லது அதன் பெயரைச் சொல்லவும்.'}
+          {duaMessage || t('dua.instructions')}
         </p>
         
         <div className="w-full grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
-          {Object.values(duaDatabase).map((dua) => (
-            <button
-              key={dua.name}
-              onClick={() => selectDuaAndPlay(dua)}
-              className="bg-black/20 hover:bg-white/20 text-emerald-100 font-medium p-4 rounded-xl transition-colors duration-200 text-center h-28 flex items-center justify-center"
-            >
-              {dua.name}
-            </button>
-          ))}
+          {Object.values(duaDatabase).map((dua) => {
+            const choice = duaChoices?.indexOf(dua) ?? -1;
+            return (
+              <button
+                key={dua.name}
+                onClick={() => selectDuaAndPlay(dua)}
+                className={`relative bg-black/20 hover:bg-white/20 text-emerald-100 font-medium p-4 rounded-xl transition-colors duration-200 text-center h-28 flex items-center justify-center ${choice >= 0 ? 'ring-2 ring-amber-400' : ''}`}
+              >
+                {choice >= 0 && (
+                  <span className="absolute top-2 left-2 bg-amber-400 text-emerald-900 rounded-full w-7 h-7 flex items-center justify-center font-bold">{choice + 1}</span>
+                )}
+                {dua.name}
+              </button>
+            );
+          })}
         </div>
       </div>
       
@@ -837,17 +1247,28 @@ const App: FC = () => {
 
     return (
       <div className="relative w-full text-center flex flex-col items-center justify-center min-h-screen p-4 font-tamil fade-in">
-        <button onClick={goBackToDuaList} className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> பின் செல்</button>
+        <button onClick={goBackToDuaList} className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> {t('common.back')}</button>
 
         <div className="flex-grow flex flex-col items-center justify-center w-full max-w-4xl">
             <h1 className="text-3xl sm:text-4xl font-bold text-amber-200 mb-6">{currentDua.name}</h1>
             
             <div className="bg-black/20 p-8 rounded-2xl shadow-xl w-full">
-              <p dir="rtl" className="text-4xl md:text-5xl font-arabic text-amber-100 leading-relaxed text-right mb-4">
-                {currentDua.arabic}
+              <p dir="rtl" className="text-4xl md:text-5xl font-arabic text-amber-100 leading-relaxed text-right mb-4 max-h-[40vh] overflow-y-auto">
+                {splitWords(currentDua.arabic).map((word, i) => (
+                  <span
+                    key={i}
+                    ref={el => { duaWordRefs.current[i] = el; }}
+                    onClick={() => replayDuaFromWord(i)}
+                    className={`cursor-pointer rounded-lg px-1 transition-colors ${i === duaWordIndex ? 'bg-amber-400/40 text-white' : ''}`}
+                  >
+                    {word}{' '}
+                  </span>
+                ))}
               </p>
+              <p className="text-xl text-amber-50/90 text-left">{currentDua.transliterationTamil}</p>
+              <p className="text-sm text-emerald-300 text-left mt-2">{t('dua.source', { source: currentDua.source })}</p>
               <hr className="border-emerald-600 my-6" />
-              <p className="text-lg text-emerald-100 text-left">{currentDua.translationTamil}</p>
+              <p className={`text-lg text-left rounded-lg transition-colors ${duaPart === 'meaning' ? 'text-white bg-emerald-700/40' : 'text-emerald-100'}`}>{currentDua.translationTamil}</p>
             </div>
         </div>
         
@@ -856,39 +1277,49 @@ const App: FC = () => {
             {isPlaying && currentDua && Array(5).fill(0).map((_, i) => <div key={i} className={`w-1.5 h-16 bg-emerald-300 rounded-full animate-wave`} style={{ animationDelay: `${i * 0.1}s` }} />)}
           </div>
 
-          <button 
-            onClick={() => handlePlaybackEnd(true)}
-            className={`w-24 h-24 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 bg-red-600 hover:bg-red-700`}
-          >
-            <Square size={40} className="text-white" />
-          </button>
-          <p className="mt-6 text-emerald-100 min-h-[24px]">ஓதுவதை நிறுத்த</p>
+          {duaPart ? (
+            <>
+              <button 
+                onClick={() => handlePlaybackEnd(true)}
+                className={`w-24 h-24 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 bg-red-600 hover:bg-red-700`}
+              >
+                <Square size={40} className="text-white" />
+              </button>
+              <p className="mt-6 text-emerald-100 min-h-[24px]">{t('dua.stopHint')}</p>
+            </>
+          ) : (
+            <>
+              <div className="flex gap-4 mb-6">
+                <button onClick={() => playDua(currentDua)} className="bg-amber-400 hover:bg-amber-500 text-emerald-900 font-semibold py-2 px-6 rounded-full transition-colors">{t('dua.again')}</button>
+                <button onClick={() => playDua(currentDua, 0, true)} className="bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-6 rounded-full transition-colors">{t('dua.meaningOnly')}</button>
+              </div>
+              <button 
+                onClick={() => startListening(true)}
+                className={`w-20 h-20 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 ${isListening ? 'bg-red-500 animate-pulse' : 'bg-amber-400 hover:bg-amber-500'}`}
+              >
+                <Mic size={32} className="text-emerald-900" />
+              </button>
+              <p className="mt-4 text-emerald-100 min-h-[24px]">{duaMessage}</p>
+            </>
+          )}
         </div>
       </div>
     );
   };
   
   const renderQuizRulesScreen = () => {
-    const rules = [
-        { id: 1, en: '5 questions will be asked and each has one correct answer.', ta: '5 கேள்விகள் கேட்கப்படும் மற்றும் ஒவ்வொன்றிற்கும் ஒரு சரியான பதில் உள்ளது.' },
-        { id: 2, en: 'You will be given a maximum of three attempts for any question.', ta: 'எந்தவொரு கேள்விக்கும் உங்களுக்கு அதிகபட்சம் மூன்று முயற்சிகள் வழங்கப்படும்.' },
-        { id: 3, en: 'You will get a score card at the end of the 5th question.', ta: '5வது கேள்விக்குப் பிறகு மதிப்பெண் அட்டை வழங்கப்படும்.' },
-        { id: 4, en: 'You can either click the option or say "Option 1".', ta: 'நீங்கள் விருப்பத்தை கிளிக் செய்யலாம் அல்லது "ஆப்ஷன் 1" என்று கூறலாம்.' },
-    ];
+    const rules = (['quizRules.rule1', 'quizRules.rule2', 'quizRules.rule3', 'quizRules.rule4'] as const)
+        .map((key, i) => ({ id: i + 1, text: t(key) }));
+    const questions = getQuizQuestions();
 
     return (
         <div className="relative w-full min-h-screen flex flex-col items-center justify-center p-6 fade-in">
             <button onClick={goBack} className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors">
-                <ArrowLeft size={20} /> 
-                <div className="text-left">
-                    <span>Back</span>
-                    <div className="font-tamil text-xs font-normal opacity-80 -mt-1">பின் செல்</div>
-                </div>
+                <ArrowLeft size={20} /> {t('common.back')}
             </button>
             
             <div className="text-center mb-8">
-                <h1 className="text-4xl sm:text-5xl font-bold text-amber-200">Quiz Rules</h1>
-                <h2 className="text-3xl font-tamil text-emerald-200 mt-2">வினாடி வினா விதிகள்</h2>
+                <h1 className="text-4xl sm:text-5xl font-bold text-amber-200 font-tamil">{t('quizRules.title')}</h1>
             </div>
 
             <div className="bg-black/20 p-8 rounded-3xl shadow-2xl w-full max-w-3xl">
@@ -898,20 +1329,44 @@ const App: FC = () => {
                             <div className="flex-shrink-0 bg-amber-400 text-emerald-900 rounded-full w-8 h-8 flex items-center justify-center font-bold text-xl">
                                 {rule.id}
                             </div>
-                            <div>
-                                <p className="text-xl text-white">{rule.en}</p>
-                                <p className="text-lg text-emerald-200 font-tamil mt-1">{rule.ta}</p>
-                            </div>
+                            <p className="text-xl text-white font-tamil">{rule.text}</p>
                         </li>
                     ))}
                 </ul>
             </div>
-            
+
+            <div className="mt-8 text-center">
+                <h2 className="text-xl text-emerald-100 font-tamil mb-3">{t('quizRules.category')}</h2>
+                <div className="flex flex-wrap justify-center gap-3">
+                    {[null, ...quizCategories.filter(category => questions.some(question => question.category === category))].map(category => (
+                        <button
+                            key={category ?? 'all'}
+                            onClick={() => setQuizCategory(category)}
+                            className={`py-2 px-5 rounded-full font-semibold font-tamil transition-colors ${quizCategory === category ? 'bg-amber-400 text-emerald-900' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+                        >
+                            {t(category ? `quiz.category.${category}` : 'quiz.category.all')}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <button
+                onClick={() => setQuizLightning(on => !on)}
+                aria-pressed={quizLightning}
+                className={`mt-6 flex items-center gap-3 py-3 px-6 rounded-2xl text-left transition-colors ${quizLightning ? 'bg-amber-400 text-emerald-900' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+            >
+                <Zap size={24} />
+                <span>
+                    <span className="block font-semibold font-tamil">{t('quizRules.lightning')}</span>
+                    <span className="block text-sm opacity-80 font-tamil">{t('quizRules.lightningDetail', { seconds: LIGHTNING_SECONDS })}</span>
+                </span>
+            </button>
+
             <button
                 onClick={() => setCurrentScreen('quiz')}
-                className="mt-10 bg-amber-400 text-emerald-900 font-bold py-4 px-12 rounded-full text-2xl shadow-lg hover:bg-amber-300 transition-all duration-300 transform hover:scale-105 font-tamil"
+                className="mt-8 bg-amber-400 text-emerald-900 font-bold py-4 px-12 rounded-full text-2xl shadow-lg hover:bg-amber-300 transition-all duration-300 transform hover:scale-105 font-tamil"
             >
-                வினாடி வினாவைத் தொடங்கு
+                {t('quizRules.start')}
             </button>
         </div>
     );
@@ -929,11 +1384,15 @@ const App: FC = () => {
       case 'quizRules':
         return renderQuizRulesScreen();
       case 'quiz':
-        return <QuizScreen goBack={goBack} />;
+        return <QuizScreen goBack={goBack} category={quizCategory} lightning={quizLightning} />;
+      case 'ask':
+        return <AskScreen goBack={goBack} />;
       case 'duaList':
         return renderDuaListScreen();
       case 'duaPlayer':
         return renderDuaPlayerScreen();
+      case 'operator':
+        return <OperatorScreen goBack={leaveOperatorScreen} />;
       case 'landing':
       default:
         return renderLandingScreen();
@@ -941,8 +1400,14 @@ const App: FC = () => {
   };
 
   return (
-    <div className="bg-emerald-900 text-white min-h-screen flex items-center justify-center p-4">
+    <div dir={LOCALES[locale].dir} className="bg-emerald-900 text-white min-h-screen flex items-center justify-center p-4">
       {renderScreen()}
+      {settings.listening.handsFree && isVoiceScreen(currentScreen) && (
+        <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 font-tamil text-sm px-4 py-2 rounded-full ${isListening ? 'bg-red-500/80' : 'bg-black/30'}`}>
+          <Mic size={16} />
+          {isListening ? t('common.listening') : t('common.handsFreeHint')}
+        </div>
+      )}
       <audio ref={audioRef} onEnded={() => handlePlaybackEnd(false)} />
     </div>
   );
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef, FC, useCallback, useMemo } from 'react';
+import { ArrowLeft, Mic, Volume2, Sparkles } from 'lucide-react';
+import { speech, speak, speakPrompt, isSpeechCancelled, changeVolume, repeatLastUtterance } from '../speech';
+import { prompt } from '../prompts';
+import { useI18n } from '../i18n';
+import { bestIntent, parseGlobalCommand } from '../intents';
+import { createRecognizer, Recognizer, RecognitionEvent, RecognitionError } from '../recognizer';
+import { AskModel, askSiddiqa, createGeminiModel } from '../ask-siddiqa';
+
+interface AskScreenProps {
+  goBack: () => void;
+  // Defaults to Gemini with the build's API key; pass a stub to run without one.
+  model?: AskModel | null;
+}
+
+type AskStatus = 'idle' | 'listening' | 'thinking' | 'speaking';
+
+export const AskScreen: FC<AskScreenProps> = ({ goBack, model }) => {
+  const [status, setStatus] = useState<AskStatus>('idle');
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState('');
+  const { t, info } = useI18n();
+
+  const askModel = useMemo(() => (model === undefined ? createGeminiModel() : model), [model]);
+  const recognitionRef = useRef<Recognizer | null>(null);
+  const isMountedRef = useRef(true);
+  const heardRef = useRef(false);
+  // Bumped on every question and on leaving, so a late answer is dropped.
+  const questionIdRef = useRef(0);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      questionIdRef.current++;
+      recognitionRef.current?.abort();
+      speech.cancel();
+    };
+  }, []);
+
+  const stopAllActivity = useCallback(() => {
+    questionIdRef.current++;
+    try { recognitionRef.current?.abort(); } catch (e) { /* ignore */ }
+    speech.cancel();
+    if (isMountedRef.current) setStatus('idle');
+  }, []);
+
+  const startListening = useCallback(() => {
+    if (!isMountedRef.current || !recognitionRef.current) return;
+    heardRef.current = false;
+    setStatus('listening');
+    try {
+      recognitionRef.current.start();
+    } catch (e) {
+      setStatus('idle');
+    }
+  }, []);
+
+  // Speaks `say`, then opens the mic for the next question.
+  const sayThenListen = useCallback((say: Promise<void>) => {
+    setStatus('speaking');
+    say.then(
+      () => startListening(),
+      e => {
+        if (isSpeechCancelled(e)) return;
+        console.error('Ask Siddiqa audio failed', e);
+        startListening();
+      }
+    );
+  }, [startListening]);
+
+  const handleQuestion = useCallback(async (spoken: string) => {
+    if (!askModel) {
+      sayThenListen(speakPrompt(prompt('askUnavailable')));
+      return;
+    }
+    const id = ++questionIdRef.current;
+    setQuestion(spoken);
+    setAnswer('');
+    setStatus('thinking');
+    speakPrompt(prompt('askThinking')).catch(() => undefined);
+
+    try {
+      const result = await askSiddiqa(spoken, askModel, info.englishName);
+      if (id !== questionIdRef.current) return;
+      if (result.type === 'refusal') {
+        const refusal = prompt('askRefusal');
+        setAnswer(refusal.text);
+        sayThenListen(speakPrompt(refusal));
+      } else {
+        setAnswer(result.text);
+        sayThenListen(speak(result.text, info.speechLang));
+      }
+    } catch (error) {
+      if (id !== questionIdRef.current) return;
+      console.error('Ask Siddiqa request failed', error);
+      const unavailable = prompt('askUnavailable');
+      setAnswer(unavailable.text);
+      sayThenListen(speakPrompt(unavailable, { interrupt: true }));
+    }
+  }, [askModel, sayThenListen, info]);
+
+  useEffect(() => {
+    sayThenListen(speakPrompt(prompt('askIntro')));
+  }, [sayThenListen]);
+
+  useEffect(() => {
+    if (!recognitionRef.current) recognitionRef.current = createRecognizer();
+    if (!recognitionRef.current) return;
+    recognitionRef.current.lang = info.recognitionLang;
+
+    recognitionRef.current.onresult = (event: RecognitionEvent) => {
+      if (!isMountedRef.current) return;
+      heardRef.current = true;
+      const { alternatives } = event.results[0];
+
+      const global = bestIntent(alternatives, transcript => parseGlobalCommand(transcript) ?? { type: 'unknown' as const }).intent;
+      switch (global.type) {
+        case 'back':
+        case 'home':
+          stopAllActivity();
+          goBack();
+          return;
+        case 'stop':
+          stopAllActivity();
+          return;
+        case 'repeatPrompt':
+          sayThenListen(repeatLastUtterance());
+          return;
+        case 'volume':
+          changeVolume(global.direction);
+          setTimeout(startListening, 100);
+          return;
+      }
+      // No grammar to match here: the best guess is the question.
+      handleQuestion(alternatives[0].transcript);
+    };
+
+    recognitionRef.current.onerror = (event: RecognitionError) => {
+      console.error('Speech recognition error:', event.error, event.message);
+    };
+
+    recognitionRef.current.onend = () => {
+      if (!isMountedRef.current || heardRef.current) return;
+      // Nothing was heard: say so once and go back to waiting for the mic button.
+      setStatus('speaking');
+      speakPrompt(prompt('askNotHeard')).then(
+        () => { if (isMountedRef.current) setStatus('idle'); },
+        e => { if (!isSpeechCancelled(e) && isMountedRef.current) setStatus('idle'); }
+      );
+    };
+  }, [goBack, handleQuestion, sayThenListen, startListening, stopAllActivity, info]);
+
+  const handleGoBack = () => { stopAllActivity(); goBack(); };
+
+  return (
+    <div className="w-full min-h-screen flex flex-col items-center justify-between bg-gradient-to-br from-emerald-900 to-green-900 font-tamil p-6">
+      <div className="w-full max-w-4xl mx-auto flex flex-col flex-grow">
+        <div className="flex items-center justify-between w-full mb-6">
+          <button onClick={handleGoBack} className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> {t('common.home')}</button>
+          <h1 className="text-2xl font-bold text-amber-200">{t('ask.title')}</h1>
+          <div className="w-24" />
+        </div>
+
+        {!askModel && (
+          <p className="text-center text-red-300 mb-4">{t('ask.notEnabled')}</p>
+        )}
+
+        <div className="space-y-6 flex-grow">
+          {question && (
+            <div className="bg-white/10 p-6 rounded-3xl text-white text-2xl fade-in">
+              <p className="text-sm text-emerald-200 mb-2">{t('ask.yourQuestion')}</p>
+              {question}
+            </div>
+          )}
+          {status === 'thinking' && (
+            <div className="flex items-center gap-3 text-amber-200 text-xl fade-in">
+              <Sparkles className="animate-pulse" /> {t('ask.thinking')}
+            </div>
+          )}
+          {answer && (
+            <div className="relative bg-black/20 p-8 rounded-3xl shadow-2xl backdrop-blur-sm text-white text-2xl leading-relaxed fade-in">
+              {status === 'speaking' && <Volume2 className="w-8 h-8 text-amber-300 animate-pulse absolute top-4 right-4" />}
+              {answer}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="h-28 mt-6 flex flex-col items-center justify-center text-emerald-200 text-lg">
+        {status === 'listening' ? (
+          <div className="flex items-center gap-3 text-amber-200 fade-in">
+            <Mic className="text-red-400 animate-pulse" />
+            <span>{t('ask.speakQuestion')}</span>
+          </div>
+        ) : (
+          <>
+            <button
+              onClick={() => { speech.cancel(); startListening(); }}
+              disabled={status === 'thinking' || status === 'listening'}
+              className="bg-amber-400 text-emerald-900 w-20 h-20 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 hover:bg-amber-500 disabled:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Mic size={32} />
+            </button>
+            <div className="opacity-70 mt-2">{t('ask.hint')}</div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
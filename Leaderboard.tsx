@@ -0,0 +1,53 @@
+import React, { FC } from 'react';
+import { Trophy, Zap } from 'lucide-react';
+import { useI18n } from '../i18n';
+import { LeaderboardEntry, dayOf, topScores, useLeaderboard } from '../leaderboard';
+
+interface LeaderboardProps {
+  // The visitor's own entry, picked out in the tables.
+  highlightId?: number;
+}
+
+const ScoreTable: FC<{ title: string; entries: LeaderboardEntry[]; highlightId?: number }> = ({ title, entries, highlightId }) => {
+  const { t } = useI18n();
+  return (
+    <div className="bg-black/20 p-6 rounded-2xl shadow-xl flex-1 min-w-[18rem]">
+      <h2 className="text-2xl font-bold text-amber-200 mb-4 font-tamil">{title}</h2>
+      {entries.length === 0 ? (
+        <p className="text-emerald-100 opacity-70 font-tamil">{t('leaderboard.empty')}</p>
+      ) : (
+        <ol className="space-y-2">
+          {entries.map((entry, i) => (
+            <li
+              key={entry.id}
+              className={`flex items-center gap-3 py-1.5 px-3 rounded-lg text-lg ${entry.id === highlightId ? 'bg-amber-400 text-emerald-900 font-bold' : 'text-white'}`}
+            >
+              <span className="w-7 text-right font-bold opacity-80">{i + 1}</span>
+              <span className="flex-1 truncate font-tamil">{entry.name}</span>
+              {entry.lightning && <Zap size={16} aria-label={t('quizRules.lightning')} />}
+              <span className="font-bold tabular-nums">{entry.total}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+// Today's and all-time top scores, side by side.
+export const Leaderboard: FC<LeaderboardProps> = ({ highlightId }) => {
+  const { entries } = useLeaderboard();
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full max-w-4xl">
+      <h1 className="flex items-center justify-center gap-3 text-4xl font-bold text-amber-100 mb-6 font-tamil">
+        <Trophy className="text-yellow-400" size={36} /> {t('leaderboard.title')}
+      </h1>
+      <div className="flex flex-wrap gap-6">
+        <ScoreTable title={t('leaderboard.today')} entries={topScores(entries, dayOf(new Date()))} highlightId={highlightId} />
+        <ScoreTable title={t('leaderboard.allTime')} entries={topScores(entries)} highlightId={highlightId} />
+      </div>
+    </div>
+  );
+};
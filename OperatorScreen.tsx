@@ -0,0 +1,466 @@
+import React, { FC, useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { RecitationPolicy, updateSettings, useSettings } from '../settings';
+import { DEFAULT_RECITER_ID, reciters } from '../reciters';
+import { promptPackUrls } from '../prompt-pack';
+import { RECOGNIZER_BACKENDS, isRecognitionSupported } from '../recognizer';
+import { LOCALES, Locale, defaultLocale } from '../i18n';
+import { duaDatabase, quizCategories } from '../constants';
+import { getQuizQuestions, importQuizBank, resetQuizBank, useQuizBank } from '../quiz-bank';
+import { dayOf, exportLeaderboard, isLeaderboardSupported, resetLeaderboard, useLeaderboard } from '../leaderboard';
+import {
+  ALL_SURAHS, AUDIO_CACHE, CacheStats, JUZ_AMMA, PrecacheProgress, TTS_CACHE,
+  ayahUrlsFor, clearOfflineAudio, getCacheStats, isOfflineCacheSupported, precacheUrls, surahUrlsFor,
+} from '../offline-cache';
+
+interface OperatorScreenProps {
+  goBack: () => void;
+}
+
+const Section: FC<{ title: string; subtitle: string; children: React.ReactNode }> = ({ title, subtitle, children }) => (
+  <section className="bg-black/20 p-6 rounded-2xl shadow-xl w-full">
+    <h2 className="text-2xl font-bold text-amber-200">{title}</h2>
+    <p className="font-tamil text-sm text-emerald-200 mb-4">{subtitle}</p>
+    {children}
+  </section>
+);
+
+const RECITATION_OPTIONS: { mode: RecitationPolicy['mode']; label: string; tamil: string }[] = [
+  { mode: 'preview', label: 'Preview', tamil: 'முன்னோட்டம்' },
+  { mode: 'full', label: 'Full recitation', tamil: 'முழு ஓதுதல்' },
+  { mode: 'ayahBoundary', label: 'Until the ayah ends after', tamil: 'குறிப்பிட்ட நேரத்திற்குப் பின் ஆயத் முடிவில் நிறுத்து' },
+];
+
+const SURAH_SETS: { id: string; label: string; numbers: number[] }[] = [
+  { id: 'juzAmma', label: 'Juz Amma (78–114)', numbers: JUZ_AMMA },
+  { id: 'all', label: 'All 114 surahs', numbers: ALL_SURAHS },
+];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${(bytes / 1024 ** 2).toFixed(0)} MB`;
+
+const OfflineAudioSection: FC = () => {
+  const [reciterId, setReciterId] = useState(DEFAULT_RECITER_ID);
+  const [setId, setSetId] = useState(SURAH_SETS[0].id);
+  // Verse ranges, memorisation and ayah-boundary previews play one file per ayah.
+  const [includeAyahs, setIncludeAyahs] = useState(true);
+  const [progress, setProgress] = useState<PrecacheProgress | null>(null);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const downloadRef = useRef<AbortController | null>(null);
+
+  const refreshStats = useCallback(() => {
+    getCacheStats().then(setStats).catch(err => console.warn('Could not read cache size.', err));
+  }, []);
+
+  useEffect(() => {
+    if (!isOfflineCacheSupported()) return;
+    refreshStats();
+    return () => downloadRef.current?.abort();
+  }, [refreshStats]);
+
+  const download = async () => {
+    const numbers = SURAH_SETS.find(set => set.id === setId)!.numbers;
+    const controller = new AbortController();
+    downloadRef.current = controller;
+    setDownloading(true);
+    setError(null);
+    try {
+      const duaRecordings = Object.values(duaDatabase).flatMap(dua => (dua.audio ? [dua.audio] : []));
+      await precacheUrls(TTS_CACHE, [...promptPackUrls(), ...duaRecordings], () => {}, controller.signal);
+      const recitations = [...surahUrlsFor(numbers, reciterId), ...(includeAyahs ? ayahUrlsFor(numbers, reciterId) : [])];
+      await precacheUrls(AUDIO_CACHE, recitations, setProgress, controller.signal);
+    } catch (err) {
+      console.warn('Could not download offline audio.', err);
+      setError(`Could not download offline audio: ${(err as Error).message}`);
+    } finally {
+      downloadRef.current = null;
+      setDownloading(false);
+      refreshStats();
+    }
+  };
+
+  const clear = async () => {
+    try {
+      await clearOfflineAudio();
+      setProgress(null);
+      setError(null);
+    } catch (err) {
+      console.warn('Could not clear the offline cache.', err);
+      setError(`Could not clear the offline cache: ${(err as Error).message}`);
+    }
+    refreshStats();
+  };
+
+  if (!isOfflineCacheSupported()) {
+    return <p className="text-white/70">This browser does not support offline caching.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-white">
+      <div className="flex flex-wrap gap-3">
+        <select value={reciterId} onChange={(e) => setReciterId(e.target.value)} disabled={downloading} className="bg-black/20 rounded-lg py-2 px-3">
+          {reciters.map(reciter => <option key={reciter.id} value={reciter.id}>{reciter.name}</option>)}
+        </select>
+        <select value={setId} onChange={(e) => setSetId(e.target.value)} disabled={downloading} className="bg-black/20 rounded-lg py-2 px-3">
+          {SURAH_SETS.map(set => <option key={set.id} value={set.id}>{set.label}</option>)}
+        </select>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={includeAyahs} onChange={(e) => setIncludeAyahs(e.target.checked)} disabled={downloading} />
+          Verse by verse too
+        </label>
+        {downloading ? (
+          <button onClick={() => downloadRef.current?.abort()} className="bg-red-500/80 hover:bg-red-500 font-semibold py-2 px-4 rounded-full transition-colors">
+            Stop
+          </button>
+        ) : (
+          <button onClick={download} className="bg-amber-400 hover:bg-amber-500 text-emerald-900 font-semibold py-2 px-4 rounded-full transition-colors">
+            Download
+          </button>
+        )}
+        <button onClick={clear} disabled={downloading} className="bg-white/10 hover:bg-white/20 font-semibold py-2 px-4 rounded-full transition-colors disabled:opacity-50">
+          Clear cache
+        </button>
+      </div>
+
+      {progress && (
+        <div>
+          <div className="w-full h-3 bg-black/30 rounded-full overflow-hidden">
+            <div className="h-full bg-amber-400 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }} />
+          </div>
+          <p className="text-sm mt-1">
+            {progress.done} / {progress.total} files{progress.failed > 0 && `, ${progress.failed} failed`}
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {stats && (
+        <p className="text-sm text-white/80">
+          Cached: {stats.audioFiles} recitations, {stats.promptFiles} spoken prompts
+          {stats.usageBytes !== null && ` · ${formatBytes(stats.usageBytes)} used`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const QuizBankSection: FC = () => {
+  const { bank, report } = useQuizBank();
+  const questions = getQuizQuestions();
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so the same file can be picked again after fixing it.
+    e.target.value = '';
+    if (file) importQuizBank(await file.text(), file.name);
+  };
+
+  return (
+    <div className="space-y-4 text-white">
+      <p>
+        {bank
+          ? `${questions.length} questions from ${bank.source}, imported ${new Date(bank.importedAt).toLocaleString()}.`
+          : `The ${questions.length} built-in questions.`}
+        <span className="text-sm text-emerald-200">
+          {' '}{quizCategories.map(category => `${category}: ${questions.filter(question => question.category === category).length}`).join(' · ')}
+        </span>
+      </p>
+      <div className="flex flex-wrap gap-3">
+        <label className="bg-amber-400 hover:bg-amber-500 text-emerald-900 font-semibold py-2 px-4 rounded-full transition-colors cursor-pointer">
+          Import JSON or CSV
+          <input type="file" accept=".json,.csv,application/json,text/csv" onChange={upload} className="hidden" />
+        </label>
+        {bank && (
+          <button onClick={resetQuizBank} className="bg-white/10 hover:bg-white/20 font-semibold py-2 px-4 rounded-full transition-colors">
+            Use built-in questions
+          </button>
+        )}
+      </div>
+
+      {report && (report.applied ? (
+        <p className="text-sm text-emerald-200">Imported {report.rows} questions from {report.source}.</p>
+      ) : (
+        <div className="text-sm">
+          <p className="text-red-300 mb-2">{report.source} was not imported, so the questions above are still in use:</p>
+          <ul className="space-y-1 max-h-64 overflow-y-auto font-tamil">
+            {report.issues.map((issue, i) => (
+              <li key={i}>
+                <span className="text-amber-200">{issue.row > 0 ? `Row ${issue.row}` : 'File'}{issue.field && ` · ${issue.field}`}:</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const LeaderboardSection: FC = () => {
+  const { entries, loaded } = useLeaderboard();
+  // Resetting takes a second press, as the scores cannot be brought back.
+  const [confirming, setConfirming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const today = dayOf(new Date());
+
+  const download = () => {
+    try {
+      const url = URL.createObjectURL(new Blob([exportLeaderboard(entries)], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `siddiqa-leaderboard-${today}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch (err) {
+      console.warn('Could not export the leaderboard.', err);
+      setError('Could not export the leaderboard.');
+    }
+  };
+
+  const reset = async () => {
+    setConfirming(false);
+    try {
+      await resetLeaderboard();
+      setError(null);
+    } catch (err) {
+      console.warn('Could not reset the leaderboard.', err);
+      setError('Could not reset the leaderboard.');
+    }
+  };
+
+  if (!isLeaderboardSupported()) {
+    return <p className="text-white/70">This browser does not support IndexedDB, so scores are not kept.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-white">
+      <p>
+        {loaded
+          ? `${entries.length} scores saved, ${entries.filter(entry => dayOf(entry.playedAt) === today).length} of them today.`
+          : 'Reading saved scores…'}
+      </p>
+      <div className="flex flex-wrap gap-3">
+        <button onClick={download} disabled={entries.length === 0} className="bg-amber-400 hover:bg-amber-500 text-emerald-900 font-semibold py-2 px-4 rounded-full transition-colors disabled:opacity-50">
+          Export CSV
+        </button>
+        {confirming ? (
+          <>
+            <button onClick={reset} className="bg-red-500/80 hover:bg-red-500 font-semibold py-2 px-4 rounded-full transition-colors">
+              Delete all {entries.length} scores
+            </button>
+            <button onClick={() => setConfirming(false)} className="bg-white/10 hover:bg-white/20 font-semibold py-2 px-4 rounded-full transition-colors">
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button onClick={() => setConfirming(true)} disabled={entries.length === 0} className="bg-white/10 hover:bg-white/20 font-semibold py-2 px-4 rounded-full transition-colors disabled:opacity-50">
+            Reset leaderboard
+          </button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export const OperatorScreen: FC<OperatorScreenProps> = ({ goBack }) => {
+  const settings = useSettings();
+  const { recitation } = settings;
+  const seconds = recitation.mode === 'full' ? 60 : recitation.seconds;
+
+  const setDua = (patch: Partial<typeof settings.dua>) => {
+    updateSettings({ dua: { ...settings.dua, ...patch } });
+  };
+
+  const setListening = (patch: Partial<typeof settings.listening>) => {
+    updateSettings({ listening: { ...settings.listening, ...patch } });
+  };
+
+  const setRecognition = (patch: Partial<typeof settings.recognition>) => {
+    updateSettings({ recognition: { ...settings.recognition, ...patch } });
+  };
+
+  const setRecitation = (mode: RecitationPolicy['mode'], nextSeconds: number = seconds) => {
+    updateSettings({ recitation: mode === 'full' ? { mode } : { mode, seconds: Math.max(5, nextSeconds) } });
+  };
+
+  return (
+    <div className="relative w-full min-h-screen flex flex-col items-center p-6 pt-24 fade-in">
+      <button onClick={goBack} className="absolute top-6 left-6 flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors">
+        <ArrowLeft size={20} /> Back
+      </button>
+      <h1 className="text-4xl font-bold text-amber-200 mb-8">Operator Settings</h1>
+
+      <div className="w-full max-w-3xl space-y-6">
+        <Section title="Surah playback" subtitle="சூரா ஓதுதலின் நீளம்">
+          <div className="space-y-3">
+            {RECITATION_OPTIONS.map(option => (
+              <label key={option.mode} className="flex items-center gap-3 text-white">
+                <input
+                  type="radio"
+                  name="recitation"
+                  checked={recitation.mode === option.mode}
+                  onChange={() => setRecitation(option.mode)}
+                  className="w-5 h-5 accent-amber-400"
+                />
+                <span>{option.label}</span>
+                {option.mode !== 'full' && recitation.mode === option.mode && (
+                  <span className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={5}
+                      value={seconds}
+                      onChange={(e) => setRecitation(option.mode, Number(e.target.value) || 5)}
+                      className="w-20 bg-black/20 text-white text-center rounded-lg py-1"
+                    />
+                    seconds
+                  </span>
+                )}
+                <span className="font-tamil text-xs text-emerald-200">{option.tamil}</span>
+              </label>
+            ))}
+          </div>
+        </Section>
+
+        <Section title="Dua playback" subtitle="அரபு, பின் தமிழ் அர்த்தம்">
+          <div className="space-y-3 text-white">
+            <label className="flex items-center gap-3">
+              <span>Play each dua</span>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={settings.dua.repeat}
+                onChange={(e) => setDua({ repeat: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+                className="w-20 bg-black/20 text-white text-center rounded-lg py-1"
+              />
+              times
+            </label>
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={settings.dua.includeTranslation}
+                onChange={(e) => setDua({ includeTranslation: e.target.checked })}
+                className="w-5 h-5 accent-amber-400"
+              />
+              <span>Read the Tamil meaning after the Arabic</span>
+            </label>
+            <label className="flex items-center gap-3">
+              <span>Return to the dua list after</span>
+              <input
+                type="number"
+                min={5}
+                value={settings.dua.returnAfterSeconds}
+                onChange={(e) => setDua({ returnAfterSeconds: Math.max(5, Number(e.target.value) || 5) })}
+                className="w-20 bg-black/20 text-white text-center rounded-lg py-1"
+              />
+              seconds without a command
+            </label>
+          </div>
+        </Section>
+
+        <Section title="Listening" subtitle="பொத்தானை அழுத்தாமல், “சித்திக்கா” என்று அழைத்துப் பேசலாம்">
+          <div className="space-y-3 text-white">
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={settings.listening.handsFree}
+                onChange={(e) => setListening({ handsFree: e.target.checked })}
+                className="w-5 h-5 accent-amber-400"
+              />
+              <span>Hands-free: keep the mic open and wait for the wake word "Siddiqa"</span>
+            </label>
+            <label className="flex items-center gap-3">
+              <span>After "Siddiqa" or a question, wait</span>
+              <input
+                type="number"
+                min={3}
+                value={settings.listening.wakeWindowSeconds}
+                onChange={(e) => setListening({ wakeWindowSeconds: Math.max(3, Number(e.target.value) || 3) })}
+                className="w-20 bg-black/20 text-white text-center rounded-lg py-1"
+              />
+              seconds for the command
+            </label>
+            {!isRecognitionSupported(settings.recognition) && (
+              <p className="text-sm text-red-300">The selected speech engine is not available here, so hands-free mode cannot start.</p>
+            )}
+          </div>
+        </Section>
+
+        <Section title="Language" subtitle="ஒவ்வொரு பார்வையாளரும் தொடங்கும் மொழி">
+          <label className="flex items-center gap-3 text-white">
+            <span>Visitors start in</span>
+            <select
+              value={defaultLocale()}
+              onChange={(e) => updateSettings({ defaultLocale: e.target.value as Locale })}
+              className="bg-black/20 rounded-lg py-2 px-3"
+            >
+              {(Object.keys(LOCALES) as Locale[]).map(code => (
+                <option key={code} value={code}>{LOCALES[code].name} ({LOCALES[code].englishName})</option>
+              ))}
+            </select>
+            <span className="text-sm text-emerald-200">and can switch on the welcome screen.</span>
+          </label>
+        </Section>
+
+        <Section title="Speech recognition" subtitle="பார்வையாளர் குரலைப் புரிந்துகொள்ளும் இயந்திரம்">
+          <div className="space-y-3 text-white">
+            {RECOGNIZER_BACKENDS.map(backend => (
+              <label key={backend.id} className="flex items-center gap-3">
+                <input
+                  type="radio"
+                  name="recognizer"
+                  checked={settings.recognition.backend === backend.id}
+                  onChange={() => setRecognition({ backend: backend.id })}
+                  className="w-5 h-5 accent-amber-400"
+                />
+                <span>{backend.label}</span>
+              </label>
+            ))}
+            {settings.recognition.backend === 'localServer' && (
+              <label className="flex items-center gap-3">
+                <span>Server</span>
+                <input
+                  type="text"
+                  value={settings.recognition.serverUrl}
+                  onChange={(e) => setRecognition({ serverUrl: e.target.value.trim() })}
+                  placeholder="ws://localhost:2700"
+                  className="flex-1 bg-black/20 text-white rounded-lg py-1 px-3"
+                />
+              </label>
+            )}
+            {settings.recognition.backend === 'scripted' && (
+              <label className="flex flex-col gap-2">
+                <span>Phrases to "hear", one per line (an empty line is silence)</span>
+                <textarea
+                  rows={5}
+                  value={settings.recognition.script.join('\n')}
+                  onChange={(e) => setRecognition({ script: e.target.value.split('\n') })}
+                  className="bg-black/20 text-white rounded-lg py-2 px-3 font-tamil"
+                />
+              </label>
+            )}
+            {!isRecognitionSupported(settings.recognition) && (
+              <p className="text-sm text-red-300">This engine is not available in this browser; the mic buttons will show a message instead.</p>
+            )}
+          </div>
+        </Section>
+
+        <Section title="Quiz questions" subtitle="ஒவ்வொரு நிகழ்ச்சிக்கும் புதிய வினாடி வினா கேள்விகள்">
+          <QuizBankSection />
+        </Section>
+
+        <Section title="Leaderboard" subtitle="வினாடி வினா மதிப்பெண்கள்: ஏற்றுமதி அல்லது அழித்தல்">
+          <LeaderboardSection />
+        </Section>
+
+        <Section title="Offline audio" subtitle="இணையம் இல்லாமல் இயங்க சூராக்களை முன்கூட்டியே பதிவிறக்கவும்">
+          <OfflineAudioSection />
+        </Section>
+      </div>
+    </div>
+  );
+};
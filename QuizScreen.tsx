@@ -1,10 +1,24 @@
 import React, { useState, useEffect, useRef, FC, useCallback } from 'react';
-import { quizQuestions } from '../constants';
-import { QuizQuestion } from '../types';
-import { ArrowLeft, Trophy, Mic, Heart, Volume2 } from 'lucide-react';
+import { QUIZ_ATTEMPTS, QUIZ_SESSION_LENGTH } from '../constants';
+import { getQuizQuestions } from '../quiz-bank';
+import { DIFFICULTY_POINTS, STARTING_DIFFICULTY, levelReached, nextDifficulty, pickQuestion, pointsAvailable } from '../adaptive-quiz';
+import { LIGHTNING_SECONDS, LIGHTNING_WARNING_SECONDS, speedBonus } from '../lightning-round';
+import { QuizCategory, QuizQuestion } from '../types';
+import { speech, speak, speakPrompt, isSpeechCancelled, changeVolume, repeatLastUtterance } from '../speech';
+import { prompt } from '../prompts';
+import { LOCALES, useI18n } from '../i18n';
+import { GlobalIntent, bestIntent, parseGlobalCommand, parseQuizAnswer } from '../intents';
+import { createRecognizer, isRecognitionSupported, Recognizer, RecognitionEvent, RecognitionError } from '../recognizer';
+import { LeaderboardEntry, MAX_NAME_LENGTH, addScore, cleanName, dailyRank, isLeaderboardSupported, useLeaderboard } from '../leaderboard';
+import { Leaderboard } from './Leaderboard';
+import { ArrowLeft, Trophy, Mic, Heart, Volume2, Timer } from 'lucide-react';
 
 interface QuizScreenProps {
   goBack: () => void;
+  // Questions are drawn from this category only; null mixes them all.
+  category?: QuizCategory | null;
+  // Timed mode: a countdown per question and a bonus for fast answers.
+  lightning?: boolean;
 }
 
 const Confetti: FC = () => {
@@ -31,37 +45,51 @@ const Confetti: FC = () => {
   );
 };
 
-export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
+export const QuizScreen: FC<QuizScreenProps> = ({ goBack, category = null, lightning = false }) => {
   const [gameState, setGameState] = useState<'playing' | 'finished'>('playing');
+  // The questions asked so far; each next one is picked once the current one is answered.
   const [sessionQuestions, setSessionQuestions] = useState<QuizQuestion[]>([]);
+  const [sessionLength, setSessionLength] = useState(QUIZ_SESSION_LENGTH);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
   const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
   const [score, setScore] = useState(0);
-  const [attemptsLeft, setAttemptsLeft] = useState(3);
+  const [attemptsLeft, setAttemptsLeft] = useState(QUIZ_ATTEMPTS);
   const [isScored, setIsScored] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(LIGHTNING_SECONDS);
+  const [timedOut, setTimedOut] = useState(false);
+  const [bonus, setBonus] = useState(0);
   const [status, setStatus] = useState<'idle' | 'listening' | 'speaking'>('idle');
   const [transcript, setTranscript] = useState('');
+  // Options Siddiqa has just asked the visitor to choose between.
+  const [clarifying, setClarifying] = useState<number[]>([]);
   const [questionTrigger, setQuestionTrigger] = useState(0);
-
-  const recognitionRef = useRef<any>(null);
+  // The scorecard's leaderboard entry: the name as typed or heard, then the saved result.
+  const [playerName, setPlayerName] = useState('');
+  const [nameListening, setNameListening] = useState(false);
+  const [savedEntry, setSavedEntry] = useState<LeaderboardEntry | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const { t, info } = useI18n();
+  const { entries: leaderboardEntries } = useLeaderboard();
+
+  const recognitionRef = useRef<Recognizer | null>(null);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
   const isMountedRef = useRef(true);
   const startListeningRef = useRef<(() => void) | null>(null);
   const resultProcessedRef = useRef(false);
+  const poolRef = useRef<QuizQuestion[]>([]);
+  const nextQuestionRef = useRef<QuizQuestion | null>(null);
+  const timeUpRef = useRef<(() => void) | null>(null);
+  // Separate from recognitionRef, whose handlers the answer effect keeps replacing.
+  const nameRecognitionRef = useRef<Recognizer | null>(null);
 
   const stopAllActivity = useCallback(() => {
     if (timeoutRef.current) clearTimeout(timeoutRef.current);
     if (recognitionRef.current) {
         try { recognitionRef.current.abort(); } catch (e) { /* ignore */ }
     }
-    if (audioRef.current && !audioRef.current.paused) {
-        audioRef.current.pause();
-        audioRef.current.onended = null;
-        audioRef.current.onerror = null;
-        audioRef.current.src = '';
-    }
+    speech.cancel();
     if (isMountedRef.current) {
         setStatus('idle');
     }
@@ -69,13 +97,24 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
 
   const proceedToNext = useCallback(() => {
     stopAllActivity();
-    if (currentQuestionIndex < sessionQuestions.length - 1) {
+    const next = nextQuestionRef.current;
+    if (currentQuestionIndex < sessionLength - 1 && next) {
+      nextQuestionRef.current = null;
+      setSessionQuestions(questions => [...questions, next]);
       setCurrentQuestionIndex(i => i + 1);
       setQuestionTrigger(t => t + 1); // Use a new trigger to reset the question state
     } else {
       if(isMountedRef.current) setGameState('finished');
     }
-  }, [stopAllActivity, currentQuestionIndex, sessionQuestions.length]);
+  }, [stopAllActivity, currentQuestionIndex, sessionLength]);
+
+  // Picks the next question's difficulty from how this one went.
+  const finishQuestion = useCallback((correct: boolean, heartsLeft: number) => {
+    const question = sessionQuestions[currentQuestionIndex];
+    if (!question || currentQuestionIndex >= sessionLength - 1) return;
+    const difficulty = nextDifficulty(question.difficulty, correct, heartsLeft, QUIZ_ATTEMPTS);
+    nextQuestionRef.current = pickQuestion(poolRef.current, difficulty, sessionQuestions);
+  }, [sessionQuestions, currentQuestionIndex, sessionLength]);
 
   const startListening = useCallback(() => {
     if (!isMountedRef.current || !recognitionRef.current || status !== 'idle' || selectedAnswer !== null) return;
@@ -93,34 +132,32 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
     startListeningRef.current = startListening;
   }, [startListening]);
 
-  const playFeedbackAudio = useCallback((type: 'correct' | 'incorrect' | 'final_incorrect') => {
-    if (!audioRef.current) return;
-    
+  const playFeedbackAudio = useCallback((type: 'correct' | 'incorrect' | 'final_incorrect' | 'time_up') => {
     stopAllActivity();
     setStatus('speaking');
 
-    let text = '';
     const currentQ = sessionQuestions[currentQuestionIndex];
     const correctOptionText = currentQ.options[currentQ.correctAnswer];
 
+    // Once the answer is known, the explanation is read out (in Tamil, like the question).
+    const explain = async () => {
+      await speak(currentQ.explanation, 'ta');
+      if (currentQuestionIndex < sessionLength - 1) await speakPrompt(prompt('quizNextQuestion'));
+    };
+
+    let feedback: () => Promise<void>;
     if (type === 'correct') {
-      if (currentQuestionIndex === sessionQuestions.length - 1) {
-        text = 'சரியான பதில்';
-      } else {
-        text = 'சரியான பதில். அடுத்த கேள்விக்கு தயாராகுங்கள்';
-      }
+      feedback = () => speakPrompt(prompt('quizCorrect')).then(explain);
     } else if (type === 'incorrect') {
-      text = 'தவறான பதில், மீண்டும் முயற்சிக்கவும்';
-    } else if (type === 'final_incorrect') {
-      text = `தவறான பதில். சரியான பதில், ${correctOptionText}`;
+      feedback = () => speakPrompt(prompt('quizIncorrect'));
+    } else if (type === 'time_up') {
+      feedback = () => speakPrompt(prompt('quizTimeUp')).then(() => speak(correctOptionText, 'ta')).then(explain);
+    } else {
+      // The options are Tamil whatever the visitor's language.
+      feedback = () => speak(t('quiz.revealAnswer'), info.speechLang).then(() => speak(correctOptionText, 'ta')).then(explain);
     }
 
-    const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(text)}&tl=ta&client=tw-ob`;
-    const audio = audioRef.current;
-
     const onAudioEnd = () => {
-        audio.onended = null;
-        audio.onerror = null;
         if (!isMountedRef.current) return;
 
         if (type === 'correct') {
@@ -134,27 +171,26 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
                   startListeningRef.current();
                 }
             }, 100);
-        } else if (type === 'final_incorrect') {
+        } else {
             timeoutRef.current = setTimeout(proceedToNext, 2000);
         }
     };
     
-    const onAudioError = (e: any) => {
+    const onAudioError = (e: unknown) => {
+        if (isSpeechCancelled(e)) return;
         console.error("Feedback audio failed", e);
         onAudioEnd(); // Still proceed even if audio fails
     };
 
-    audio.src = ttsUrl;
-    audio.onended = onAudioEnd;
-    audio.onerror = onAudioError;
-    audio.play().catch(onAudioError);
+    feedback().then(onAudioEnd, onAudioError);
 
-  }, [stopAllActivity, proceedToNext, sessionQuestions, currentQuestionIndex]);
+  }, [stopAllActivity, proceedToNext, sessionQuestions, currentQuestionIndex, sessionLength, t, info]);
 
   const handleSelectAnswer = useCallback((index: number) => {
     if (selectedAnswer !== null) return;
     
     stopAllActivity();
+    setClarifying([]);
     setSelectedAnswer(index);
     const question = sessionQuestions[currentQuestionIndex];
     const isAnswerCorrect = index === question.correctAnswer;
@@ -162,9 +198,11 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
 
     if (isAnswerCorrect) {
       if (!isScored) {
-        setScore(s => s + 1);
+        setScore(s => s + DIFFICULTY_POINTS[question.difficulty]);
+        if (lightning) setBonus(b => b + speedBonus(question.difficulty, secondsLeft));
         setIsScored(true);
       }
+      finishQuestion(true, attemptsLeft);
       playFeedbackAudio('correct');
     } else {
       const newAttemptsLeft = attemptsLeft - 1;
@@ -172,24 +210,19 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
       if (newAttemptsLeft > 0) {
         playFeedbackAudio('incorrect');
       } else {
+        finishQuestion(false, 0);
         playFeedbackAudio('final_incorrect');
       }
     }
-  }, [stopAllActivity, selectedAnswer, sessionQuestions, currentQuestionIndex, isScored, playFeedbackAudio, attemptsLeft]);
+  }, [stopAllActivity, selectedAnswer, sessionQuestions, currentQuestionIndex, isScored, playFeedbackAudio, finishQuestion, attemptsLeft, lightning, secondsLeft]);
 
   const playQuestionAudio = useCallback((question: QuizQuestion) => {
-    if (!question || !audioRef.current) return;
+    if (!question) return;
 
     stopAllActivity();
     setStatus('speaking');
 
-    const fullText = question.question;
-    const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(fullText)}&tl=ta&client=tw-ob`;
-    const audio = audioRef.current;
-    
     const onAudioEnd = () => {
-        audio.onended = null;
-        audio.onerror = null;
         if (!isMountedRef.current) return;
         setStatus('idle');
         setTimeout(() => {
@@ -199,35 +232,26 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
         }, 100); // Small delay to ensure state updates
     };
 
-    const onAudioError = (e: any) => {
+    const onAudioError = (e: unknown) => {
+        if (isSpeechCancelled(e)) return;
         console.error("Quiz audio playback failed", e);
         onAudioEnd();
     };
 
-    audio.src = ttsUrl;
-    audio.onended = onAudioEnd;
-    audio.onerror = onAudioError;
-    audio.play().catch(onAudioError);
+    speak(question.question, 'ta').then(onAudioEnd, onAudioError);
   }, [stopAllActivity]);
   
   const handleRecognitionFailure = useCallback(() => {
-    if (selectedAnswer !== null || !isMountedRef.current) return;
+    if (selectedAnswer !== null || attemptsLeft <= 0 || !isMountedRef.current) return;
     stopAllActivity();
 
     const newAttemptsLeft = attemptsLeft - 1;
     setAttemptsLeft(newAttemptsLeft);
 
     if (newAttemptsLeft > 0) {
-      if (!audioRef.current) return;
       setStatus('speaking');
       
-      const text = 'மன்னிக்கவும், எனக்கு சரியாக கேட்கவில்லை. மீண்டும் முயற்சிக்கவும்.';
-      const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(text)}&tl=ta&client=tw-ob`;
-      const audio = audioRef.current;
-
       const onAudioEnd = () => {
-          audio.onended = null;
-          audio.onerror = null;
           if (!isMountedRef.current) return;
           setStatus('idle');
           timeoutRef.current = setTimeout(() => {
@@ -237,29 +261,65 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
           }, 100);
       };
       
-      const onAudioError = (e: any) => {
+      const onAudioError = (e: unknown) => {
+          if (isSpeechCancelled(e)) return;
           console.error("Recognition failure feedback audio failed", e);
           onAudioEnd();
       };
 
-      audio.src = ttsUrl;
-      audio.onended = onAudioEnd;
-      audio.onerror = onAudioError;
-      audio.play().catch(onAudioError);
+      speakPrompt(prompt('quizNotHeard')).then(onAudioEnd, onAudioError);
     } else {
+      finishQuestion(false, 0);
       playFeedbackAudio('final_incorrect');
     }
-  }, [selectedAnswer, stopAllActivity, attemptsLeft, playFeedbackAudio]);
+  }, [selectedAnswer, stopAllActivity, attemptsLeft, playFeedbackAudio, finishQuestion]);
+
+  const handleTimeUp = useCallback(() => {
+    if (selectedAnswer !== null || attemptsLeft <= 0 || !isMountedRef.current) return;
+    stopAllActivity();
+    setClarifying([]);
+    setTimedOut(true);
+    setAttemptsLeft(0);
+    finishQuestion(false, 0);
+    playFeedbackAudio('time_up');
+  }, [selectedAnswer, attemptsLeft, stopAllActivity, finishQuestion, playFeedbackAudio]);
+
+  useEffect(() => {
+    timeUpRef.current = handleTimeUp;
+  }, [handleTimeUp]);
+
+  // The countdown only runs while the visitor can answer, so it waits for Siddiqa to finish speaking.
+  useEffect(() => {
+    if (!lightning || gameState !== 'playing' || status === 'speaking' || selectedAnswer !== null || attemptsLeft <= 0) return;
+    if (!sessionQuestions[currentQuestionIndex]) return;
+    if (secondsLeft <= 0) {
+      timeUpRef.current?.();
+      return;
+    }
+    const tick = setTimeout(() => setSecondsLeft(s => s - 1), 1000);
+    return () => clearTimeout(tick);
+  }, [lightning, gameState, status, selectedAnswer, attemptsLeft, secondsLeft, sessionQuestions, currentQuestionIndex]);
 
   const startNewQuiz = useCallback(() => {
     stopAllActivity();
-    const shuffled = [...quizQuestions].sort(() => 0.5 - Math.random());
-    setSessionQuestions(shuffled.slice(0, 5));
+    const questions = getQuizQuestions();
+    const inCategory = questions.filter(question => question.category === category);
+    // An imported bank may have no questions in the chosen category.
+    const pool = inCategory.length > 0 ? inCategory : questions;
+    poolRef.current = pool;
+    nextQuestionRef.current = null;
+    const first = pickQuestion(pool, STARTING_DIFFICULTY, []);
+    setSessionQuestions(first ? [first] : []);
+    setSessionLength(Math.min(QUIZ_SESSION_LENGTH, pool.length));
     setCurrentQuestionIndex(0);
     setQuestionTrigger(0);
     setScore(0);
+    setBonus(0);
+    nameRecognitionRef.current?.abort();
+    setSavedEntry(null);
+    setSaveFailed(false);
     setGameState('playing');
-  }, [stopAllActivity]);
+  }, [stopAllActivity, category]);
   
   useEffect(() => {
     isMountedRef.current = true;
@@ -267,6 +327,7 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
     return () => { 
       isMountedRef.current = false; 
       stopAllActivity(); 
+      nameRecognitionRef.current?.abort();
     };
   }, [startNewQuiz, stopAllActivity]);
 
@@ -278,33 +339,29 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
             setSelectedAnswer(null);
             setIsCorrect(null);
             setTranscript('');
-            setAttemptsLeft(3);
+            setClarifying([]);
+            setAttemptsLeft(QUIZ_ATTEMPTS);
             setIsScored(false);
+            setSecondsLeft(LIGHTNING_SECONDS);
+            setTimedOut(false);
             playQuestionAudio(question);
         }
     }
   }, [gameState, currentQuestionIndex, questionTrigger, sessionQuestions, playQuestionAudio]);
   
   useEffect(() => {
-      if (gameState === 'finished' && sessionQuestions.length > 0 && audioRef.current) {
+      if (gameState === 'finished' && sessionQuestions.length > 0) {
           stopAllActivity();
           setStatus('speaking');
 
-          const scorePercent = Math.round((score / sessionQuestions.length) * 100);
-          const fullText = `நீங்கள் ${scorePercent} சதவீதம் மதிப்பெண் பெற்றுள்ளீர்கள். வாழ்த்துக்கள்!`;
+          const scorePercent = Math.round((score / pointsAvailable(sessionQuestions)) * 100);
+          const fullText = t('quiz.scoreSpoken', { percent: scorePercent });
 
-          const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(fullText)}&tl=ta&client=tw-ob`;
-          const audio = audioRef.current;
-          
           const onAudioEnd = () => {
               if (isMountedRef.current) setStatus('idle');
-              audio.onended = null;
-              audio.onerror = null;
           };
-
-          audio.src = ttsUrl;
-          audio.onended = onAudioEnd;
-          audio.onerror = (e) => {
+          const onAudioError = (e: unknown) => {
+              if (isSpeechCancelled(e)) return;
               console.error("Scorecard audio failed", e);
               onAudioEnd();
           };
@@ -312,8 +369,8 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
           // Use a timeout to ensure playback starts after the state transition is fully processed.
           // This helps avoid race conditions and potential browser autoplay restrictions.
           const playbackTimeout = setTimeout(() => {
-            if (audioRef.current && isMountedRef.current) {
-              audio.play().catch(audio.onerror);
+            if (isMountedRef.current) {
+              speak(fullText, info.speechLang).then(onAudioEnd, onAudioError);
             }
           }, 200);
 
@@ -321,22 +378,16 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
             clearTimeout(playbackTimeout);
           };
       }
-  }, [gameState, score, sessionQuestions, stopAllActivity]);
+  }, [gameState, score, sessionQuestions, stopAllActivity, t, info]);
 
-  const playInvalidAnswerFeedback = useCallback(() => {
-    if (!audioRef.current) return;
-    
+  // Reads back the options the answer sounded like, or just asks again when it sounded like none.
+  const askWhichAnswer = useCallback((indexes: number[]) => {
     stopAllActivity();
     setStatus('speaking');
-
-    const text = "பதிலளிக்க 'ஆப்ஷன் ஒன்று' அல்லது 'ஆப்ஷன் 1' என்பது போன்று கூறவும்.";
-
-    const ttsUrl = `https://translate.google.com/translate_tts?ie=UTF-8&q=${encodeURIComponent(text)}&tl=ta&client=tw-ob`;
-    const audio = audioRef.current;
+    setClarifying(indexes);
+    const options = sessionQuestions[currentQuestionIndex]?.options ?? [];
 
     const onAudioEnd = () => {
-        audio.onended = null;
-        audio.onerror = null;
         if (!isMountedRef.current) return;
         setStatus('idle');
         timeoutRef.current = setTimeout(() => {
@@ -346,65 +397,87 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
         }, 100);
     };
     
-    const onAudioError = (e: any) => {
-        console.error("Invalid feedback audio failed", e);
+    const onAudioError = (e: unknown) => {
+        if (isSpeechCancelled(e)) return;
+        console.error("Clarifying prompt audio failed", e);
         onAudioEnd(); // Still proceed
     };
 
-    audio.src = ttsUrl;
-    audio.onended = onAudioEnd;
-    audio.onerror = onAudioError;
-    audio.play().catch(onAudioError);
+    const ask = async () => {
+      if (indexes.length === 0) return speakPrompt(prompt('quizWhichAnswer'));
+      await speakPrompt(prompt('quizChoose'));
+      for (const index of indexes) {
+        await speak(String(index + 1), info.speechLang);
+        // The options are Tamil whatever the visitor's language.
+        await speak(options[index], 'ta');
+      }
+      await speakPrompt(prompt('quizChooseHint'));
+    };
+    ask().then(onAudioEnd, onAudioError);
 
-  }, [stopAllActivity]);
+  }, [stopAllActivity, sessionQuestions, currentQuestionIndex, info]);
+
+  // Returns false for commands that mean nothing during the quiz, such as "next surah".
+  const handleGlobalCommand = useCallback((intent: GlobalIntent): boolean => {
+    const listenAgain = () => {
+        if (!isMountedRef.current) return;
+        setStatus('idle');
+        timeoutRef.current = setTimeout(() => startListeningRef.current?.(), 100);
+    };
+
+    switch (intent.type) {
+      case 'back':
+      case 'home':
+        stopAllActivity();
+        goBack();
+        return true;
+      case 'stop':
+        stopAllActivity();
+        return true;
+      case 'repeatPrompt':
+        stopAllActivity();
+        setStatus('speaking');
+        repeatLastUtterance().then(listenAgain, e => { if (!isSpeechCancelled(e)) listenAgain(); });
+        return true;
+      case 'volume':
+        changeVolume(intent.direction);
+        listenAgain();
+        return true;
+      default:
+        return false;
+    }
+  }, [stopAllActivity, goBack]);
 
   useEffect(() => {
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    if (!SpeechRecognition) return;
-      
-    recognitionRef.current = new SpeechRecognition();
-    recognitionRef.current.continuous = false;
-    recognitionRef.current.interimResults = false;
-    recognitionRef.current.lang = 'ta-IN';
+    if (!recognitionRef.current) recognitionRef.current = createRecognizer();
+    if (!recognitionRef.current) return;
+    recognitionRef.current.lang = info.recognitionLang;
 
-    recognitionRef.current.onresult = (event: SpeechRecognitionEvent) => {
+    recognitionRef.current.onresult = (event: RecognitionEvent) => {
         if (!isMountedRef.current || selectedAnswer !== null) return;
         resultProcessedRef.current = true;
-        const recognizedText = event.results[0][0].transcript;
-        setTranscript(`நீங்கள் கூறியது: ${recognizedText}`);
-        
-        const cleanTranscript = recognizedText.trim().replace(/[.,?]/g, '');
-        const lowerCleanTranscript = cleanTranscript.toLowerCase();
-        
-        if (lowerCleanTranscript === 'option' || cleanTranscript === 'ஆப்ஷன்') {
-            handleRecognitionFailure();
-            return;
-        }
+        const { alternatives } = event.results[0];
+        const recognizedText = alternatives[0].transcript;
+        setTranscript(t('quiz.youSaid', { text: recognizedText }));
+
+        const globalIntent = bestIntent(alternatives, transcript => parseGlobalCommand(transcript) ?? { type: 'unknown' as const }).intent;
+        if (globalIntent.type !== 'unknown' && handleGlobalCommand(globalIntent)) return;
         
         const currentQ = sessionQuestions[currentQuestionIndex];
         if (!currentQ) return;
-        
-        let answerIndex = -1;
-
-        const hasOne = lowerCleanTranscript.includes('one') || cleanTranscript.includes('ஒன்று') || cleanTranscript.includes('1');
-        const hasTwo = lowerCleanTranscript.includes('two') || cleanTranscript.includes('இரண்டு') || cleanTranscript.includes('2');
-        const hasThree = lowerCleanTranscript.includes('three') || cleanTranscript.includes('மூன்று') || cleanTranscript.includes('3');
-        const hasFour = lowerCleanTranscript.includes('four') || cleanTranscript.includes('நான்கு') || cleanTranscript.includes('4');
-
-        if (hasOne) {
-            answerIndex = 0;
-        } else if (hasTwo) {
-            answerIndex = 1;
-        } else if (hasThree) {
-            answerIndex = 2;
-        } else if (hasFour) {
-            answerIndex = 3;
-        }
-        
-        if (answerIndex > -1) {
-            handleSelectAnswer(answerIndex);
+
+        // An answer in any alternative beats "option" with nothing after it, or an unclear one.
+        const answer = bestIntent(alternatives, transcript => {
+          const parsed = parseQuizAnswer(transcript, currentQ.options);
+          return parsed.type === 'answer' ? parsed : { type: 'unknown' as const };
+        }).intent;
+        const intent = answer.type === 'answer' ? answer : parseQuizAnswer(recognizedText, currentQ.options);
+        if (intent.type === 'incomplete') {
+            handleRecognitionFailure();
+        } else if (intent.type === 'answer') {
+            handleSelectAnswer(intent.index);
         } else {
-            playInvalidAnswerFeedback();
+            askWhichAnswer(intent.type === 'unclear' ? intent.indexes : []);
         }
     };
 
@@ -422,7 +495,7 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
         }
     };
 
-    recognitionRef.current.onerror = (event: SpeechRecognitionErrorEvent) => {
+    recognitionRef.current.onerror = (event: RecognitionError) => {
         console.error('Speech recognition error:', event.error, event.message);
         // We simply log the error and do NOT change any state.
         // This prevents a race condition with the onend event.
@@ -432,24 +505,113 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
         // onend will correctly call `handleRecognitionFailure`.
     };
 
-  }, [handleSelectAnswer, selectedAnswer, status, sessionQuestions, currentQuestionIndex, playInvalidAnswerFeedback, handleRecognitionFailure]);
+  }, [handleSelectAnswer, selectedAnswer, status, sessionQuestions, currentQuestionIndex, askWhichAnswer, handleRecognitionFailure, handleGlobalCommand, t, info]);
   
+  // Names are heard in Tamil whatever language the screen is in.
+  const listenForName = useCallback(() => {
+    stopAllActivity();
+    if (!nameRecognitionRef.current) nameRecognitionRef.current = createRecognizer();
+    const recognizer = nameRecognitionRef.current;
+    if (!recognizer) return;
+    recognizer.lang = LOCALES.ta.recognitionLang;
+    recognizer.onresult = (event: RecognitionEvent) => {
+      if (!isMountedRef.current) return;
+      const name = cleanName(event.results[0].alternatives[0].transcript);
+      if (name) setPlayerName(name);
+    };
+    recognizer.onerror = (event: RecognitionError) => {
+      console.error('Speech recognition error:', event.error, event.message);
+    };
+    recognizer.onend = () => {
+      if (isMountedRef.current) setNameListening(false);
+    };
+    setNameListening(true);
+    try {
+      recognizer.start();
+    } catch (e) {
+      console.error('Could not start listening for a name.', e);
+      setNameListening(false);
+    }
+  }, [stopAllActivity]);
+
+  const saveScore = useCallback(async () => {
+    const name = cleanName(playerName);
+    if (!name || savedEntry || saving) return;
+    nameRecognitionRef.current?.abort();
+    setSaving(true);
+    setSaveFailed(false);
+    try {
+      const entry = await addScore({
+        name, score, bonus, lightning, category,
+        pointsAvailable: pointsAvailable(sessionQuestions),
+        level: levelReached(sessionQuestions),
+      });
+      if (isMountedRef.current) setSavedEntry(entry);
+    } catch (error) {
+      console.warn('Could not save the score.', error);
+      if (isMountedRef.current) setSaveFailed(true);
+    } finally {
+      if (isMountedRef.current) setSaving(false);
+    }
+  }, [playerName, savedEntry, saving, score, bonus, lightning, category, sessionQuestions]);
+
   const handleGoBack = () => { stopAllActivity(); goBack(); }
 
-  const scorePercent = sessionQuestions.length > 0 ? Math.round((score / sessionQuestions.length) * 100) : 0;
+  const scorePercent = sessionQuestions.length > 0 ? Math.round((score / pointsAvailable(sessionQuestions)) * 100) : 0;
   if (gameState === 'finished') {
     return (
-      <div className="w-full h-full flex flex-col items-center justify-center bg-gradient-to-br from-emerald-900 to-green-900 font-tamil p-4 relative overflow-hidden">
+      <div className="w-full h-full flex flex-col items-center bg-gradient-to-br from-emerald-900 to-green-900 font-tamil p-4 relative overflow-x-hidden overflow-y-auto">
         {scorePercent >= 75 && <Confetti />}
-        <div className="text-center bg-black/20 p-10 rounded-3xl shadow-2xl backdrop-blur-sm relative z-10 flex flex-col items-center">
+        <div className="my-auto text-center bg-black/20 p-10 rounded-3xl shadow-2xl backdrop-blur-sm relative z-10 flex flex-col items-center">
           <Trophy className={`w-24 h-24 mx-auto mb-4 ${scorePercent >= 75 ? 'text-yellow-400' : 'text-emerald-400'}`} />
-          <h1 className="text-2xl font-bold text-white mb-2">வினாடி வினா முடிந்தது!</h1>
+          <h1 className="text-2xl font-bold text-white mb-2">{t('quiz.finished')}</h1>
           <p className="text-8xl font-bold text-white mb-4">{scorePercent}<span className="text-5xl opacity-70">%</span></p>
-          <p className="text-xl text-gray-300 mb-2">உங்கள் மதிப்பெண்: {score} / {sessionQuestions.length}</p>
-          <p className="text-2xl text-amber-200 mb-8">{scorePercent >= 75 ? '🎉 வாழ்த்துக்கள்! சிறப்பாக செய்தீர்கள்!' : '🤔 நன்றாக முயற்சித்தீர்கள்!'}</p>
+          <p className="text-xl text-gray-300 mb-2">{t('quiz.score', { score, total: pointsAvailable(sessionQuestions) })}</p>
+          <p className="text-xl text-emerald-200 mb-2">{t('quiz.levelReached', { level: t(`quiz.difficulty.${levelReached(sessionQuestions)}`) })}</p>
+          {lightning && <p className="text-xl text-amber-300 mb-2">{t('quiz.speedBonus', { bonus })}</p>}
+          <p className="text-2xl text-amber-200 mb-8">{t(scorePercent >= 75 ? 'quiz.great' : 'quiz.goodTry')}</p>
+          {isLeaderboardSupported() && (savedEntry ? (
+            <>
+              <p className="text-xl text-emerald-100 mb-6">{t('leaderboard.saved', { name: savedEntry.name, rank: dailyRank(leaderboardEntries, savedEntry) })}</p>
+              <div className="mb-8 w-full flex justify-center">
+                <Leaderboard highlightId={savedEntry.id} />
+              </div>
+            </>
+          ) : (
+            <form onSubmit={(e) => { e.preventDefault(); saveScore(); }} className="w-full max-w-md mb-8">
+              <label htmlFor="leaderboard-name" className="block text-lg text-emerald-100 mb-2">{t('leaderboard.addName')}</label>
+              <div className="flex gap-2">
+                <input
+                  id="leaderboard-name"
+                  lang="ta"
+                  value={playerName}
+                  maxLength={MAX_NAME_LENGTH}
+                  onChange={(e) => setPlayerName(e.target.value)}
+                  placeholder={t('leaderboard.namePlaceholder')}
+                  className="flex-1 min-w-0 bg-white/10 text-white text-xl rounded-xl py-2 px-4 placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-amber-400"
+                />
+                {isRecognitionSupported() && (
+                  <button
+                    type="button"
+                    onClick={listenForName}
+                    disabled={nameListening || saving}
+                    aria-label={t('leaderboard.sayName')}
+                    className={`p-3 rounded-xl text-white transition-colors ${nameListening ? 'bg-red-500 animate-pulse' : 'bg-white/10 hover:bg-white/20'}`}
+                  >
+                    <Mic size={24} />
+                  </button>
+                )}
+                <button type="submit" disabled={!cleanName(playerName) || saving} className="bg-amber-400 text-emerald-900 font-bold text-lg py-2 px-5 rounded-xl transition-opacity disabled:opacity-50">
+                  {t('leaderboard.save')}
+                </button>
+              </div>
+              {nameListening && <p className="text-amber-200 mt-2">{t('leaderboard.sayName')}</p>}
+              {saveFailed && <p className="text-red-300 mt-2">{t('leaderboard.saveFailed')}</p>}
+            </form>
+          ))}
           <div className="flex gap-4">
-            <button onClick={startNewQuiz} className="bg-amber-400 text-emerald-900 font-bold text-xl py-3 px-8 rounded-2xl transition-transform duration-300 hover:scale-105">மீண்டும் விளையாடு</button>
-            <button onClick={handleGoBack} className="bg-white/10 text-white font-bold text-xl py-3 px-8 rounded-2xl transition-transform duration-300 hover:scale-105">முகப்பு</button>
+            <button onClick={startNewQuiz} className="bg-amber-400 text-emerald-900 font-bold text-xl py-3 px-8 rounded-2xl transition-transform duration-300 hover:scale-105">{t('quiz.playAgain')}</button>
+            <button onClick={handleGoBack} className="bg-white/10 text-white font-bold text-xl py-3 px-8 rounded-2xl transition-transform duration-300 hover:scale-105">{t('common.home')}</button>
           </div>
         </div>
       </div>
@@ -459,22 +621,35 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
   const currentQ = sessionQuestions[currentQuestionIndex];
   if (!currentQ) return (
       <div className="w-full h-full flex flex-col items-center justify-center text-white text-2xl font-tamil">
-          வினாடி வினா ஏற்றப்படுகிறது...
+          {t('quiz.loading')}
       </div>
   );
 
   return (
     <div className="w-full min-h-screen flex flex-col items-center justify-between bg-gradient-to-br from-emerald-900 to-green-900 font-tamil p-6">
-      <audio ref={audioRef} />
       <div className="w-full max-w-4xl mx-auto flex flex-col flex-grow">
         <div className="flex items-center justify-between w-full mb-4">
-          <button onClick={handleGoBack} className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> முகப்பு</button>
+          <button onClick={handleGoBack} className="flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-semibold py-2 px-4 rounded-full transition-colors"><ArrowLeft size={20} /> {t('common.home')}</button>
           <div className="flex items-center gap-2 text-red-400">
             {Array.from({ length: attemptsLeft }).map((_, i) => <Heart key={i} fill="currentColor" className="w-6 h-6"/>)}
           </div>
-          <div className="text-lg font-bold text-white">{currentQuestionIndex + 1} / {sessionQuestions.length}</div>
+          <div className="flex items-center gap-3">
+            {lightning && (
+              <span className={`flex items-center gap-1 text-lg font-bold ${secondsLeft <= LIGHTNING_WARNING_SECONDS ? 'text-red-400 animate-pulse' : 'text-amber-300'}`}>
+                <Timer size={20} /> {secondsLeft}
+              </span>
+            )}
+            <span className="bg-white/10 text-emerald-100 text-sm font-semibold py-1 px-3 rounded-full">{t(`quiz.category.${currentQ.category}`)}</span>
+            <span className="bg-white/10 text-amber-200 text-sm font-semibold py-1 px-3 rounded-full">{t(`quiz.difficulty.${currentQ.difficulty}`)}</span>
+            <div className="text-lg font-bold text-white">{currentQuestionIndex + 1} / {sessionLength}</div>
+          </div>
         </div>
-        <div className="w-full bg-white/20 rounded-full h-2.5 mb-6"><div className="bg-yellow-400 h-2.5 rounded-full" style={{ width: `${((currentQuestionIndex + 1) / sessionQuestions.length) * 100}%` }}></div></div>
+        <div className="w-full bg-white/20 rounded-full h-2.5 mb-6"><div className="bg-yellow-400 h-2.5 rounded-full" style={{ width: `${((currentQuestionIndex + 1) / sessionLength) * 100}%` }}></div></div>
+        {lightning && (
+          <div className="w-full bg-white/10 rounded-full h-1.5 -mt-4 mb-6">
+            <div className={`h-1.5 rounded-full transition-[width] duration-1000 ease-linear ${secondsLeft <= LIGHTNING_WARNING_SECONDS ? 'bg-red-400' : 'bg-amber-300'}`} style={{ width: `${(secondsLeft / LIGHTNING_SECONDS) * 100}%` }}></div>
+          </div>
+        )}
 
         <div key={currentQuestionIndex} className="relative bg-black/20 p-8 rounded-3xl shadow-2xl backdrop-blur-sm mb-6 text-center fade-in">
           {status === 'speaking' && (
@@ -487,9 +662,11 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
           {currentQ.options.map((option, index) => {
             const isSelected = selectedAnswer === index;
             const isTheCorrectAnswer = currentQ.correctAnswer === index;
-            let optionClass = 'bg-white/10 hover:bg-white/20 ring-amber-400 focus:ring-4';
+            let optionClass = clarifying.includes(index)
+              ? 'bg-white/20 ring-4 ring-amber-400'
+              : 'bg-white/10 hover:bg-white/20 ring-amber-400 focus:ring-4';
             
-            if (selectedAnswer !== null) {
+            if (selectedAnswer !== null || attemptsLeft === 0) {
               if (isSelected && isCorrect) optionClass = 'bg-green-600/90 ring-4 ring-white scale-105';
               else if (isSelected && !isCorrect) optionClass = 'bg-red-600/90 ring-4 ring-white';
               else if (attemptsLeft === 0 && isTheCorrectAnswer) optionClass = 'bg-green-600/90 ring-4 ring-white';
@@ -497,13 +674,21 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
             }
 
             return (
-              <button key={index} disabled={selectedAnswer !== null} onClick={() => handleSelectAnswer(index)} className={`p-6 rounded-2xl text-left text-white text-2xl font-semibold transition-all duration-300 transform disabled:cursor-not-allowed ${optionClass} fade-in`} style={{ animationDelay: `${index * 100}ms` }}>
+              <button key={index} disabled={selectedAnswer !== null || attemptsLeft === 0} onClick={() => handleSelectAnswer(index)} className={`p-6 rounded-2xl text-left text-white text-2xl font-semibold transition-all duration-300 transform disabled:cursor-not-allowed ${optionClass} fade-in`} style={{ animationDelay: `${index * 100}ms` }}>
                 <span className="bg-black/30 rounded-lg px-3 py-1 mr-4">{index + 1}</span>
                 {option}
               </button>
             );
           })}
         </div>
+
+        {(attemptsLeft === 0 || (selectedAnswer !== null && isCorrect)) && (
+          <div className="mt-6 bg-black/20 p-6 rounded-2xl text-white fade-in">
+            <div className="text-amber-300 font-bold mb-2">{t('quiz.explanation')}</div>
+            <p className="text-xl leading-relaxed">{currentQ.explanation}</p>
+            {currentQ.reference && <p className="mt-2 text-emerald-200 opacity-80">{t('quiz.reference', { reference: currentQ.reference })}</p>}
+          </div>
+        )}
       </div>
       
       <div className="h-28 mt-6 flex flex-col items-center justify-center text-emerald-200 text-lg">
@@ -512,33 +697,36 @@ export const QuizScreen: FC<QuizScreenProps> = ({ goBack }) => {
             {status === 'speaking' ? (
               <div className="flex items-center gap-3 text-amber-200 fade-in">
                   <Volume2 className="animate-pulse" />
-                  <span>பேசுகிறது...</span>
+                  <span>{t('common.speaking')}</span>
               </div>
             ) : status === 'listening' ? (
                 <div className="flex items-center gap-3 text-amber-200 fade-in">
                   <Mic className="text-red-400 animate-pulse" />
-                  <span>🎙️ உங்கள் பதிலை பேசுங்கள்</span>
+                  <span>{t('quiz.speakAnswer')}</span>
                 </div>
             ) : (
               <>
                 <button
                   onClick={() => startListening()}
-                  disabled={selectedAnswer !== null || status !== 'idle'}
+                  disabled={selectedAnswer !== null || attemptsLeft === 0 || status !== 'idle'}
                   className="bg-amber-400 text-emerald-900 w-20 h-20 rounded-full flex items-center justify-center shadow-lg transition-all duration-300 hover:bg-amber-500 disabled:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <Mic size={32} />
                 </button>
-                {selectedAnswer === null && <div className="opacity-70">பதிலைத் தேர்ந்தெடுக்கவும் அல்லது பேசவும்</div>}
+                {selectedAnswer === null && attemptsLeft > 0 && <div className="opacity-70">{t('quiz.chooseOrSpeak')}</div>}
               </>
             )}
             {selectedAnswer !== null && isCorrect === true && (
-                <div className="text-green-300 fade-in">சரியான பதில்! அடுத்த கேள்விக்கு தயாராகுங்கள்...</div>
+                <div className="text-green-300 fade-in">{t('quiz.correctNext')}</div>
             )}
             {selectedAnswer !== null && isCorrect === false && attemptsLeft > 0 && (
-              <div className="text-yellow-300 fade-in">தவறான பதில், மீண்டும் முயற்சிக்கவும்...</div>
+              <div className="text-yellow-300 fade-in">{t('quiz.incorrectRetry')}</div>
             )}
              {selectedAnswer !== null && attemptsLeft === 0 && (
-              <div className="text-red-400 fade-in">சரியான பதில் காட்டப்படுகிறது...</div>
+              <div className="text-red-400 fade-in">{t('quiz.showingAnswer')}</div>
+            )}
+            {timedOut && (
+              <div className="text-red-400 fade-in">{t('quiz.timeUp')}</div>
             )}
           </div>
       </div>
@@ -0,0 +1,37 @@
+import { quizDifficulties } from './constants';
+import { QuizDifficulty, QuizQuestion } from './types';
+
+// Each question's difficulty follows how the visitor answered the one before, so a
+// six-year-old stays on easy questions and a scholar climbs to the hard ones.
+
+export const STARTING_DIFFICULTY: QuizDifficulty = 'easy';
+
+// Points for a correct answer; the scorecard compares them with the points on offer.
+export const DIFFICULTY_POINTS: Record<QuizDifficulty, number> = { easy: 1, medium: 2, hard: 3 };
+
+const rank = (difficulty: QuizDifficulty) => quizDifficulties.indexOf(difficulty);
+
+// Right first time moves up a level, right on the second attempt stays, and anything
+// later (or a missed question) moves down. `attemptsLeft` counts the hearts left
+// when the question was answered, `attempts` the hearts it started with.
+export const nextDifficulty = (current: QuizDifficulty, correct: boolean, attemptsLeft: number, attempts: number): QuizDifficulty => {
+  const step = !correct ? -1 : attemptsLeft === attempts ? 1 : attemptsLeft === attempts - 1 ? 0 : -1;
+  return quizDifficulties[Math.min(quizDifficulties.length - 1, Math.max(0, rank(current) + step))];
+};
+
+// A random question not asked yet, at `difficulty` or as close to it as the pool allows.
+export const pickQuestion = (pool: QuizQuestion[], difficulty: QuizDifficulty, asked: QuizQuestion[]): QuizQuestion | null => {
+  const unasked = pool.filter(question => !asked.includes(question));
+  if (unasked.length === 0) return null;
+  const distance = (question: QuizQuestion) => Math.abs(rank(question.difficulty) - rank(difficulty));
+  const closest = Math.min(...unasked.map(distance));
+  const candidates = unasked.filter(question => distance(question) === closest);
+  return candidates[Math.floor(Math.random() * candidates.length)];
+};
+
+// The hardest difficulty among `questions`, shown on the scorecard as the level reached.
+export const levelReached = (questions: QuizQuestion[]): QuizDifficulty =>
+  questions.reduce<QuizDifficulty>((level, question) => (rank(question.difficulty) > rank(level) ? question.difficulty : level), STARTING_DIFFICULTY);
+
+export const pointsAvailable = (questions: QuizQuestion[]): number =>
+  questions.reduce((sum, question) => sum + DIFFICULTY_POINTS[question.difficulty], 0);
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ASK_MODEL_NAME, AskModel, MAX_QUESTION_LENGTH, REFUSAL_MARKER, askSiddiqa } from './ask-siddiqa';
+
+// A model that always gives `reply`, and records what it was asked.
+const stubModel = (reply: string | undefined) => {
+  const generateContent = vi.fn<AskModel['generateContent']>(async () => ({ text: reply }));
+  return { model: { generateContent }, generateContent };
+};
+
+describe('askSiddiqa', () => {
+  it('returns the answer with markdown stripped', async () => {
+    const { model, generateContent } = stubModel('**ரமழான்** மாதத்தில் _நோன்பு_ நோற்கிறோம்.\n');
+    const result = await askSiddiqa('  நோன்பு எப்போது?  ', model);
+
+    expect(result).toEqual({ type: 'answer', text: 'ரமழான் மாதத்தில் நோன்பு நோற்கிறோம்.' });
+    expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({
+      model: ASK_MODEL_NAME,
+      contents: 'நோன்பு எப்போது?',
+      config: expect.objectContaining({ systemInstruction: expect.stringContaining(REFUSAL_MARKER) }),
+    }));
+  });
+
+  it('answers in the requested language', async () => {
+    const { model, generateContent } = stubModel('We fast in Ramadan.');
+    await askSiddiqa('When do we fast?', model, 'English');
+    expect(generateContent.mock.calls[0][0].config.systemInstruction).toContain('you answer in English');
+  });
+
+  it('maps the refusal marker to a refusal', async () => {
+    expect(await askSiddiqa('Who will win the election?', stubModel(REFUSAL_MARKER).model)).toEqual({ type: 'refusal' });
+    expect(await askSiddiqa('Tell me a secret', stubModel(` ${REFUSAL_MARKER}\n`).model)).toEqual({ type: 'refusal' });
+  });
+
+  it('treats an empty reply as a refusal', async () => {
+    expect(await askSiddiqa('?', stubModel('').model)).toEqual({ type: 'refusal' });
+    expect(await askSiddiqa('?', stubModel(undefined).model)).toEqual({ type: 'refusal' });
+    expect(await askSiddiqa('?', stubModel('**  **').model)).toEqual({ type: 'refusal' });
+  });
+
+  it('passes a failed request on to the caller', async () => {
+    const model: AskModel = { generateContent: () => Promise.reject(new Error('quota exceeded')) };
+    await expect(askSiddiqa('நோன்பு எப்போது?', model)).rejects.toThrow('quota exceeded');
+  });
+
+  it(`cuts questions at ${MAX_QUESTION_LENGTH} characters`, async () => {
+    const { model, generateContent } = stubModel('சரி.');
+    await askSiddiqa('அ'.repeat(MAX_QUESTION_LENGTH + 50), model);
+    expect(generateContent.mock.calls[0][0].contents).toBe('அ'.repeat(MAX_QUESTION_LENGTH));
+  });
+});
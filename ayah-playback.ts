@@ -0,0 +1,133 @@
+import { Surah } from './types';
+import { Reciter, ayahAudioUrl } from './reciters';
+
+// Verse-range playback for teaching and memorisation: play ayat `from`..`to`,
+// each one `repeat` times with a pause between plays.
+
+export interface AyahRange {
+  from: number;
+  to: number;
+}
+
+export interface AyahProgress {
+  ayah: number;
+  repetition: number;
+}
+
+export interface AyahSequenceOptions {
+  reciter: Reciter;
+  repeat: number;
+  pauseMs: number;
+  signal: AbortSignal;
+  onProgress?: (progress: AyahProgress) => void;
+  // Checked after each ayah finishes all its repeats; returning true ends the sequence there.
+  shouldStop?: () => boolean;
+}
+
+const AYAH_WORDS = ['verses', 'verse', 'ayahs', 'ayah', 'ayat', 'aayat', 'ayath', 'ayaat', 'ஆயத்துகள்', 'ஆயத்து', 'ஆயத்', 'வசனங்கள்', 'வசனம்'];
+const RANGE_PATTERN = /(\d+)\s*(?:-|–|to|till|until|through|முதல்|லிருந்து|இலிருந்து)\s*(\d+)/g;
+const REPEAT_PATTERN = /(\d+)\s*(?:times|x|முறை|தடவை)/;
+
+const clampRange = (from: number, to: number, ayahCount: number): AyahRange | null => {
+  const start = Math.min(from, to);
+  const end = Math.max(from, to);
+  if (start < 1 || start > ayahCount) return null;
+  return { from: start, to: Math.min(end, ayahCount) };
+};
+
+// Picks the range (or single number) nearest to the verse keyword.
+const rangeIn = (text: string, ayahCount: number, nearEnd: boolean): AyahRange | null => {
+  const pick = <T>(items: T[]) => (nearEnd ? items[items.length - 1] : items[0]);
+  const ranges = [...text.matchAll(RANGE_PATTERN)];
+  if (ranges.length > 0) {
+    const range = pick(ranges);
+    return clampRange(Number(range[1]), Number(range[2]), ayahCount);
+  }
+  const numbers = text.match(/\d+/g);
+  if (numbers) return clampRange(Number(pick(numbers)), Number(pick(numbers)), ayahCount);
+  return null;
+};
+
+// Understands "verse 255", "ayat 1 to 10" and Tamil word order such as
+// "1 முதல் 10 வரை வசனங்கள்". Returns null when no verse is mentioned.
+export const parseAyahRange = (command: string, ayahCount: number): AyahRange | null => {
+  const text = command.toLowerCase().replace(REPEAT_PATTERN, ' ');
+  const word = AYAH_WORDS.find(w => text.includes(w));
+  if (!word) return null;
+  const index = text.indexOf(word);
+  return rangeIn(text.slice(index + word.length), ayahCount, false)
+    ?? rangeIn(text.slice(0, index), ayahCount, true);
+};
+
+export const parseRepeatCount = (command: string): number | null => {
+  const match = command.toLowerCase().match(REPEAT_PATTERN);
+  return match ? Math.max(1, Number(match[1])) : null;
+};
+
+const abortError = () => new DOMException('Ayah playback aborted', 'AbortError');
+
+const playOnce = (audio: HTMLAudioElement, url: string, signal: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      audio.removeEventListener('ended', onEnded);
+      audio.removeEventListener('error', onError);
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onEnded = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(`Could not play ${url}`));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    if (signal.aborted) return reject(abortError());
+    audio.src = url;
+    audio.addEventListener('ended', onEnded);
+    audio.addEventListener('error', onError);
+    signal.addEventListener('abort', onAbort);
+    audio.play().catch(onError);
+  });
+};
+
+const wait = (ms: number, signal: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+export const playAyahSequence = async (
+  audio: HTMLAudioElement,
+  surah: Surah,
+  range: AyahRange,
+  { reciter, repeat, pauseMs, signal, onProgress, shouldStop }: AyahSequenceOptions
+): Promise<number> => {
+  for (let ayah = range.from; ayah <= range.to; ayah++) {
+    for (let repetition = 1; repetition <= repeat; repetition++) {
+      onProgress?.({ ayah, repetition });
+      await playOnce(audio, ayahAudioUrl(surah, ayah, reciter), signal);
+      const isLast = ayah === range.to && repetition === repeat;
+      if (!isLast && pauseMs > 0) await wait(pauseMs, signal);
+    }
+    if (ayah < range.to && shouldStop?.()) return ayah;
+  }
+  // The last ayah that finished playing.
+  return range.to;
+};
+
+export const isAyahPlaybackAborted = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
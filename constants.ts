@@ -1,86 +1,124 @@
-import { DuaDatabase, QuizQuestion } from './types';
+import { DuaDatabase, QuizCategory, QuizDifficulty, QuizQuestion } from './types';
 
 export const duaDatabase: DuaDatabase = {
   'sleeping': {
     name: 'தூங்கும் முன் ஓத வேண்டிய துஆ',
     arabic: 'اَللّهُمَّ خَلَقْتَ نَفْسِيْ وَأَنْتَ تَوَفَّاهَا لَكَ مَمَاتُهَا وَمَحْيَاهَا إِنْ أَحْيَيْتَهَا فَاحْفَظْهَا وَإِنْ أَمَتَّهَا فَاغْفِرْ لَهَا اَللّهُمَّ إِنِّيْ أَسْأَلُكَالْعَافِيَةَ',
     translationTamil: 'இறைவா! நீயே என் ஆத்மாவைப் படைத்தாய். நீயே அதனைக் கைப்பற்றுகிறாய். அதன்மரணமும், வாழ்வும் உனக்குரியது. நீ அதை உயிர் வாழச் செய்தால் அதனைக்காத்தருள். அதை நீ மரணிக்கச் செய்தால் அதை மன்னித்து விடு! இறைவா! உன்னிடம்மன்னிப்பை வேண்டுகிறேன்.',
+    transliterationTamil: 'அல்லாஹும்ம ஃகலக்த நஃப்ஸீ வஅன்த்த தவஃப்பாஹா, லக்க மமாதுஹா வமஹ்யாஹா, இன் அஹ்யைத்தஹா ஃபஹ்ஃபள்ஹா, வஇன் அமத்தஹா ஃபஃக்ஃபிர் லஹா. அல்லாஹும்ம இன்னீ அஸ்அலுகல் ஆஃபியா',
+    source: 'ஸஹீஹ் முஸ்லிம் 2712',
     keywords: ['தூங்கும்', 'தூங்குவதற்கு']
   },
   'gathering': {
     name: 'சபையை முடிக்கும் போது',
     arabic: 'سُبْحَانَكَ اللّهُمَّ وَبِحَمْدِكَ أَشْهَدُ أَنْ لاَ إِلهَ إِلاَّ أَنْتَ أَسْتَغْفِرُكَ وَأَتُوْبُ إِلَيْكَ',
     translationTamil: 'இறைவா! நீ தூயவன். உன்னைப் புகழ்கிறேன். வணக்கத்திற்குரியவன் உன்னைத் தவிரயாருமில்லை. உன்னிடமே பாவ மன்னிப்புத் தேடுகிறேன். உன்னிடமே மீள்கிறேன்.',
+    transliterationTamil: 'ஸுப்ஹானகல்லாஹும்ம வபிஹம்திக, அஷ்ஹது அன் லா இலாஹ இல்லா அன்த்த, அஸ்தஃக்ஃபிருக்க வஅதூபு இலைக்க',
+    source: 'ஜாமிஉத் திர்மிதீ 3433',
     keywords: ['சபையை', 'சபை']
   },
   'entering-mosque': {
     name: 'பள்ளிவாசலுக்குள் நுழையும் போது',
     arabic: 'اَللّهُمَّ افْتَحْ لِيْ أَبْوَابَ رَحْمَتِكَ',
     translationTamil: 'இறைவா! உனது அருள் வாசல்களை எனக்காகத் திறப்பாயாக.',
+    transliterationTamil: 'அல்லாஹும்மஃப்தஹ் லீ அப்வாப ரஹ்மதிக்க',
+    source: 'ஸஹீஹ் முஸ்லிம் 713',
     keywords: ['பள்ளிவாசலுக்குள்', 'பள்ளிவாசல்']
   },
   'for-provider': {
     name: 'உணவளித்தவருக்காக',
     arabic: 'اَللّهُمَّ بَارِكْ لَهُمْ فِيْ مَا رَزَقْتَهُمْ وَاغْفِرْ لَهُمْ وَارْحَمْهُمْ',
     translationTamil: 'இறைவா! இவர்களுக்கு நீ வழங்கியதில் பரகத் செய்வாயாக. இவர்களை மன்னிப்பாயாக! இவர்களுக்கு கருணை காட்டுவாயாக.',
+    transliterationTamil: 'அல்லாஹும்ம பாரிக் லஹும் ஃபீமா ரஸக்தஹும், வஃக்ஃபிர் லஹும் வர்ஹம்ஹும்',
+    source: 'ஸஹீஹ் முஸ்லிம் 2042',
     keywords: ['உணவளித்தவருக்காக', 'உணவு']
   },
   'visiting-sick': {
     name: 'நோயாளியை விசாரிக்கச் சென்றால்',
     arabic: 'اَللّهُمَّ رَبَّ النَّاسِ مُذْهِبَ الْبَأْسِ اِشْفِ أَنْتَ الشَّافِيْ لاَ شَافِيَ إِلاَّ أَنْتَ شِفَاءً لاَ يُغَادِرُ سَقَمًا',
     translationTamil: 'இறைவா! மனிதர்களின் எஜமானே! துன்பத்தை நீக்குபவனே! நீ குணப்படுத்து. நீயேகுணப்படுத்துபவன். உன்னைத் தவிர குணப்படுத்துபவன் யாருமில்லை. நோயைஅறவே மீதம் வைக்காமல் முழுமையாகக் குணப்படுத்து!',
+    transliterationTamil: 'அல்லாஹும்ம ரப்பன்னாஸ், முத்ஹிபல் பஃஸ், இஷ்ஃபி அன்த்தஷ் ஷாஃபீ, லா ஷாஃபிய இல்லா அன்த்த, ஷிஃபாஅன் லா யுஃகாதிரு ஸகமா',
+    source: 'ஸஹீஹ் புகாரி 5742',
     keywords: ['நோயாளியை', 'நோயாளி']
   },
   'loss': {
     name: 'இழப்புகள் ஏற்படும் போது',
     arabic: 'إِنَّا للهِ وَإِنَّا إِلَيْهِ رَاجِعُوْنَ اَللّهُمَّ أْجُرْنِيْ فِيْ مُصِيْبَتِيْ وَأَخْلِفْ لِيْ خَيْرًا مِنْهَا',
     translationTamil: 'நாங்கள் அல்லாஹ்வுக்கு உரியவர்கள். மேலும் நாங்கள் அவனிடமே திரும்பிச்செல்பவர்கள். இறைவா! எனது துன்பத்திற்காக நீ கூலி தருவாயாக. மேலும் இதைவிடச் சிறந்ததை பகரமாகத் தருவாயாக.',
+    transliterationTamil: 'இன்னா லில்லாஹி வஇன்னா இலைஹி ராஜிஊன். அல்லாஹும்மஃஜுர்னீ ஃபீ முஸீபதீ வஅஃக்லிஃப் லீ ஃகைரம் மின்ஹா',
+    source: 'ஸஹீஹ் முஸ்லிம் 918',
     keywords: ['இழப்புகள்', 'இழப்பு']
   },
   'storm': {
     name: 'புயல் வீசும் போது',
     arabic: 'اَللّهُمَّ إِنِّي أَسْأَلُكَ خَيْرَهَا وَخَيْرَ مَا فِيهَا وَخَيْرَ مَا أُرْسِلَتْ بِهِ وَأَعُوذُ بِكَ مِنْ شَرِّهَا وَشَرِّ مَا فِيهَا وَشَرِّ مَا أُرْسِلَتْ بِهِ',
     translationTamil: 'இறைவா! இதில் உள்ள நன்மையையும், எந்த நன்மைக்காக இது அனுப்பப்பட்டதோஅந்த நன்மையையும் உன்னிடம் வேண்டுகிறேன். இதன் தீங்கை விட்டும், எந்தத்தீங்கைக் கொண்டு வருவதற்காக இது அனுப்பப்பட்டதோ அந்தத் தீங்கை விட்டும்உன்னிடம் பாதுகாப்புத் தேடுகிறேன்.',
+    transliterationTamil: 'அல்லாஹும்ம இன்னீ அஸ்அலுக்க ஃகைரஹா வஃகைர மா ஃபீஹா வஃகைர மா உர்ஸிலத் பிஹி, வஅஊது பிக்க மின் ஷர்ரிஹா வஷர்ரி மா ஃபீஹா வஷர்ரி மா உர்ஸிலத் பிஹி',
+    source: 'ஸஹீஹ் முஸ்லிம் 899',
     keywords: ['புயல்']
   },
   'visiting-graves': {
     name: 'கப்ருகளை ஸியாரத் செய்யும் போது',
     arabic: 'اَلسَّلاَمُ عَلَيْكُمْ دَارَ قَوْمٍ مُؤْمِنِيْنَ وَإِنَّا إِنْ شَاءَ اللهُ بِكُمْ لاَحِقُوْنَ',
     translationTamil: 'இறை நம்பிக்கையுள்ள சமுதாயமே! உங்கள் மீது சாந்தி நிலவட்டும். அல்லாஹ்நாடினால் நாங்களும் உங்களுடன் சேரக் கூடியவர்களே.',
+    transliterationTamil: 'அஸ்ஸலாமு அலைக்கும் தார கவ்மின் முஃமினீன், வஇன்னா இன்ஷா அல்லாஹு பிக்கும் லாஹிகூன்',
+    source: 'ஸஹீஹ் முஸ்லிம் 249',
     keywords: ['கப்ருகளை', 'கப்ரு']
   },
   'after-wudu': {
     name: 'உளூச் செய்து முடித்த பின்',
     arabic: 'أَشْهَدُ أَنْ لاَ إِلَهَ إِلاَّ اللهُ وَأَنَّ مُحَمَّدًا عَبْدُ اللهِ وَرَسُوْلُهُ',
     translationTamil: 'வணக்கத்திற்குரியவன் அல்லாஹ்வைத் தவிர யாருமில்லை என்றும் முஹம்மது (ஸல்) அவர்கள் அல்லாஹ்வின் அடியார் என்றும் அவனது தூதர் என்றும் உறுதியாகநம்புகிறேன்.',
+    transliterationTamil: 'அஷ்ஹது அன் லா இலாஹ இல்லல்லாஹு, வஅன்ன முஹம்மதன் அப்துல்லாஹி வரஸூலுஹு',
+    source: 'ஸஹீஹ் முஸ்லிம் 234',
     keywords: ['உளூச்', 'உளூ']
   },
   'after-adhan': {
     name: 'பாங்கு முடிந்தவுடன்',
     arabic: 'اَللّهُمَّ رَبَّ هَذِهِ الدَّعْوَةِ التَّامَّةِ وَالصَّلاَةِ الْقَائِمَةِ آتِ مُحَمَّدًا اَلْوَسِيْلَةَ وَالْفَضِيْلَةَ وَابْعَثْهُ مَقَامًا مَحْمُودًا الَّذِيْ وَعَدْتَهُ',
     translationTamil: 'இறைவா! இந்த முழுமையான அழைப்பிற்கும், நிலையான தொழுகைக்கும்சொந்தக்காரனே! முஹம்மத் (ஸல்) அவர்களுக்கு வஸீலா எனும் பதவியினையும், சிறப்பையும் வழங்குவாயாக! நீஅவர்களுக்காக வாக்களித்த புகழப்பட்ட இடத்தில் அவர்களை எழுப்புவாயாக!',
+    transliterationTamil: 'அல்லாஹும்ம ரப்ப ஹாதிஹித் தஃவதித் தாம்மா, வஸ்ஸலாதில் காஇமா, ஆதி முஹம்மதனில் வஸீலத்த வல்ஃபளீலா, வப்அஸ்ஹு மகாமம் மஹ்மூதனில்லதீ வஅத்தஹு',
+    source: 'ஸஹீஹ் புகாரி 614',
     keywords: ['பாங்கு']
   }
 };
 
 export const quizQuestions: QuizQuestion[] = [
-  { question: "நபி முஹம்மது (ஸல்) அவர்களின் தந்தை பெயர் என்ன?", options: ["அப்துல்லா", "அபூ தாலிப்", "ஹாம்ஸா", "அபூ பக்கர்"], correctAnswer: 0 },
-  { question: "நபி முஹம்மது (ஸல்) அவர்கள் பிறந்த ஆண்டு?", options: ["யானை ஆண்டு", "வெள்ளாண்டு", "ஹிஜ்ரா ஆண்டு", "மக்கா ஆண்டு"], correctAnswer: 0 },
-  { question: "முஸ்லிம்கள் நோன்பு நோற்கும் மாதம் எது?", options: ["ரஜப்", "ரமழான்", "ஷவ்வால்", "துல்ஹஜ்"], correctAnswer: 1 },
-  { question: "ஒரு முஸ்லிம் மரணித்தால் எந்த வழிபாடு செய்யப்படுகிறது?", options: ["நிக்காஹ்", "ஜனாஸா", "கியாம்", "தஸ்பீஹ்"], correctAnswer: 1 },
-  { question: "நபி (ஸல்) அவர்களின் சொற்கள் எவ்வாறு அழைக்கப்படுகின்றன?", options: ["ஹதீஸ்", "சூரா", "தஸ்பீஹ்", "தஃப்ஸீர்"], correctAnswer: 0 },
-  { question: "நபி தோழர்களில் குர்ஆனை யார் முதலில் முழுமையாக மனனமிட்டவர்?", options: ["அபூ பக்கர் (ரலி)", "உஸ்மான் (ரலி)", "அப்துல்லாஹ் இப்னு மஸ்ஊத் (ரலி)", "உமர் (ரலி)"], correctAnswer: 2 },
-  { question: "குர்ஆனில் “ஆயத்துல் குர்சி” எந்த சூராவில் உள்ளது?", options: ["அல்-இம்ரான்", "அல்-பகரா", "அல்-நிஸா", "அல்-மாயிதா"], correctAnswer: 1 },
-  { question: "குர்ஆனின் பொருள் என்ன?", options: ["அறிவு", "எழுதுதல்", "பிரார்த்தனை", "வாசித்தல்"], correctAnswer: 3 },
-  { question: "குர்ஆனில் “அல்-கஹ்ஃப்” சூராவின் முதல் 10 வசனங்களை மனனம் செய்வது எதிலிருந்து பாதுகாப்பு?", options: ["தஜ்ஜாலிடமிருந்து பாதுகாப்பு", "ஷைய்தானிடமிருந்து பாதுகாப்பு", "நரகத்திலிருந்து பாதுகாப்பு", "கண்ணிலிருந்து பாதுகாப்பு"], correctAnswer: 0 },
-  { question: "குர்ஆனில் “அல்-இக்லாஸ்” சூரா எதைப் பற்றி பேசுகிறது?", options: ["தொழுகை", "ஓரிறை கொள்கை - ஏகத்துவம்", "ஹஜ்", "நம்பிக்கை"], correctAnswer: 1 },
-  { question: "முஃமின்களுக்கு உதாரணமாக அல்லாஹ் இரண்டு பெண்களை கூறுகிறான், அவர்கள் யார்?", options: ["ஆயிஷா (ரழி) / ஃபாத்திமா (ரழி)", "மர்யம் (அலை) / ஆஸியா (ரழி)", "மூஸா நபி தாய் / ஈஸா நபி தாய்", "ஹப்சா (ரழி) / ஹதீஜா (ரழி)"], correctAnswer: 1 },
-  { question: "காஃபிர்களுக்கு உதாரணமாக அல்லாஹ் இரண்டு பெண்களை கூறுகிறான், அவர்கள் யார்?", options: ["அபூலஹப் மனைவி / உத்பா மனைவி", "அபூ ஜஹ்ல் மனைவி / ஷைபா மனைவி", "லூத் (அலை) மனைவி / நூஹ் (நபி) மனைவி", "மூஸைலமா மனைவி / அபூ தாலிப் மனைவி"], correctAnswer: 2 },
-  { question: "குர்ஆனில் மூன்றில் ஒரு பகுதி என சிறப்பித்துக் கூறப்பட்ட சூரா எது?", options: ["சூரத்துல் இக்லாஸ்", "சூரத்துல் பலக்", "சூரத்துல் அஸ்ர்", "சூரத்துல் நாஸ்"], correctAnswer: 0 },
-  { question: "அபூஜஹ்லின் மகன் பெயர் என்ன?", options: ["முஸ்அப் (ரழி)", "ஹம்சா (ரழி)", "இக்ரிமா (ரழி)", "முஆத் (ரழி)"], correctAnswer: 2 },
-  { question: "அகழ்ப் போரில் அகழ் வெட்டும் யோசனையை அளித்தவர் யார்?", options: ["அப்துர் ரஹ்மான் பின் அவ்ஃப் (ரழி)", "முஆத் பின் ஜபல் (ரழி)", "சல்மானுல் பாரிஸீ (ரழி)", "அபூ உபைதா அல் ஜர்ராஹ் (ரழி)"], correctAnswer: 2 },
-  { question: "பிலால் (ரலி) அவர்களை அடிமைத் தனத்திலிருந்து மீட்டவர் யார்?", options: ["அலி (ரழி)", "உமர் (ரழி)", "உஸ்மான் (ரழி)", "அபு பக்கர் (ரழி)"], correctAnswer: 3 },
-  { question: "ஒரு நற்செயலை செய்தால் எத்தனை மடங்கு நன்மை உண்டு என்று குர்ஆன் கூறுகிறது?", options: ["100 மடங்கு நன்மை", "1 மடங்கு நன்மை", "10 மடங்கு நன்மை", "2 மடங்கு நன்மை"], correctAnswer: 2 },
-  { question: "இஸ்லாமிய வரலாற்றில் முதல் பெண் உயிர் தியாகி யார்?", options: ["அன்னை கதீஜா (ரழி)", "அன்னை அஸ்மா (ரழி)", "அன்னை உம்மு ஸலமா (ரழி)", "அன்னை சுமையா (ரழி)"], correctAnswer: 3 },
-  { question: "ரூஹூல் அமீன் என்பது யாருடைய பெயர்?", options: ["ஜீப்ரீல் (அலை)", "மீகாஈல் (அலை)", "மூஸா (அலை)", "ஈஸா (அலை)"], correctAnswer: 0 },
+  { question: "நபி முஹம்மது (ஸல்) அவர்களின் தந்தை பெயர் என்ன?", options: ["அப்துல்லா", "அபூ தாலிப்", "ஹாம்ஸா", "அபூ பக்கர்"], correctAnswer: 0, category: "seerah", difficulty: "easy", explanation: "நபி (ஸல்) அவர்களின் தந்தை அப்துல்லாஹ். நபி (ஸல்) பிறப்பதற்கு முன்பே அவர் மரணித்துவிட்டார்." },
+  { question: "நபி முஹம்மது (ஸல்) அவர்கள் பிறந்த ஆண்டு?", options: ["யானை ஆண்டு", "வெள்ளாண்டு", "ஹிஜ்ரா ஆண்டு", "மக்கா ஆண்டு"], correctAnswer: 0, category: "seerah", difficulty: "medium", explanation: "ஆப்ரஹாவின் யானைப் படை கஃபாவைத் தாக்க வந்த ஆண்டில் நபி (ஸல்) பிறந்தார்கள். அதனால் அது யானை ஆண்டு எனப்படுகிறது.", reference: "சூரா அல்-ஃபீல் (105)" },
+  { question: "முஸ்லிம்கள் நோன்பு நோற்கும் மாதம் எது?", options: ["ரஜப்", "ரமழான்", "ஷவ்வால்", "துல்ஹஜ்"], correctAnswer: 1, category: "fiqh", difficulty: "easy", explanation: "ரமழான் மாதத்தில் நோன்பு நோற்பது கடமை. இந்த மாதத்தில்தான் குர்ஆன் இறக்கப்பட்டது.", reference: "அல்-பகரா 2:183-185" },
+  { question: "ஒரு முஸ்லிம் மரணித்தால் எந்த வழிபாடு செய்யப்படுகிறது?", options: ["நிக்காஹ்", "ஜனாஸா", "கியாம்", "தஸ்பீஹ்"], correctAnswer: 1, category: "fiqh", difficulty: "easy", explanation: "மரணித்தவருக்காக ஜனாஸா தொழுகை தொழப்படுகிறது. அவருக்காக அல்லாஹ்விடம் மன்னிப்புக் கேட்கிறோம்." },
+  { question: "நபி (ஸல்) அவர்களின் சொற்கள் எவ்வாறு அழைக்கப்படுகின்றன?", options: ["ஹதீஸ்", "சூரா", "தஸ்பீஹ்", "தஃப்ஸீர்"], correctAnswer: 0, category: "seerah", difficulty: "easy", explanation: "நபி (ஸல்) அவர்களின் சொல், செயல், அங்கீகாரம் ஆகியவை ஹதீஸ் எனப்படும்." },
+  { question: "நபி தோழர்களில் குர்ஆனை யார் முதலில் முழுமையாக மனனமிட்டவர்?", options: ["அபூ பக்கர் (ரலி)", "உஸ்மான் (ரலி)", "அப்துல்லாஹ் இப்னு மஸ்ஊத் (ரலி)", "உமர் (ரலி)"], correctAnswer: 2, category: "quran", difficulty: "hard", explanation: "அப்துல்லாஹ் இப்னு மஸ்ஊத் (ரலி) குர்ஆனை நபி (ஸல்) அவர்களிடமிருந்து நேரடியாகக் கேட்டு மனனமிட்டவர்களில் முதன்மையானவர்." },
+  { question: "குர்ஆனில் “ஆயத்துல் குர்சி” எந்த சூராவில் உள்ளது?", options: ["அல்-இம்ரான்", "அல்-பகரா", "அல்-நிஸா", "அல்-மாயிதா"], correctAnswer: 1, category: "quran", difficulty: "medium", explanation: "ஆயத்துல் குர்சி அல்-பகரா சூராவின் 255வது வசனம். இது குர்ஆனின் மிகச் சிறந்த வசனம் ஆகும்.", reference: "அல்-பகரா 2:255" },
+  { question: "குர்ஆனின் பொருள் என்ன?", options: ["அறிவு", "எழுதுதல்", "பிரார்த்தனை", "வாசித்தல்"], correctAnswer: 3, category: "quran", difficulty: "medium", explanation: "குர்ஆன் என்றால் ஓதப்படுவது, வாசிக்கப்படுவது என்று பொருள். முதலில் இறங்கிய வசனமும் 'ஓதுவீராக' என்றே தொடங்குகிறது.", reference: "அல்-அலக் 96:1" },
+  { question: "குர்ஆனில் “அல்-கஹ்ஃப்” சூராவின் முதல் 10 வசனங்களை மனனம் செய்வது எதிலிருந்து பாதுகாப்பு?", options: ["தஜ்ஜாலிடமிருந்து பாதுகாப்பு", "ஷைய்தானிடமிருந்து பாதுகாப்பு", "நரகத்திலிருந்து பாதுகாப்பு", "கண்ணிலிருந்து பாதுகாப்பு"], correctAnswer: 0, category: "quran", difficulty: "hard", explanation: "அல்-கஹ்ஃப் சூராவின் முதல் பத்து வசனங்களை மனனம் செய்தவர் தஜ்ஜாலின் குழப்பத்திலிருந்து பாதுகாக்கப்படுவார்.", reference: "ஸஹீஹ் முஸ்லிம் 809" },
+  { question: "குர்ஆனில் “அல்-இக்லாஸ்” சூரா எதைப் பற்றி பேசுகிறது?", options: ["தொழுகை", "ஓரிறை கொள்கை - ஏகத்துவம்", "ஹஜ்", "நம்பிக்கை"], correctAnswer: 1, category: "quran", difficulty: "easy", explanation: "அல்-இக்லாஸ் சூரா அல்லாஹ் ஒருவனே, அவனுக்கு இணை யாருமில்லை என்ற ஏகத்துவத்தைக் கூறுகிறது.", reference: "அல்-இக்லாஸ் 112" },
+  { question: "முஃமின்களுக்கு உதாரணமாக அல்லாஹ் இரண்டு பெண்களை கூறுகிறான், அவர்கள் யார்?", options: ["ஆயிஷா (ரழி) / ஃபாத்திமா (ரழி)", "மர்யம் (அலை) / ஆஸியா (ரழி)", "மூஸா நபி தாய் / ஈஸா நபி தாய்", "ஹப்சா (ரழி) / ஹதீஜா (ரழி)"], correctAnswer: 1, category: "quran", difficulty: "hard", explanation: "மர்யம் (அலை) அவர்களையும் ஃபிர்அவ்னின் மனைவி ஆஸியா (ரழி) அவர்களையும் அல்லாஹ் முஃமின்களுக்கு உதாரணமாகக் கூறுகிறான்.", reference: "அத்-தஹ்ரீம் 66:11-12" },
+  { question: "காஃபிர்களுக்கு உதாரணமாக அல்லாஹ் இரண்டு பெண்களை கூறுகிறான், அவர்கள் யார்?", options: ["அபூலஹப் மனைவி / உத்பா மனைவி", "அபூ ஜஹ்ல் மனைவி / ஷைபா மனைவி", "லூத் (அலை) மனைவி / நூஹ் (நபி) மனைவி", "மூஸைலமா மனைவி / அபூ தாலிப் மனைவி"], correctAnswer: 2, category: "quran", difficulty: "hard", explanation: "நபிமார்களின் மனைவிகளாக இருந்தும் அவர்களை ஏற்காத நூஹ் (அலை), லூத் (அலை) ஆகியோரின் மனைவிகளை அல்லாஹ் உதாரணமாகக் கூறுகிறான்.", reference: "அத்-தஹ்ரீம் 66:10" },
+  { question: "குர்ஆனில் மூன்றில் ஒரு பகுதி என சிறப்பித்துக் கூறப்பட்ட சூரா எது?", options: ["சூரத்துல் இக்லாஸ்", "சூரத்துல் பலக்", "சூரத்துல் அஸ்ர்", "சூரத்துல் நாஸ்"], correctAnswer: 0, category: "quran", difficulty: "medium", explanation: "சூரத்துல் இக்லாஸ் குர்ஆனின் மூன்றில் ஒரு பகுதிக்குச் சமம் என்று நபி (ஸல்) கூறினார்கள்.", reference: "ஸஹீஹ் புகாரி 5013" },
+  { question: "அபூஜஹ்லின் மகன் பெயர் என்ன?", options: ["முஸ்அப் (ரழி)", "ஹம்சா (ரழி)", "இக்ரிமா (ரழி)", "முஆத் (ரழி)"], correctAnswer: 2, category: "seerah", difficulty: "hard", explanation: "அபூஜஹ்லின் மகன் இக்ரிமா (ரழி) மக்கா வெற்றிக்குப் பின் இஸ்லாத்தை ஏற்றுக்கொண்டார்." },
+  { question: "அகழ்ப் போரில் அகழ் வெட்டும் யோசனையை அளித்தவர் யார்?", options: ["அப்துர் ரஹ்மான் பின் அவ்ஃப் (ரழி)", "முஆத் பின் ஜபல் (ரழி)", "சல்மானுல் பாரிஸீ (ரழி)", "அபூ உபைதா அல் ஜர்ராஹ் (ரழி)"], correctAnswer: 2, category: "seerah", difficulty: "medium", explanation: "மதீனாவைப் பாதுகாக்க அகழ் வெட்டும் யோசனையை பாரசீகத்தைச் சேர்ந்த சல்மானுல் பாரிஸீ (ரழி) கூறினார்." },
+  { question: "பிலால் (ரலி) அவர்களை அடிமைத் தனத்திலிருந்து மீட்டவர் யார்?", options: ["அலி (ரழி)", "உமர் (ரழி)", "உஸ்மான் (ரழி)", "அபு பக்கர் (ரழி)"], correctAnswer: 3, category: "seerah", difficulty: "easy", explanation: "அபூ பக்கர் (ரழி) பிலால் (ரழி) அவர்களை விலைக்கு வாங்கி அடிமைத் தனத்திலிருந்து விடுவித்தார்." },
+  { question: "ஒரு நற்செயலை செய்தால் எத்தனை மடங்கு நன்மை உண்டு என்று குர்ஆன் கூறுகிறது?", options: ["100 மடங்கு நன்மை", "1 மடங்கு நன்மை", "10 மடங்கு நன்மை", "2 மடங்கு நன்மை"], correctAnswer: 2, category: "quran", difficulty: "medium", explanation: "ஒரு நற்செயலைச் செய்பவருக்கு அதைப் போன்று பத்து மடங்கு நன்மை உண்டு என்று அல்லாஹ் கூறுகிறான்.", reference: "அல்-அன்ஆம் 6:160" },
+  { question: "இஸ்லாமிய வரலாற்றில் முதல் பெண் உயிர் தியாகி யார்?", options: ["அன்னை கதீஜா (ரழி)", "அன்னை அஸ்மா (ரழி)", "அன்னை உம்மு ஸலமா (ரழி)", "அன்னை சுமையா (ரழி)"], correctAnswer: 3, category: "seerah", difficulty: "hard", explanation: "அம்மார் (ரழி) அவர்களின் தாய் சுமையா (ரழி) இஸ்லாத்திற்காக உயிர் நீத்த முதல் பெண் ஆவார்." },
+  { question: "ரூஹூல் அமீன் என்பது யாருடைய பெயர்?", options: ["ஜீப்ரீல் (அலை)", "மீகாஈல் (அலை)", "மூஸா (அலை)", "ஈஸா (அலை)"], correctAnswer: 0, category: "quran", difficulty: "medium", explanation: "நம்பிக்கைக்குரிய ரூஹ் என்று பொருள்படும் ரூஹுல் அமீன் ஜிப்ரீல் (அலை) அவர்களின் பெயர். அவர்களே குர்ஆனைக் கொண்டு வந்தார்கள்.", reference: "அஷ்-ஷுஅரா 26:193" },
+  { question: "ஒரு நாளில் கடமையான தொழுகைகள் எத்தனை?", options: ["மூன்று", "நான்கு", "ஐந்து", "ஆறு"], correctAnswer: 2, category: "fiqh", difficulty: "easy", explanation: "ஃபஜ்ர், ளுஹர், அஸ்ர், மஃக்ரிப், இஷா ஆகிய ஐந்து தொழுகைகள் ஒவ்வொரு நாளும் கடமையாகும்." },
+  { question: "இஸ்லாத்தின் கடமைகள் எத்தனை?", options: ["மூன்று", "ஐந்து", "ஏழு", "பத்து"], correctAnswer: 1, category: "fiqh", difficulty: "easy", explanation: "கலிமா, தொழுகை, ஸகாத், நோன்பு, ஹஜ் ஆகிய ஐந்தின் மீது இஸ்லாம் கட்டப்பட்டுள்ளது.", reference: "ஸஹீஹ் புகாரி 8" },
+  { question: "ஹஜ் எந்த மாதத்தில் நிறைவேற்றப்படுகிறது?", options: ["ரமழான்", "முஹர்ரம்", "துல்ஹஜ்", "ரஜப்"], correctAnswer: 2, category: "fiqh", difficulty: "medium", explanation: "ஹஜ் துல்ஹஜ் மாதத்தின் எட்டாம் நாள் முதல் பதின்மூன்றாம் நாள் வரை நிறைவேற்றப்படுகிறது." },
+  { question: "பள்ளிவாசலுக்குள் நுழையும் போது அல்லாஹ்விடம் எதன் வாசல்களைத் திறக்கக் கேட்கிறோம்?", options: ["அருளின் வாசல்கள்", "செல்வத்தின் வாசல்கள்", "அறிவின் வாசல்கள்", "வீட்டின் வாசல்கள்"], correctAnswer: 0, category: "duas", difficulty: "easy", explanation: "'அல்லாஹும்மஃப்தஹ் லீ அப்வாப ரஹ்மதிக்க' என்றால் இறைவா, உன் அருளின் வாசல்களை எனக்குத் திறப்பாயாக என்று பொருள்.", reference: "ஸஹீஹ் முஸ்லிம் 713" },
+  { question: "இழப்பு ஏற்படும் போது கூற வேண்டியது எது?", options: ["இன்னா லில்லாஹி வஇன்னா இலைஹி ராஜிஊன்", "அல்ஹம்துலில்லாஹ்", "ஸுப்ஹானல்லாஹ்", "மாஷா அல்லாஹ்"], correctAnswer: 0, category: "duas", difficulty: "easy", explanation: "நாம் அல்லாஹ்வுக்கே உரியவர்கள், அவனிடமே திரும்புவோம் என்பது இதன் பொருள்.", reference: "ஸஹீஹ் முஸ்லிம் 918" },
+  { question: "உளூச் செய்து முடித்த பின் எதைக் கூறுகிறோம்?", options: ["கலிமா ஷஹாதா", "தக்பீர்", "ஸலாம்", "ஆமீன்"], correctAnswer: 0, category: "duas", difficulty: "medium", explanation: "உளூவுக்குப் பின் 'அஷ்ஹது அன் லா இலாஹ இல்லல்லாஹு' என்று சாட்சி கூறுபவருக்கு சுவர்க்கத்தின் எட்டு வாசல்களும் திறக்கப்படும்.", reference: "ஸஹீஹ் முஸ்லிம் 234" },
+  { question: "சபையை முடிக்கும் போது ஓதும் துஆ எதற்காக?", options: ["சபையில் நடந்த தவறுகள் மன்னிக்கப்பட", "உணவு கிடைக்க", "மழை பெய்ய", "பயணம் பாதுகாப்பாக அமைய"], correctAnswer: 0, category: "duas", difficulty: "medium", explanation: "கஃப்பாரதுல் மஜ்லிஸ் எனப்படும் இந்த துஆ, சபையில் நடந்த தவறுகளுக்குப் பரிகாரமாகும்.", reference: "ஜாமிஉத் திர்மிதீ 3433" },
+  { question: "பாங்கு முடிந்தவுடன் ஓதும் துஆவில் நபி (ஸல்) அவர்களுக்காக எதைக் கேட்கிறோம்?", options: ["வஸீலா", "செல்வம்", "நீண்ட ஆயுள்", "வெற்றி"], correctAnswer: 0, category: "duas", difficulty: "hard", explanation: "வஸீலா எனும் சுவர்க்கத்தின் உயர்ந்த இடத்தை நபி (ஸல்) அவர்களுக்குக் கேட்கிறோம். இதை ஓதுபவருக்கு மறுமையில் நபியின் பரிந்துரை கிடைக்கும்.", reference: "ஸஹீஹ் புகாரி 614" },
 ];
+
+export const quizCategories: QuizCategory[] = ['seerah', 'quran', 'fiqh', 'duas'];
+
+export const quizDifficulties: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Questions asked in one quiz session.
+export const QUIZ_SESSION_LENGTH = 5;
+
+// Attempts (hearts) a visitor has for each question.
+export const QUIZ_ATTEMPTS = 3;
@@ -0,0 +1,147 @@
+import { Dua } from './types';
+import { duaDatabase } from './constants';
+import { phoneticKey, similarity } from './surah-resolver';
+
+// Ranks duas against a spoken request. Each dua is indexed by its Tamil name,
+// keywords and meaning plus the English and romanised words visitors use, so
+// "dua before sleeping", "thoongum dua" and "தூங்கும் முன் துஆ" all find the same
+// one. Words shared by many duas count for less than words only one dua has.
+
+export interface DuaCandidate {
+  // Key into duaDatabase.
+  key: string;
+  dua: Dua;
+  // 0..1, 1 being an exact keyword or phrase match.
+  score: number;
+  // The transcript words that matched.
+  matched: string[];
+}
+
+// English and romanised Tamil/Arabic words per dua. Phrases of more than one word
+// must appear as they are; single words are matched like the Tamil keywords.
+export const DUA_SYNONYMS: Record<string, string[]> = {
+  'sleeping': ['sleep', 'sleeping', 'bed', 'bedtime', 'night', 'before sleeping', 'going to sleep', 'thoongum', 'thookam'],
+  'gathering': ['gathering', 'meeting', 'assembly', 'majlis', 'sabai', 'end of a gathering', 'kaffaratul majlis'],
+  'entering-mosque': ['mosque', 'masjid', 'entering', 'pallivasal', 'palli', 'entering the mosque', 'enter the mosque'],
+  'for-provider': ['food', 'host', 'meal', 'provider', 'unavu', 'after eating', 'for the host'],
+  'visiting-sick': ['visit', 'visiting', 'sick', 'ill', 'illness', 'patient', 'hospital', 'noyali', 'visiting the sick', 'visiting a patient'],
+  'loss': ['loss', 'lost', 'calamity', 'misfortune', 'death', 'izhappu', 'inna lillahi'],
+  'storm': ['storm', 'wind', 'windy', 'puyal', 'strong wind'],
+  'visiting-graves': ['visit', 'visiting', 'grave', 'graves', 'graveyard', 'cemetery', 'kabr', 'qabr', 'kabru', 'ziyarat', 'visiting the graves'],
+  'after-wudu': ['wudu', 'wudhu', 'wuzu', 'ablution', 'ulu', 'oolu', 'after wudu', 'after ablution'],
+  'after-adhan': ['adhan', 'azan', 'athan', 'bangu', 'baangu', 'call to prayer', 'after adhan', 'after the azan'],
+};
+
+// Words that ask for a dua rather than name one.
+const FILLER_WORDS = [
+  'dua', 'duaa', 'doa', 'prayer', 'play', 'recite', 'read', 'say', 'please', 'the', 'a', 'an', 'of', 'for', 'when', 'to', 'me',
+  'துஆ', 'துவா', 'ஓது', 'ஓதுங்கள்', 'ஓதவும்', 'சொல்லுங்கள்', 'கேட்க', 'வேண்டும்', 'தயவுசெய்து',
+];
+
+// How much a word counts, before it is scaled by how many duas share it.
+const WEIGHTS = { keyword: 0.9, name: 0.7, meaning: 0.5 };
+const MIN_WORD_LENGTH = 3;
+
+// Close to the top score, a second dua is read out as an alternative.
+export const DUA_AMBIGUITY_MARGIN = 0.1;
+
+// ---- Index ---------------------------------------------------------------
+
+interface IndexedWord {
+  plain: string;
+  key: string;
+  weight: number;
+}
+
+interface IndexedDua {
+  key: string;
+  dua: Dua;
+  words: IndexedWord[];
+  phrases: string[];
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().normalize('NFC').replace(/[.,?!;:'"()-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const wordsOf = (text: string) =>
+  normalize(text).split(' ').filter(word => word.length >= MIN_WORD_LENGTH && !FILLER_WORDS.includes(word));
+
+let index: Map<Dua, IndexedDua> | null = null;
+
+const buildIndex = () => {
+  const entries = Object.entries(duaDatabase).map(([key, dua]) => {
+    const synonyms = DUA_SYNONYMS[key] ?? [];
+    const weighted = new Map<string, number>();
+    const add = (words: string[], weight: number) =>
+      words.forEach(word => weighted.set(word, Math.max(weighted.get(word) ?? 0, weight)));
+    add(wordsOf(dua.translationTamil), WEIGHTS.meaning);
+    add(wordsOf(dua.name), WEIGHTS.name);
+    add([...dua.keywords, ...synonyms.filter(s => !s.includes(' '))].map(normalize), WEIGHTS.keyword);
+    return { key, dua, weighted, phrases: synonyms.filter(s => s.includes(' ')).map(normalize) };
+  });
+
+  // A word in every dua tells them apart no better than no word at all.
+  const count = entries.length;
+  const documentFrequency = new Map<string, number>();
+  entries.forEach(({ weighted }) => weighted.forEach((_, word) =>
+    documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1)
+  ));
+  const rarity = (word: string) => Math.log(1 + count / documentFrequency.get(word)!) / Math.log(1 + count);
+
+  return new Map(entries.map(({ key, dua, weighted, phrases }) => [dua, {
+    key,
+    dua,
+    phrases,
+    words: [...weighted].map(([plain, weight]) => ({ plain, key: phoneticKey(plain), weight: weight * rarity(plain) })),
+  }]));
+};
+
+// ---- Ranking -------------------------------------------------------------
+
+// How well one spoken word matches one indexed word, 0..1. Tamil case endings are
+// tolerated ("தூங்குவதற்கு" for "தூங்கும்"), as are small mishearings.
+const matchWord = (spoken: string, spokenKey: string, word: IndexedWord): number => {
+  if (spoken === word.plain) return 1;
+  const [shorter, longer] = spoken.length < word.plain.length ? [spoken, word.plain] : [word.plain, spoken];
+  let common = 0;
+  while (common < shorter.length && shorter[common] === longer[common]) common++;
+  if (common >= 4 && common >= longer.length * 0.5) return 0.85;
+  if (spokenKey.length < 4 || word.key.length < 4) return 0;
+  const alike = similarity(spokenKey, word.key);
+  return alike >= 0.8 ? alike * 0.8 : 0;
+};
+
+const scoreDua = (text: string, spoken: { word: string; key: string }[], entry: IndexedDua) => {
+  const matched: string[] = [];
+  // Each matching word makes the dua likelier; together they approach, never pass, 1.
+  let miss = 1;
+  for (const phrase of entry.phrases) {
+    if (text.includes(phrase)) {
+      miss = 0;
+      matched.push(phrase);
+    }
+  }
+  for (const { word, key } of spoken) {
+    const best = Math.max(0, ...entry.words.map(indexed => matchWord(word, key, indexed) * indexed.weight));
+    if (best > 0) {
+      miss *= 1 - best;
+      matched.push(word);
+    }
+  }
+  return { score: 1 - miss, matched };
+};
+
+export const searchDuas = (transcript: string, duas: Dua[] = Object.values(duaDatabase), limit: number = 3): DuaCandidate[] => {
+  index ??= buildIndex();
+  const text = normalize(transcript);
+  const spoken = wordsOf(transcript).map(word => ({ word, key: phoneticKey(word) }));
+
+  return duas
+    .map(dua => index!.get(dua))
+    .filter((entry): entry is IndexedDua => !!entry)
+    .map(entry => ({ key: entry.key, dua: entry.dua, ...scoreDua(text, spoken, entry) }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(candidate => ({ ...candidate, score: Math.round(candidate.score * 100) / 100 }));
+};
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createHandsFreeListener } from './hands-free';
+import { CATALOGS, Locale } from './i18n';
+import { Recognizer } from './recognizer';
+
+// A recogniser the test speaks into, and Siddiqa's voice switched on and off by hand.
+const fake = vi.hoisted(() => ({
+  recognizer: null as Recognizer | null,
+  speaking: false,
+  utterance: '',
+  speakingListener: null as ((speaking: boolean) => void) | null,
+}));
+
+vi.mock('./recognizer', () => ({
+  createRecognizer: () => {
+    fake.recognizer = {
+      lang: '', continuous: false, maxAlternatives: 1,
+      start: () => {}, stop: () => {}, abort: () => {},
+      onresult: null, onerror: null, onend: null,
+    };
+    return fake.recognizer;
+  },
+}));
+
+vi.mock('./speech', () => ({
+  speech: {
+    isSpeaking: () => fake.speaking,
+    lastUtterance: () => ({ text: fake.utterance, lang: 'ta' }),
+    onSpeakingChange: (listener: (speaking: boolean) => void) => {
+      fake.speakingListener = listener;
+      return () => { fake.speakingListener = null; };
+    },
+  },
+}));
+
+const hear = (transcript: string) =>
+  fake.recognizer!.onresult!({ resultIndex: 0, results: [{ isFinal: true, alternatives: [{ transcript, confidence: 0.9 }] }] });
+
+const setSpeaking = (speaking: boolean, utterance = fake.utterance) => {
+  fake.utterance = utterance;
+  fake.speaking = speaking;
+  fake.speakingListener?.(speaking);
+};
+
+describe('createHandsFreeListener', () => {
+  let playing: boolean;
+  let onCommand: ReturnType<typeof vi.fn>;
+  let onWakeWindowEnd: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    playing = false;
+    fake.speaking = false;
+    fake.utterance = '';
+    onCommand = vi.fn();
+    onWakeWindowEnd = vi.fn();
+    createHandsFreeListener({ lang: () => 'en-US', wakeWindowSeconds: 8, onCommand, onWakeWindowEnd, isPlaying: () => playing })!.start();
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  const transcripts = () => onCommand.mock.calls.map(([alternatives]) => alternatives[0].transcript);
+
+  it('takes commands with the wake word, and the next phrase after a bare wake word', () => {
+    hear('play yasin');
+    hear('Siddiqa, play yasin');
+    hear('Siddiqa');
+    hear('quiz');
+    expect(transcripts()).toEqual(['play yasin', 'quiz']);
+  });
+
+  it('says when the wake window runs out unanswered', () => {
+    hear('Siddiqa');
+    vi.advanceTimersByTime(9000);
+    hear('quiz');
+    expect(onWakeWindowEnd).toHaveBeenCalledTimes(1);
+    expect(onCommand).not.toHaveBeenCalled();
+
+    hear('Siddiqa');
+    hear('quiz');
+    vi.advanceTimersByTime(9000);
+    expect(onWakeWindowEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('takes only "Siddiqa, stop" while Siddiqa is speaking', () => {
+    setSpeaking(true);
+    hear('Siddiqa');
+    hear('welcome to the exhibition');
+    hear('Siddiqa, play yasin');
+    hear('Siddiqa, stop');
+    expect(transcripts()).toEqual(['stop']);
+  });
+
+  it.each(Object.keys(CATALOGS) as Locale[])('does not take its own %s welcome and choices as commands', locale => {
+    const { welcomeIntro, landingChoices } = CATALOGS[locale].prompts;
+    [welcomeIntro, landingChoices].forEach(text => {
+      setSpeaking(true, text);
+      hear(text);
+      setSpeaking(false);
+      hear(text);
+    });
+    vi.advanceTimersByTime(1000);
+    hear('quiz');
+    expect(onCommand).not.toHaveBeenCalled();
+  });
+
+  it('does not take its own words with "stop" in them as a stop', () => {
+    setSpeaking(true, 'Say "Siddiqa, stop" to end the recitation.');
+    hear('Siddiqa stop to end the recitation');
+    expect(onCommand).not.toHaveBeenCalled();
+  });
+
+  it('treats a playing recitation like Siddiqa speaking, echo included', () => {
+    playing = true;
+    hear('Siddiqa');
+    hear('bismillah ir rahman ir raheem');
+    hear('Siddiqa, stop');
+    playing = false;
+    hear('ya sin');
+    expect(transcripts()).toEqual(['stop']);
+
+    vi.advanceTimersByTime(1000);
+    hear('Siddiqa');
+    hear('quiz');
+    expect(transcripts()).toEqual(['stop', 'quiz']);
+  });
+
+  it('ignores the echo just after Siddiqa stops speaking', () => {
+    setSpeaking(true, 'Say Siddiqa and then your choice.');
+    setSpeaking(false);
+    hear('Siddiqa');
+    hear('Siddiqa, quiz');
+    vi.advanceTimersByTime(1000);
+    hear('Siddiqa');
+    hear('quiz');
+    expect(transcripts()).toEqual(['quiz']);
+  });
+});
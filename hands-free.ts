@@ -0,0 +1,193 @@
+import { speech } from './speech';
+import { normalizeTranscript, parseGlobalCommand, parseWakeWord } from './intents';
+import { createRecognizer, RecognitionAlternative, RecognitionError, RecognitionEvent } from './recognizer';
+
+// Kiosk listening: one continuous recognition session that stays open between
+// commands. A command must start with the wake word, unless the listener has been
+// armed by a bare "Siddiqa" or by a prompt that expects an answer. While the
+// speakers are playing, only "Siddiqa, stop" is taken: Siddiqa says her own name.
+
+export interface HandsFreeOptions {
+  // Recognition language, read each time the session (re)starts.
+  lang: () => string;
+  // Every alternative the recogniser heard, with the wake word taken off.
+  onCommand: (alternatives: RecognitionAlternative[]) => void;
+  // How long a bare "Siddiqa" keeps the listener armed.
+  wakeWindowSeconds: number;
+  // True while the listener is taking commands without the wake word.
+  onArmedChange?: (armed: boolean) => void;
+  // The window opened by arm() ran out before anything was said.
+  onWakeWindowEnd?: () => void;
+  // The mic cannot be used at all, e.g. permission was denied.
+  onFatalError?: (error: string) => void;
+  // True while a recitation is playing, which the mic hears just like Siddiqa's voice.
+  isPlaying?: () => boolean;
+}
+
+export interface HandsFreeListener {
+  start: () => void;
+  stop: () => void;
+  arm: (seconds: number) => void;
+  disarm: () => void;
+}
+
+// Siddiqa's voice or a recitation can still be arriving from the speakers just after playback ends.
+const ECHO_TAIL_MS = 700;
+// Share of the heard words that must come from Siddiqa's utterance for it to count as her echo.
+const ECHO_WORD_SHARE = 0.6;
+const RESTART_DELAY_MS = 250;
+const MAX_RESTART_DELAY_MS = 10_000;
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture'];
+
+export const createHandsFreeListener = (options: HandsFreeOptions): HandsFreeListener | null => {
+  const recognition = createRecognizer();
+  if (!recognition) return null;
+  recognition.continuous = true;
+
+  let running = false;
+  let active = false;
+  let restartDelay = RESTART_DELAY_MS;
+  let restartTimer: ReturnType<typeof setTimeout> | null = null;
+  let armTimer: ReturnType<typeof setTimeout> | null = null;
+  let armed = false;
+  let quietSince = 0;
+  let playingSince = 0;
+  // What Siddiqa said when she started speaking; lastUtterance may already be a queued one.
+  let spokenText = '';
+  let unsubscribe = () => {};
+
+  // The speakers are on, or were a moment ago.
+  const isSpeakerBusy = () => {
+    if (options.isPlaying?.()) playingSince = Date.now();
+    return Date.now() - Math.max(quietSince, playingSince) < ECHO_TAIL_MS;
+  };
+
+  const isEcho = (transcript: string) => {
+    const heard = normalizeTranscript(transcript).split(' ').filter(Boolean);
+    if (!heard.length) return false;
+    return [spokenText, speech.lastUtterance()?.text ?? ''].some(text => {
+      const said = new Set(normalizeTranscript(text).split(' '));
+      return heard.filter(word => said.has(word)).length / heard.length >= ECHO_WORD_SHARE;
+    });
+  };
+
+  const setArmed = (value: boolean) => {
+    if (armTimer) {
+      clearTimeout(armTimer);
+      armTimer = null;
+    }
+    if (armed === value) return;
+    armed = value;
+    options.onArmedChange?.(value);
+  };
+
+  const arm = (seconds: number) => {
+    setArmed(true);
+    armTimer = setTimeout(() => {
+      setArmed(false);
+      options.onWakeWindowEnd?.();
+    }, seconds * 1000);
+  };
+
+  const open = () => {
+    restartTimer = null;
+    if (!running || active) return;
+    recognition.lang = options.lang();
+    try {
+      recognition.start();
+      active = true;
+    } catch (error) {
+      console.warn('Could not start hands-free recognition.', error);
+      scheduleRestart();
+    }
+  };
+
+  const scheduleRestart = () => {
+    if (!running || restartTimer) return;
+    restartTimer = setTimeout(open, restartDelay);
+  };
+
+  recognition.onresult = (event: RecognitionEvent) => {
+    restartDelay = RESTART_DELAY_MS;
+    const speakerBusy = isSpeakerBusy();
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      if (!event.results[i].isFinal) continue;
+      const { alternatives } = event.results[i];
+      if (speakerBusy) {
+        // The mic hears the speakers; only "Siddiqa, stop" can cut them off.
+        const stops = alternatives
+          .filter(alternative => !isEcho(alternative.transcript))
+          .map(alternative => ({ ...alternative, transcript: parseWakeWord(alternative.transcript) }))
+          .filter((alternative): alternative is RecognitionAlternative =>
+            alternative.transcript !== null && parseGlobalCommand(alternative.transcript)?.type === 'stop'
+          );
+        if (stops.length) {
+          setArmed(false);
+          options.onCommand(stops);
+        }
+        continue;
+      }
+      // The wake word may only survive in a lower-ranked guess.
+      const commands = alternatives
+        .map(alternative => ({ ...alternative, transcript: parseWakeWord(alternative.transcript) }))
+        .filter((alternative): alternative is RecognitionAlternative => alternative.transcript !== null);
+      if (!commands.length) {
+        if (!armed) continue;
+        setArmed(false);
+        options.onCommand(alternatives);
+      } else if (commands.every(command => command.transcript === '')) {
+        // Just the wake word: the command follows in the next phrase.
+        arm(options.wakeWindowSeconds);
+      } else {
+        setArmed(false);
+        options.onCommand(commands.filter(command => command.transcript !== ''));
+      }
+    }
+  };
+
+  recognition.onerror = (event: RecognitionError) => {
+    if (FATAL_ERRORS.includes(event.error)) {
+      running = false;
+      setArmed(false);
+      unsubscribe();
+      options.onFatalError?.(event.error);
+      return;
+    }
+    // Back off while the recognition service is unreachable; onend reconnects.
+    if (event.error === 'network') {
+      restartDelay = Math.min(restartDelay * 2, MAX_RESTART_DELAY_MS);
+    }
+  };
+
+  // Chrome ends even continuous sessions after silence or about a minute of audio,
+  // and a local server may drop the socket.
+  recognition.onend = () => {
+    active = false;
+    scheduleRestart();
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      quietSince = speech.isSpeaking() ? Infinity : 0;
+      spokenText = speech.lastUtterance()?.text ?? '';
+      unsubscribe = speech.onSpeakingChange(speaking => {
+        quietSince = speaking ? Infinity : Date.now();
+        if (speaking) spokenText = speech.lastUtterance()?.text ?? '';
+      });
+      open();
+    },
+    stop: () => {
+      if (!running) return;
+      running = false;
+      if (restartTimer) clearTimeout(restartTimer);
+      restartTimer = null;
+      setArmed(false);
+      unsubscribe();
+      recognition.abort();
+    },
+    arm,
+    disarm: () => setArmed(false),
+  };
+};
@@ -0,0 +1,76 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { ta, type Catalog } from './locales/ta';
+import { en } from './locales/en';
+import { ml } from './locales/ml';
+import { ur } from './locales/ur';
+import { getSettings } from './settings';
+
+// The visitor's language: picks the UI text, the voice Siddiqa speaks with and the
+// language the recogniser listens for. Quiz questions and dua meanings stay Tamil.
+
+export type Locale = 'ta' | 'en' | 'ml' | 'ur';
+
+export interface LocaleInfo {
+  // Shown on the language picker, in the language itself.
+  name: string;
+  // How Ask Siddiqa's model is told which language to answer in.
+  englishName: string;
+  // Passed to speak() and the prompt pack.
+  speechLang: string;
+  recognitionLang: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  ta: { name: 'தமிழ்', englishName: 'Tamil', speechLang: 'ta', recognitionLang: 'ta-IN', dir: 'ltr' },
+  en: { name: 'English', englishName: 'English', speechLang: 'en', recognitionLang: 'en-US', dir: 'ltr' },
+  ml: { name: 'മലയാളം', englishName: 'Malayalam', speechLang: 'ml', recognitionLang: 'ml-IN', dir: 'ltr' },
+  ur: { name: 'اردو', englishName: 'Urdu', speechLang: 'ur', recognitionLang: 'ur-PK', dir: 'rtl' },
+};
+
+export const CATALOGS: Record<Locale, Catalog> = { ta, en, ml, ur };
+
+export type MessageKey = keyof Catalog['messages'];
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in LOCALES;
+
+// Where each visitor starts; App switches back to it when a new visitor arrives.
+export const defaultLocale = (): Locale => {
+  const { defaultLocale } = getSettings();
+  return isLocale(defaultLocale) ? defaultLocale : 'ta';
+};
+
+let current: Locale = defaultLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale) => {
+  if (locale === current) return;
+  current = locale;
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useLocale = (): Locale => useSyncExternalStore(subscribe, getLocale);
+
+// Looks up a UI string and fills its {placeholders}.
+export const t = (key: MessageKey, params: Record<string, string | number> = {}, locale: Locale = current): string =>
+  CATALOGS[locale].messages[key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+
+// For components: re-renders on a language change, and `t` only changes with it.
+export const useI18n = () => {
+  const locale = useLocale();
+  return useMemo(() => ({
+    locale,
+    info: LOCALES[locale],
+    t: (key: MessageKey, params?: Record<string, string | number>) => t(key, params, locale),
+  }), [locale]);
+};
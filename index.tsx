@@ -1,12 +1,21 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadPromptPack } from './prompt-pack';
+import { loadQuizBank } from './quiz-bank';
+import { loadLeaderboard } from './leaderboard';
+import { registerServiceWorker } from './offline-cache';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+loadPromptPack();
+loadQuizBank();
+loadLeaderboard();
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
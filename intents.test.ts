@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CONFIRMATION_THRESHOLD, bestIntent, needsConfirmation, parseDuaPlayerCommand, parseGlobalCommand, parseLanding,
+  parseQuizAnswer, parseSurahCommand, parseWakeWord,
+} from './intents';
+
+const RAMADAN_OPTIONS = ['ரஜப்', 'ரமழான்', 'ஷவ்வால்', 'துல்ஹஜ்'];
+
+describe('parseLanding', () => {
+  it.each([
+    ['I want to listen to a surah', 'surah'],
+    ['சூரா கேட்கணும்', 'surah'],
+    ['quiz', 'quizRules'],
+    ['வினாடி வினா விளையாடலாம்', 'quizRules'],
+    ['dua please', 'duaList'],
+    ['துஆ', 'duaList'],
+    ['I want to ask a question', 'ask'],
+    ['கேள்வி கேட்கணும்', 'ask'],
+  ])('"%s" goes to %s', (transcript, screen) => {
+    expect(parseLanding(transcript)).toEqual({ type: 'navigate', screen });
+  });
+
+  it('does not guess', () => {
+    expect(parseLanding('hello there')).toEqual({ type: 'unknown' });
+  });
+});
+
+describe('parseSurahCommand', () => {
+  it('finds the surah by name, number or a near miss', () => {
+    expect(parseSurahCommand('play yasin')).toMatchObject({ type: 'play', surahKey: 'ya-sin', reciterId: null, range: null, repeat: null });
+    expect(parseSurahCommand('surah 36')).toMatchObject({ type: 'play', surahKey: 'ya-sin' });
+    expect(parseSurahCommand('யாசீன்')).toMatchObject({ type: 'play', surahKey: 'ya-sin' });
+    expect(parseSurahCommand('yaseen')).toMatchObject({ type: 'play', surahKey: 'ya-sin' });
+  });
+
+  it('reads the reciter, verse range and repeat count', () => {
+    expect(parseSurahCommand('Yasin by Sudais verses 1 to 5, 3 times')).toMatchObject({
+      type: 'play',
+      surahKey: 'ya-sin',
+      reciterId: 'sudais',
+      range: { from: 1, to: 5 },
+      repeat: 3,
+    });
+  });
+
+  it('does not read the surah number as a range', () => {
+    expect(parseSurahCommand('surah 36 verses 1 to 5')).toMatchObject({ surahKey: 'ya-sin', range: { from: 1, to: 5 } });
+  });
+
+  it('handles a reciter alone, resuming and nonsense', () => {
+    expect(parseSurahCommand('by sudais')).toEqual({ type: 'reciter', reciterId: 'sudais' });
+    expect(parseSurahCommand('continue')).toEqual({ type: 'resume' });
+    expect(parseSurahCommand('')).toEqual({ type: 'unknown' });
+    expect(parseSurahCommand('what time is it')).toEqual({ type: 'unknown' });
+  });
+});
+
+describe('parseDuaPlayerCommand', () => {
+  it.each([
+    ['meaning', 'meaningOnly'],
+    ['repeat the meaning', 'meaningOnly'],
+    ['அர்த்தம் சொல்லுங்கள்', 'meaningOnly'],
+    ['repeat', 'repeat'],
+    ['மீண்டும்', 'repeat'],
+    ['back to the list', 'back'],
+    ['பட்டியல்', 'back'],
+    ['hello', 'unknown'],
+  ])('"%s" is %s', (transcript, type) => {
+    expect(parseDuaPlayerCommand(transcript)).toEqual({ type });
+  });
+});
+
+describe('parseGlobalCommand', () => {
+  it.each([
+    ['Stop', { type: 'stop' }],
+    ['நிறுத்து', { type: 'stop' }],
+    ['go back', { type: 'back' }],
+    ['home', { type: 'home' }],
+    ['say that again please', { type: 'repeatPrompt' }],
+    ['volume up', { type: 'volume', direction: 'up' }],
+    ['சத்தம் குறை', { type: 'volume', direction: 'down' }],
+    ['next surah', { type: 'nextSurah' }],
+  ])('"%s"', (transcript, intent) => {
+    expect(parseGlobalCommand(transcript)).toEqual(intent);
+  });
+
+  it('only takes single words as the whole transcript', () => {
+    expect(parseGlobalCommand('play surah al-baqarah from the back')).toBeNull();
+    expect(parseGlobalCommand("don't stop the recitation")).toBeNull();
+  });
+});
+
+describe('parseWakeWord', () => {
+  it('returns what follows the wake word', () => {
+    expect(parseWakeWord('hey Siddiqa, play yasin')).toBe('play yasin');
+    expect(parseWakeWord('சித்திக்கா')).toBe('');
+    expect(parseWakeWord('play yasin')).toBeNull();
+  });
+});
+
+describe('parseQuizAnswer', () => {
+  it.each([
+    ['option 2', 1],
+    ['option two', 1],
+    ['இரண்டாவது', 1],
+    ['the second one', 1],
+    ['மூன்று', 2],
+    ['four', 3],
+    ['for', 3],
+  ])('"%s" picks option %i by number', (transcript, index) => {
+    expect(parseQuizAnswer(transcript, RAMADAN_OPTIONS)).toEqual({ type: 'answer', index, score: 1 });
+  });
+
+  it('matches the option text, with a case ending', () => {
+    expect(parseQuizAnswer('ரமழான்', RAMADAN_OPTIONS)).toMatchObject({ type: 'answer', index: 1 });
+    expect(parseQuizAnswer('ரமழானில்', RAMADAN_OPTIONS)).toMatchObject({ type: 'answer', index: 1 });
+  });
+
+  it('prefers an option naming the number over its position', () => {
+    const options = ['ஒரு மடங்கு', '2 மடங்கு', '10 மடங்கு', '70 மடங்கு'];
+    expect(parseQuizAnswer('பத்து மடங்கு', options)).toMatchObject({ type: 'answer', index: 2 });
+  });
+
+  it('asks which option when two sound alike', () => {
+    const options = ['அபூபக்கர் (ரலி)', 'உமர் (ரலி)', 'அபூஜஹ்ல்', 'அலீ (ரலி)'];
+    expect(parseQuizAnswer('அபூ', options)).toEqual({ type: 'unclear', indexes: expect.arrayContaining([0, 2]) });
+  });
+
+  it('tells a cut-off answer from one that matches nothing', () => {
+    expect(parseQuizAnswer('option', RAMADAN_OPTIONS)).toEqual({ type: 'incomplete' });
+    expect(parseQuizAnswer('banana', RAMADAN_OPTIONS)).toEqual({ type: 'unknown' });
+    expect(parseQuizAnswer('option 7', RAMADAN_OPTIONS)).toEqual({ type: 'unknown' });
+  });
+
+  it('accepts only numbers when given a count', () => {
+    expect(parseQuizAnswer('two', 3)).toEqual({ type: 'answer', index: 1, score: 1 });
+    expect(parseQuizAnswer('five', 3)).toEqual({ type: 'unknown' });
+  });
+});
+
+describe('bestIntent', () => {
+  it('finds the intent in a lower alternative when the top one means nothing', () => {
+    const match = bestIntent(
+      [
+        { transcript: 'play the scene', confidence: 0.9 },
+        { transcript: 'play yasin', confidence: 0.8 },
+      ],
+      parseSurahCommand
+    );
+    expect(match.intent).toMatchObject({ type: 'play', surahKey: 'ya-sin' });
+    expect(match.transcript).toBe('play yasin');
+  });
+
+  it('weighs the recogniser confidence by the grammar score', () => {
+    const match = bestIntent(
+      [
+        // 0.9 × 0.95 for the near miss is less than 0.88 × 1 for the exact name.
+        { transcript: 'yaseen', confidence: 0.9 },
+        { transcript: 'yasin', confidence: 0.88 },
+      ],
+      parseSurahCommand
+    );
+    expect(match.transcript).toBe('yasin');
+    expect(match.confidence).toBeCloseTo(0.88);
+  });
+
+  it('halves the confidence of unscored alternatives', () => {
+    const match = bestIntent(
+      [
+        { transcript: 'hello', confidence: 0 },
+        { transcript: 'quiz', confidence: 0 },
+      ],
+      parseLanding
+    );
+    expect(match).toEqual({ intent: { type: 'navigate', screen: 'quizRules' }, transcript: 'quiz', confidence: 0.5 });
+  });
+
+  it('takes an unscored best guess as sure, so it is not confirmed', () => {
+    const match = bestIntent([{ transcript: 'play yasin', confidence: 0 }], parseSurahCommand);
+    expect(match.confidence).toBe(1);
+    expect(needsConfirmation(match)).toBe(false);
+  });
+
+  it('returns the top alternative unknown when nothing matches', () => {
+    const match = bestIntent([{ transcript: 'hello', confidence: 0.9 }, { transcript: 'hi', confidence: 0.5 }], parseLanding);
+    expect(match).toEqual({ intent: { type: 'unknown' }, transcript: 'hello', confidence: 1 });
+  });
+});
+
+describe('needsConfirmation', () => {
+  it(`asks "did you say...?" below ${CONFIRMATION_THRESHOLD}`, () => {
+    const sure = bestIntent([{ transcript: 'play yasin', confidence: 0.95 }], parseSurahCommand);
+    const unsure = bestIntent([{ transcript: 'play yasin', confidence: 0.4 }], parseSurahCommand);
+    const nothing = bestIntent([{ transcript: 'hello', confidence: 0.1 }], parseSurahCommand);
+
+    expect(needsConfirmation(sure)).toBe(false);
+    expect(needsConfirmation(unsure)).toBe(true);
+    expect(needsConfirmation(nothing)).toBe(false);
+  });
+});
@@ -0,0 +1,298 @@
+import { Dua } from './types';
+import { duaDatabase } from './constants';
+import { surahDatabase } from './surah-data';
+import { AyahRange, parseAyahRange, parseRepeatCount } from './ayah-playback';
+import { findReciterInCommand } from './reciters';
+import { resolveSurah } from './surah-resolver';
+import { DUA_AMBIGUITY_MARGIN, searchDuas } from './dua-search';
+import { findSpokenNumbers } from './spoken-numbers';
+import { OPTION_AMBIGUITY_MARGIN, matchQuizOptions } from './quiz-options';
+
+// Voice grammars for every screen. Each parser takes a raw transcript and returns a
+// typed intent; the screens only dispatch on the result. Nothing here touches the
+// browser, so the grammars can be exercised directly from Node.
+
+export type WelcomeIntent = { type: 'continue' } | { type: 'unknown' };
+
+export type LandingIntent = { type: 'navigate'; screen: 'surah' | 'quizRules' | 'duaList' | 'ask' } | { type: 'unknown' };
+
+export type SurahIntent =
+  | { type: 'resume' }
+  | {
+      type: 'play';
+      surahKey: string;
+      // Resolver confidence, 0..1.
+      score: number;
+      reciterId: string | null;
+      range: AyahRange | null;
+      repeat: number | null;
+    }
+  // A reciter was named but no surah: "by Sudais".
+  | { type: 'reciter'; reciterId: string }
+  | { type: 'unknown' };
+
+export type DuaListIntent =
+  // `score` is the search score, 0..1.
+  | { type: 'dua'; dua: Dua; score: number }
+  // Several duas scored about the same: Siddiqa reads them out and asks which one.
+  | { type: 'choose'; duas: Dua[]; score: number }
+  | { type: 'unknown' };
+
+export type DuaPlayerIntent = { type: 'meaningOnly' } | { type: 'repeat' } | { type: 'back' } | { type: 'unknown' };
+
+export type QuizIntent =
+  // `score` is how closely the option's text was matched, 0..1; a number scores 1.
+  | { type: 'answer'; index: number; score: number }
+  // "option" with nothing after it: the visitor was cut off.
+  | { type: 'incomplete' }
+  // The answer sounded like more than one option, or not quite like any: Siddiqa asks which.
+  | { type: 'unclear'; indexes: number[] }
+  | { type: 'unknown' };
+
+// Commands that work on every screen and are checked before the screen's own grammar.
+export type GlobalIntent =
+  | { type: 'back' }
+  | { type: 'home' }
+  | { type: 'stop' }
+  | { type: 'repeatPrompt' }
+  | { type: 'volume'; direction: 'up' | 'down' }
+  | { type: 'nextSurah' };
+
+export type ConfirmationIntent = { type: 'yes' } | { type: 'no' } | { type: 'unknown' };
+
+// One of the recogniser's guesses at what was said.
+export interface SpokenAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+export interface IntentMatch<I> {
+  intent: I;
+  // The alternative the intent was read from.
+  transcript: string;
+  // How sure we are of the intent, 0..1: the recogniser's confidence times the grammar's own score.
+  confidence: number;
+}
+
+export interface IntentsByScreen {
+  welcome: WelcomeIntent;
+  landing: LandingIntent;
+  surah: SurahIntent;
+  duaList: DuaListIntent;
+  duaPlayer: DuaPlayerIntent;
+  quiz: QuizIntent;
+}
+
+export type VoiceScreen = keyof IntentsByScreen;
+
+// Synonyms in English, Tamil and common romanised Tamil, then Malayalam and Urdu
+// for the other language packs.
+export const SYNONYMS = {
+  continue: ['continue', 'start', 'begin', 'தொடங்க', 'தொடரவும்', 'ஆரம்பி', 'கண்டினியூ', 'തുടരുക', 'തുടങ്ങ', 'جاری', 'شروع'],
+  surah: ['சூரா', 'சுரா', 'surah', 'sura', 'quran', 'குர்ஆன்', 'സൂറ', 'ഖുർആൻ', 'سورہ', 'سورة', 'قرآن'],
+  quiz: ['வினாடி வினா', 'quiz', 'vinadi vina', 'கேள்வி', 'ക്വിസ്', 'کوئز'],
+  // Checked before `quiz`, which also matches "கேள்வி".
+  ask: ['ask', 'question', 'கேள்வி கேட்க', 'கேள்வி கேட்கணும்', 'சித்திக்காவிடம்', 'சந்தேகம்', 'ചോദ്യം', 'ചോദിക്ക', 'سوال', 'پوچھ'],
+  dua: ['துஆ', 'துவா', 'dua', 'duaa', 'prayer', 'ദുആ', 'دعا'],
+  resume: ['continue', 'resume', 'தொடர', 'തുടര', 'جاری'],
+  meaning: ['meaning', 'translation', 'அர்த்தம்', 'பொருள்', 'അർത്ഥം', 'معنی', 'ترجمہ'],
+  repeat: ['repeat', 'again', 'மீண்டும்', 'திரும்ப', 'വീണ്ടും', 'دوبارہ'],
+  back: ['back', 'list', 'பின்', 'பட்டியல்', 'പിന്നോട്ട്', 'പട്ടിക', 'واپس', 'فہرست'],
+  option: ['option', 'ஆப்ஷன்', 'விடை', 'ഓപ്ഷൻ', 'آپشن'],
+  yes: ['yes', 'yeah', 'yep', 'correct', 'right', 'ஆம்', 'ஆமாம்', 'ஆமா', 'சரி', 'ஆமாம் சரி', 'അതെ', 'ശരി', 'ہاں', 'جی ہاں', 'جی', 'ٹھیک ہے'],
+  no: ['no', 'nope', 'wrong', 'இல்லை', 'இல்ல', 'வேண்டாம்', 'தவறு', 'അല്ല', 'ഇല്ല', 'വേണ്ട', 'نہیں', 'جی نہیں', 'غلط'],
+};
+
+// Single words must be the whole transcript; longer phrases may appear anywhere in it,
+// so "back" never fires inside "play surah al-baqarah from the back".
+const GLOBAL_COMMANDS: [GlobalIntent, string[]][] = [
+  [{ type: 'back' }, ['back', 'go back', 'பின்', 'பின் செல்', 'பின்னால்', 'திரும்பிச் செல்', 'പിന്നോട്ട്', 'واپس', 'واپس جاؤ']],
+  [{ type: 'home' }, ['home', 'go home', 'main menu', 'start over', 'முகப்பு', 'முதல் பக்கம்', 'முகப்புக்குச் செல்', 'ഹോം', 'ہوم', 'شروع میں جاؤ']],
+  [{ type: 'stop' }, ['stop', 'stop it', 'be quiet', 'நிறுத்து', 'நிறுத்துங்கள்', 'நிறுத்தவும்', 'போதும்', 'നിർത്ത്', 'നിർത്തൂ', 'മതി', 'رکو', 'بس']],
+  [{ type: 'repeatPrompt' }, ['repeat that', 'say again', 'say that again', 'pardon', 'மீண்டும் சொல்', 'மீண்டும் சொல்லுங்கள்', 'திரும்பச் சொல்லுங்கள்', 'என்ன சொன்னீர்கள்']],
+  [{ type: 'volume', direction: 'up' }, ['volume up', 'louder', 'increase volume', 'turn it up', 'சத்தம் அதிகம்', 'சத்தத்தை அதிகரி', 'சத்தமாக']],
+  [{ type: 'volume', direction: 'down' }, ['volume down', 'softer', 'quieter', 'decrease volume', 'turn it down', 'சத்தம் குறை', 'சத்தத்தை குறை', 'சத்தம் குறைவாக']],
+  [{ type: 'nextSurah' }, ['next', 'next surah', 'next one', 'அடுத்தது', 'அடுத்த சூரா']],
+];
+
+// "Siddiqa" as recognisers spell it in English, Tamil, Malayalam and Urdu.
+export const WAKE_WORDS = ['siddiqa', 'siddiqah', 'siddika', 'sidiqa', 'sadiqa', 'சித்திக்கா', 'சித்திகா', 'ஸித்திக்கா', 'சித்தீக்கா', 'சித்தீகா', 'സിദ്ദീഖ', 'സിദ്ദിഖ', 'صدیقہ', 'صدیقه'];
+
+// Lowest resolver score accepted as a surah request.
+export const SURAH_MATCH_THRESHOLD = 0.75;
+
+// Lowest search score accepted as a dua request.
+export const DUA_MATCH_THRESHOLD = 0.4;
+
+// Below this an answer naming an option's text is only offered back as a choice.
+export const OPTION_MATCH_THRESHOLD = 0.6;
+const OPTION_CANDIDATE_FLOOR = 0.35;
+
+// Below this, Siddiqa asks "did you say ...?" before acting on a match.
+export const CONFIRMATION_THRESHOLD = 0.6;
+
+// Words recognisers commonly hear instead of a spoken option number.
+const OPTION_HOMOPHONES: Record<string, number> = { won: 1, to: 2, too: 2, tree: 3, for: 4 };
+
+export const normalizeTranscript = (transcript: string): string =>
+  transcript.toLowerCase().normalize('NFC').replace(/[.,?!؟۔،]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const mentions = (text: string, words: string[]) => words.some(word => text.includes(word));
+
+export const parseGlobalCommand = (transcript: string): GlobalIntent | null => {
+  const text = normalizeTranscript(transcript);
+  const match = GLOBAL_COMMANDS.find(([, phrases]) =>
+    phrases.some(phrase => text === phrase || (phrase.includes(' ') && text.includes(phrase)))
+  );
+  return match ? match[0] : null;
+};
+
+// The command after the wake word ("hey siddiqa, play yasin" -> "play yasin"), an empty
+// string for the wake word alone, or null when the visitor was not talking to Siddiqa.
+export const parseWakeWord = (transcript: string): string | null => {
+  const words = normalizeTranscript(transcript).split(' ');
+  const at = words.findIndex(word => WAKE_WORDS.includes(word));
+  return at === -1 ? null : words.slice(at + 1).join(' ');
+};
+
+export const parseWelcome = (transcript: string): WelcomeIntent =>
+  mentions(normalizeTranscript(transcript), SYNONYMS.continue) ? { type: 'continue' } : { type: 'unknown' };
+
+export const parseLanding = (transcript: string): LandingIntent => {
+  const text = normalizeTranscript(transcript);
+  if (mentions(text, SYNONYMS.surah)) return { type: 'navigate', screen: 'surah' };
+  if (mentions(text, SYNONYMS.ask)) return { type: 'navigate', screen: 'ask' };
+  if (mentions(text, SYNONYMS.quiz)) return { type: 'navigate', screen: 'quizRules' };
+  if (mentions(text, SYNONYMS.dua)) return { type: 'navigate', screen: 'duaList' };
+  return { type: 'unknown' };
+};
+
+// "Yasin by Sudais verses 1 to 5, 3 times": reciter, surah, range and repeat count.
+export const parseSurahCommand = (transcript: string): SurahIntent => {
+  let text = normalizeTranscript(transcript);
+  if (!text) return { type: 'unknown' };
+  if (mentions(text, SYNONYMS.resume)) return { type: 'resume' };
+
+  const spokenReciter = findReciterInCommand(text);
+  if (spokenReciter) text = text.replace(spokenReciter.alias, ' ');
+  const reciterId = spokenReciter?.reciter.id ?? null;
+
+  const [best] = resolveSurah(text);
+  if (!best || best.score < SURAH_MATCH_THRESHOLD) {
+    return reciterId ? { type: 'reciter', reciterId } : { type: 'unknown' };
+  }
+  // Drop the surah itself so "surah 36 verses 1 to 5" is not read as a range starting at 36.
+  const rest = text.replace(best.matched, ' ');
+  return {
+    type: 'play',
+    surahKey: best.key,
+    score: best.score,
+    reciterId,
+    range: parseAyahRange(rest, surahDatabase[best.key].ayahCount),
+    repeat: parseRepeatCount(rest),
+  };
+};
+
+export const parseDuaRequest = (transcript: string, duas: Dua[] = Object.values(duaDatabase)): DuaListIntent => {
+  const candidates = searchDuas(transcript, duas).filter(candidate => candidate.score >= DUA_MATCH_THRESHOLD);
+  if (!candidates.length) return { type: 'unknown' };
+  const [best] = candidates;
+  const close = candidates.filter(candidate => best.score - candidate.score <= DUA_AMBIGUITY_MARGIN);
+  return close.length > 1
+    ? { type: 'choose', duas: close.map(candidate => candidate.dua), score: best.score }
+    : { type: 'dua', dua: best.dua, score: best.score };
+};
+
+// After Siddiqa has read out `choices`: "two", "the second one" or a name picks one.
+// Anything else is taken as a fresh request.
+export const parseDuaChoice = (transcript: string, choices: Dua[]): DuaListIntent => {
+  const picked = parseQuizAnswer(transcript, choices.length);
+  if (picked.type === 'answer') return { type: 'dua', dua: choices[picked.index], score: 1 };
+  const narrowed = parseDuaRequest(transcript, choices);
+  return narrowed.type === 'unknown' ? parseDuaRequest(transcript) : narrowed;
+};
+
+export const parseDuaPlayerCommand = (transcript: string): DuaPlayerIntent => {
+  const text = normalizeTranscript(transcript);
+  // "repeat the meaning" asks for the meaning, so it is checked first.
+  if (mentions(text, SYNONYMS.meaning)) return { type: 'meaningOnly' };
+  if (mentions(text, SYNONYMS.repeat)) return { type: 'repeat' };
+  if (mentions(text, SYNONYMS.back)) return { type: 'back' };
+  return { type: 'unknown' };
+};
+
+// "option 2", "இரண்டு", "இரண்டாவது", "the second one" or the answer itself, "ரமழான்".
+// `options` is the options' text, or just how many there are when only a number can answer.
+export const parseQuizAnswer = (transcript: string, options: string[] | number = 4): QuizIntent => {
+  const text = normalizeTranscript(transcript);
+  const optionCount = typeof options === 'number' ? options : options.length;
+  const number = findSpokenNumbers(text).find(found => found.value >= 1 && found.value <= optionCount);
+  // "option 2" and "the second one" always name a position.
+  if (number && (number.ordinal || mentions(text, SYNONYMS.option))) return { type: 'answer', index: number.value - 1, score: 1 };
+
+  // A bare "இரண்டு" is checked against the text first, for options like "2 மடங்கு நன்மை".
+  const matches = typeof options === 'number' ? [] : matchQuizOptions(text, options);
+  const [best] = matches;
+  if (best && best.score >= OPTION_MATCH_THRESHOLD) {
+    const close = matches.filter(match => best.score - match.score < OPTION_AMBIGUITY_MARGIN);
+    return close.length > 1
+      ? { type: 'unclear', indexes: close.map(match => match.index) }
+      : { type: 'answer', index: best.index, score: best.score };
+  }
+  if (number) return { type: 'answer', index: number.value - 1, score: 1 };
+
+  const homophone = text.split(' ').map(word => OPTION_HOMOPHONES[word]).find(value => value && value <= optionCount);
+  if (homophone) return { type: 'answer', index: homophone - 1, score: 1 };
+
+  if (SYNONYMS.option.includes(text)) return { type: 'incomplete' };
+  const candidates = matches.filter(match => match.score >= OPTION_CANDIDATE_FLOOR);
+  if (candidates.length) return { type: 'unclear', indexes: candidates.map(match => match.index) };
+  return { type: 'unknown' };
+};
+
+// Yes and no are single words, so they must be the whole transcript: "no" inside
+// "surah an-nur" is not an answer.
+export const parseConfirmation = (transcript: string): ConfirmationIntent => {
+  const text = normalizeTranscript(transcript);
+  if (SYNONYMS.yes.includes(text)) return { type: 'yes' };
+  if (SYNONYMS.no.includes(text)) return { type: 'no' };
+  return { type: 'unknown' };
+};
+
+// Runs every alternative through `parse` and keeps the surest intent that is not
+// 'unknown'. When none matches, the top alternative's (unknown) intent comes back.
+export const bestIntent = <I extends { type: string }>(
+  alternatives: SpokenAlternative[],
+  parse: (transcript: string) => I
+): IntentMatch<I> => {
+  let best: IntentMatch<I> | null = null;
+  // Engines that do not score a guess report 0. An unscored best guess counts as sure,
+  // as the recogniser adapters promise; a later one as half as sure as the one before.
+  let previous = 1;
+  for (const [index, { transcript, confidence }] of alternatives.entries()) {
+    const heard = confidence > 0 ? confidence : index === 0 ? 1 : previous / 2;
+    previous = heard;
+    const intent = parse(transcript);
+    if (intent.type === 'unknown') continue;
+    const score = heard * ('score' in intent && typeof intent.score === 'number' ? intent.score : 1);
+    if (!best || score > best.confidence) best = { intent, transcript, confidence: score };
+  }
+  return best ?? { intent: parse(alternatives[0]?.transcript ?? ''), transcript: alternatives[0]?.transcript ?? '', confidence: 1 };
+};
+
+export const needsConfirmation = (match: IntentMatch<{ type: string }>): boolean =>
+  match.intent.type !== 'unknown' && match.confidence < CONFIRMATION_THRESHOLD;
+
+export const GRAMMARS: { [S in VoiceScreen]: (transcript: string) => IntentsByScreen[S] } = {
+  welcome: parseWelcome,
+  landing: parseLanding,
+  surah: parseSurahCommand,
+  duaList: parseDuaRequest,
+  duaPlayer: parseDuaPlayerCommand,
+  quiz: parseQuizAnswer,
+};
+
+export const isVoiceScreen = (screen: string): screen is VoiceScreen => screen in GRAMMARS;
+
+export const parseIntent = <S extends VoiceScreen>(screen: S, transcript: string): IntentsByScreen[S] =>
+  GRAMMARS[screen](transcript) as IntentsByScreen[S];
@@ -0,0 +1,176 @@
+import { useSyncExternalStore } from 'react';
+import { QuizCategory, QuizDifficulty } from './types';
+
+// Quiz results, kept in IndexedDB on the kiosk so they survive reloads and a whole
+// exhibition's worth of visitors. Nothing leaves the kiosk unless an operator exports it.
+
+export interface LeaderboardEntry {
+  // Set by IndexedDB when the entry is saved.
+  id?: number;
+  name: string;
+  // Points for the questions answered correctly.
+  score: number;
+  // Lightning round speed bonus; 0 for an untimed quiz.
+  bonus: number;
+  // What the tables rank by: score + bonus.
+  total: number;
+  pointsAvailable: number;
+  level: QuizDifficulty;
+  category: QuizCategory | null;
+  lightning: boolean;
+  playedAt: string;
+}
+
+export const LEADERBOARD_SIZE = 10;
+
+export const MAX_NAME_LENGTH = 24;
+
+// Seconds the welcome screen waits without a touch or a word before showing the leaderboard.
+export const LEADERBOARD_IDLE_SECONDS = 45;
+
+const DB_NAME = 'siddiqa';
+const DB_VERSION = 1;
+const STORE = 'scores';
+
+// ---- Names ---------------------------------------------------------------
+
+// "என் பெயர் ஆயிஷா" or "my name is Aisha" is saved as the name alone.
+const NAME_INTRO = /^(?:என்(?:னுடைய)?\s+பெயர்|எனது\s+பெயர்|my\s+name\s+is|i\s+am|i'm)\s+/i;
+
+// Letters (with their vowel signs), spaces, dots, apostrophes and hyphens, as typed or heard.
+export const cleanName = (text: string): string =>
+  text
+    .normalize('NFC')
+    .trim()
+    .replace(NAME_INTRO, '')
+    .replace(/[^\p{L}\p{M}\s.'-]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_NAME_LENGTH)
+    .trim();
+
+// ---- Ranking -------------------------------------------------------------
+
+// The kiosk's own calendar day, so "today" turns over at local midnight.
+export const dayOf = (playedAt: string | Date): string => {
+  const date = new Date(playedAt);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Highest total first; of equal totals, whoever got there first.
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) =>
+  b.total - a.total || a.playedAt.localeCompare(b.playedAt);
+
+// The top entries of all time, or of one day when `day` is given.
+export const topScores = (entries: LeaderboardEntry[], day?: string, size: number = LEADERBOARD_SIZE): LeaderboardEntry[] =>
+  entries.filter(entry => day === undefined || dayOf(entry.playedAt) === day).sort(byRank).slice(0, size);
+
+// 1-based position of `entry` among the scores of its day.
+export const dailyRank = (entries: LeaderboardEntry[], entry: LeaderboardEntry): number =>
+  topScores(entries, dayOf(entry.playedAt), Infinity).findIndex(other => other.id === entry.id) + 1;
+
+// ---- IndexedDB -----------------------------------------------------------
+
+export const isLeaderboardSupported = () => typeof indexedDB !== 'undefined';
+
+const asPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the operator frees up storage.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return asPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// ---- Store ---------------------------------------------------------------
+
+export interface LeaderboardState {
+  entries: LeaderboardEntry[];
+  // False until the saved scores have been read.
+  loaded: boolean;
+}
+
+let state: LeaderboardState = { entries: [], loaded: false };
+const listeners = new Set<() => void>();
+
+const update = (next: LeaderboardState) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+export const getLeaderboard = (): LeaderboardState => state;
+
+// Reads the saved scores; called once at startup.
+export const loadLeaderboard = async (): Promise<void> => {
+  if (!isLeaderboardSupported()) return;
+  try {
+    const entries = await withStore<LeaderboardEntry[]>('readonly', store => store.getAll());
+    update({ entries, loaded: true });
+  } catch (error) {
+    console.warn('Could not read the leaderboard.', error);
+  }
+};
+
+// Saves a result and returns it with its id.
+export const addScore = async (result: Omit<LeaderboardEntry, 'id' | 'total' | 'playedAt'>): Promise<LeaderboardEntry> => {
+  const entry: LeaderboardEntry = {
+    ...result,
+    name: cleanName(result.name),
+    total: result.score + result.bonus,
+    playedAt: new Date().toISOString(),
+  };
+  const id = await withStore<IDBValidKey>('readwrite', store => store.add(entry));
+  const saved = { ...entry, id: id as number };
+  update({ ...state, entries: [...state.entries, saved] });
+  return saved;
+};
+
+export const resetLeaderboard = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+  update({ ...state, entries: [] });
+};
+
+const EXPORT_COLUMNS: (keyof LeaderboardEntry)[] = [
+  'playedAt', 'name', 'total', 'score', 'bonus', 'pointsAvailable', 'level', 'category', 'lightning',
+];
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Every saved score as CSV, oldest first, with a byte order mark so spreadsheets read the Tamil names.
+export const exportLeaderboard = (entries: LeaderboardEntry[] = state.entries): string => {
+  const rows = [...entries]
+    .sort((a, b) => a.playedAt.localeCompare(b.playedAt))
+    .map(entry => EXPORT_COLUMNS.map(column => csvCell(entry[column])).join(','));
+  return `\uFEFF${[EXPORT_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useLeaderboard = (): LeaderboardState => useSyncExternalStore(subscribe, () => state);
@@ -0,0 +1,14 @@
+import { DIFFICULTY_POINTS } from './adaptive-quiz';
+import { QuizDifficulty } from './types';
+
+// The timed quiz mode: each question has a countdown, which pauses while Siddiqa
+// speaks, and a fast correct answer earns bonus points on top of the question's own.
+
+export const LIGHTNING_SECONDS = 15;
+
+// Countdowns at or below this turn red.
+export const LIGHTNING_WARNING_SECONDS = 5;
+
+// Up to the question's points again, shrinking as the countdown runs down.
+export const speedBonus = (difficulty: QuizDifficulty, secondsLeft: number): number =>
+  Math.round((DIFFICULTY_POINTS[difficulty] * Math.max(0, secondsLeft)) / LIGHTNING_SECONDS);
@@ -0,0 +1,166 @@
+import type { Catalog } from './ta';
+
+export const en: Catalog = {
+  prompts: {
+    welcomeIntro: "I am Siddiqa, your Islamic robot friend. Shall we begin?",
+
+    landingQuestion: 'What would you like to do today?',
+    landingChoices: 'A surah, the quiz, a dua, or a question for Siddiqa?',
+    landingNotUnderstood: "Sorry, I didn't understand. Please try again.",
+    landingUseButtons: "Sorry, I couldn't hear your voice. Please use the buttons on the screen.",
+
+    quizRulesTitle: 'Quiz rules.',
+    quizRule1: 'One: 5 questions will be asked and each has one correct answer.',
+    quizRule2: 'Two: You will be given a maximum of three attempts for any question.',
+    quizRule3: 'Three: You will get a score card at the end of the 5th question.',
+    quizRule4: 'Four: You can click the option, say the answer, or say "Option 1".',
+
+    quizCorrect: 'Correct answer',
+    quizNextQuestion: 'Get ready for the next question',
+    quizIncorrect: 'Wrong answer, please try again',
+    quizTimeUp: "Time's up. The correct answer is",
+    quizNotHeard: "Sorry, I didn't hear that properly. Please try again.",
+    quizWhichAnswer: 'Sorry, which answer did you mean? Say the answer or its number.',
+    quizChoose: 'Which of these did you mean?',
+    quizChooseHint: 'Say the answer or its number.',
+
+    surahInstruction: 'Say the name of the surah you would like to hear',
+    surahFinished: 'The recitation has finished. Say the name of the next surah.',
+    surahPreviewEnded: 'The preview has ended. Say "continue" to keep listening, or say the name of the next surah.',
+    duaInstruction: 'Choose the dua you would like to hear, or say its name',
+    duaOptions: 'Say "repeat" to hear it again, "meaning" for the meaning only, or "back" to return to the list.',
+    duaNotUnderstood: 'Sorry, I didn\'t understand. Say "repeat", "meaning" or "back".',
+    duaChoose: 'I found more than one dua. Which one would you like?',
+    duaChooseHint: 'Say its number or its name.',
+
+    askIntro: 'Ask me your question about Islam.',
+    askThinking: 'One moment, let me think.',
+    askRefusal: "Sorry, I can't answer that. Ask me about the Quran, duas or the prophets.",
+    askUnavailable: "Sorry, I can't answer right now. Please try again later.",
+    askNotHeard: "Sorry, I didn't hear your question. Please ask again.",
+
+    confirmDeclined: 'Okay, please say it again.',
+  },
+
+  messages: {
+    'common.back': 'Back',
+    'common.home': 'Home',
+    'common.continue': 'Continue',
+    'common.listening': 'Listening...',
+    'common.speaking': 'Speaking...',
+    'common.handsFreeHint': 'Say "Siddiqa" to talk to me',
+    'common.confirm': 'Did you say {heard}?',
+
+    'mic.notUnderstood': "Sorry, I didn't understand. Please try again.",
+    'mic.network': 'A network error occurred. Please check your internet connection.',
+    'mic.noSpeech': "I didn't hear anything. Please try speaking again.",
+    'mic.denied': 'Microphone access was denied. Please allow it in your browser settings.',
+    'mic.unsupported': 'Voice recognition is not available on this device. Please tap to choose.',
+
+    'initial.tagline': 'Your Islamic Robot Friend',
+    'initial.start': 'Start',
+
+    'welcome.peace': 'Peace be upon you',
+    'welcome.listening': 'Listening for "Continue"...',
+    'welcome.sayContinue': 'Say "Continue" to go on.',
+    'welcome.language': 'Language',
+
+    'landing.question': 'What would you like to do today?',
+    'landing.surah': 'Play a Surah',
+    'landing.surahDetail': 'Listen to Quranic recitations',
+    'landing.quiz': 'Start a Quiz',
+    'landing.quizDetail': 'Test your Islamic knowledge',
+    'landing.dua': 'Play a Dua',
+    'landing.duaDetail': 'Listen to beautiful supplications',
+    'landing.ask': 'Ask Siddiqa',
+    'landing.askDetail': 'Ask a question about Islam',
+
+    'surah.title': 'Play a Surah',
+    'surah.instructions': 'Choose a surah from the list or say its name.',
+    'surah.playing': 'Reciting: Surah {name}...',
+    'surah.nowPlaying': 'Now reciting: Surah {name} (chapter {number}) - {reciter}',
+    'surah.playingAyah': 'Reciting: Surah {name}, ayah {ayah} ({repetition}/{repeat})',
+    'surah.previewEnding': 'The preview ends in a few seconds: Surah {name}',
+    'surah.stopped': 'Recitation stopped. Press the microphone to listen again.',
+    'surah.notFound': "Sorry, I couldn't find that surah. Please try again.",
+    'surah.nothingToResume': 'There is nothing to continue. Say the name of a surah.',
+    'surah.reciterChosen': 'Reciter: {reciter}. Say the name of a surah.',
+    'surah.chooseFirst': 'Choose a surah first.',
+    'surah.audioMissing': 'The audio file is missing. Please add the audio file.',
+    'surah.notCachedOffline': 'There is no internet connection and this surah has not been saved for offline use.',
+
+    'memorise.toggle': 'Memorisation',
+    'memorise.from': 'Ayah',
+    'memorise.to': 'to',
+    'memorise.until': '',
+    'memorise.repeat': 'each',
+    'memorise.times': 'times',
+    'memorise.pause': 'pause',
+    'memorise.seconds': 'seconds',
+
+    'dua.listTitle': 'Duas',
+    'dua.instructions': 'Choose the dua you would like to hear, or say its name.',
+    'dua.notFound': "Sorry, I couldn't find that dua. Please try again.",
+    'dua.audioFailed': 'The audio could not be played. Please check the network connection.',
+    'dua.source': 'Source: {source}',
+    'dua.stopHint': 'Stop the recitation',
+    'dua.again': 'Again',
+    'dua.meaningOnly': 'Meaning only',
+
+    'quizRules.title': 'Quiz Rules',
+    'quizRules.rule1': '5 questions will be asked and each has one correct answer.',
+    'quizRules.rule2': 'You will be given a maximum of three attempts for any question.',
+    'quizRules.rule3': 'You will get a score card at the end of the 5th question.',
+    'quizRules.rule4': 'You can click the option, say the answer, or say "Option 1".',
+    'quizRules.category': 'Choose a topic',
+    'quizRules.lightning': 'Lightning round',
+    'quizRules.lightningDetail': '{seconds} seconds per question, with bonus points for fast answers.',
+    'quizRules.start': 'Start the quiz',
+
+    'quiz.loading': 'Loading the quiz...',
+    'quiz.youSaid': 'You said: {text}',
+    'quiz.speakAnswer': '🎙️ Say your answer',
+    'quiz.chooseOrSpeak': 'Choose an answer or say it',
+    'quiz.correctNext': 'Correct! Get ready for the next question...',
+    'quiz.incorrectRetry': 'Wrong answer, try again...',
+    'quiz.showingAnswer': 'Showing the correct answer...',
+    'quiz.timeUp': "Time's up!",
+    'quiz.explanation': 'Did you know?',
+    'quiz.reference': 'Reference: {reference}',
+    'quiz.revealAnswer': 'Wrong answer. The correct answer is',
+    'quiz.finished': 'Quiz complete!',
+    'quiz.score': 'Your points: {score} / {total}',
+    'quiz.levelReached': 'Level reached: {level}',
+    'quiz.speedBonus': 'Speed bonus: +{bonus}',
+    'quiz.scoreSpoken': 'You scored {percent} percent. Well done!',
+    'quiz.great': '🎉 Congratulations! You did great!',
+    'quiz.goodTry': '🤔 Good try!',
+    'quiz.playAgain': 'Play again',
+    'quiz.category.all': 'All topics',
+    'quiz.category.seerah': 'Seerah',
+    'quiz.category.quran': 'Quran',
+    'quiz.category.fiqh': 'Fiqh',
+    'quiz.category.duas': 'Duas',
+    'quiz.difficulty.easy': 'Easy',
+    'quiz.difficulty.medium': 'Medium',
+    'quiz.difficulty.hard': 'Hard',
+
+    'leaderboard.title': 'Leaderboard',
+    'leaderboard.today': 'Today',
+    'leaderboard.allTime': 'All time',
+    'leaderboard.empty': 'No scores yet.',
+    'leaderboard.addName': 'Add your name to the leaderboard',
+    'leaderboard.namePlaceholder': 'Your name',
+    'leaderboard.sayName': 'Say your name...',
+    'leaderboard.save': 'Save',
+    'leaderboard.saved': 'Thank you, {name}! You are number {rank} today.',
+    'leaderboard.saveFailed': 'Could not save your score.',
+
+    'ask.title': 'Ask Siddiqa',
+    'ask.notEnabled': 'Questions are not enabled on this kiosk (no GEMINI_API_KEY).',
+    'ask.yourQuestion': 'Your question',
+    'ask.thinking': 'Thinking...',
+    'ask.speakQuestion': '🎙️ Ask your question',
+    'ask.hint': 'Ask about the Quran, duas or the prophets',
+  },
+};
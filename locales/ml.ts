@@ -0,0 +1,166 @@
+import type { Catalog } from './ta';
+
+export const ml: Catalog = {
+  prompts: {
+    welcomeIntro: 'ഞാൻ സിദ്ദീഖ, നിങ്ങളുടെ ഇസ്‌ലാമിക റോബോട്ട് കൂട്ടുകാരി. നമുക്ക് തുടങ്ങാമോ?',
+
+    landingQuestion: 'ഇന്ന് നിങ്ങൾ എന്താണ് ചെയ്യാൻ ആഗ്രഹിക്കുന്നത്?',
+    landingChoices: 'സൂറ, ക്വിസ്, ദുആ, അല്ലെങ്കിൽ സിദ്ദീഖയോട് ഒരു ചോദ്യം?',
+    landingNotUnderstood: 'ക്ഷമിക്കണം, എനിക്ക് മനസ്സിലായില്ല. വീണ്ടും ശ്രമിക്കൂ.',
+    landingUseButtons: 'ക്ഷമിക്കണം, നിങ്ങളുടെ ശബ്ദം കേൾക്കാൻ കഴിഞ്ഞില്ല. സ്ക്രീനിലെ ബട്ടണുകൾ ഉപയോഗിക്കൂ.',
+
+    quizRulesTitle: 'ക്വിസ് നിയമങ്ങൾ.',
+    quizRule1: 'ഒന്ന്: 5 ചോദ്യങ്ങൾ ചോദിക്കും, ഓരോന്നിനും ഒരു ശരിയുത്തരം ഉണ്ട്.',
+    quizRule2: 'രണ്ട്: ഓരോ ചോദ്യത്തിനും പരമാവധി മൂന്ന് അവസരങ്ങൾ ലഭിക്കും.',
+    quizRule3: 'മൂന്ന്: അഞ്ചാമത്തെ ചോദ്യത്തിന് ശേഷം സ്കോർ കാർഡ് ലഭിക്കും.',
+    quizRule4: 'നാല്: ഉത്തരത്തിൽ തൊടാം, ഉത്തരം പറയാം, അല്ലെങ്കിൽ "ഓപ്ഷൻ 1" എന്ന് പറയാം.',
+
+    quizCorrect: 'ശരിയുത്തരം',
+    quizNextQuestion: 'അടുത്ത ചോദ്യത്തിന് തയ്യാറാകൂ',
+    quizIncorrect: 'തെറ്റായ ഉത്തരം, വീണ്ടും ശ്രമിക്കൂ',
+    quizTimeUp: 'സമയം കഴിഞ്ഞു. ശരിയുത്തരം',
+    quizNotHeard: 'ക്ഷമിക്കണം, എനിക്ക് ശരിയായി കേട്ടില്ല. വീണ്ടും ശ്രമിക്കൂ.',
+    quizWhichAnswer: 'ക്ഷമിക്കണം, ഏത് ഉത്തരമാണെന്ന് മനസ്സിലായില്ല. ഉത്തരമോ അതിന്റെ നമ്പറോ പറയൂ.',
+    quizChoose: 'ഇവയിൽ ഏതാണ് നിങ്ങൾ ഉദ്ദേശിച്ചത്?',
+    quizChooseHint: 'ഉത്തരമോ അതിന്റെ നമ്പറോ പറയൂ.',
+
+    surahInstruction: 'കേൾക്കാൻ ആഗ്രഹിക്കുന്ന സൂറയുടെ പേര് പറയൂ',
+    surahFinished: 'പാരായണം കഴിഞ്ഞു. അടുത്ത സൂറയുടെ പേര് പറയൂ.',
+    surahPreviewEnded: 'പ്രിവ്യൂ കഴിഞ്ഞു. തുടർന്ന് കേൾക്കാൻ "continue" എന്ന് പറയൂ, അല്ലെങ്കിൽ അടുത്ത സൂറയുടെ പേര് പറയൂ.',
+    duaInstruction: 'കേൾക്കാൻ ആഗ്രഹിക്കുന്ന ദുആ തിരഞ്ഞെടുക്കൂ, അല്ലെങ്കിൽ അതിന്റെ പേര് പറയൂ',
+    duaOptions: 'വീണ്ടും കേൾക്കാൻ "വീണ്ടും", അർത്ഥം മാത്രം കേൾക്കാൻ "അർത്ഥം", പട്ടികയിലേക്ക് മടങ്ങാൻ "പിന്നോട്ട്" എന്ന് പറയൂ.',
+    duaNotUnderstood: 'ക്ഷമിക്കണം, മനസ്സിലായില്ല. "വീണ്ടും", "അർത്ഥം" അല്ലെങ്കിൽ "പിന്നോട്ട്" എന്ന് പറയൂ.',
+    duaChoose: 'ഒന്നിലധികം ദുആകൾ കണ്ടെത്തി. ഏതാണ് കേൾക്കേണ്ടത്?',
+    duaChooseHint: 'അതിന്റെ നമ്പറോ പേരോ പറയൂ.',
+
+    askIntro: 'ഇസ്‌ലാമിനെക്കുറിച്ച് നിങ്ങളുടെ ചോദ്യം ചോദിക്കൂ.',
+    askThinking: 'ഒരു നിമിഷം, ഞാൻ ആലോചിക്കട്ടെ.',
+    askRefusal: 'ക്ഷമിക്കണം, അതിന് എനിക്ക് ഉത്തരം പറയാൻ കഴിയില്ല. ഖുർആൻ, ദുആ, അല്ലെങ്കിൽ പ്രവാചകന്മാരെക്കുറിച്ച് ചോദിക്കൂ.',
+    askUnavailable: 'ക്ഷമിക്കണം, ഇപ്പോൾ ഉത്തരം പറയാൻ കഴിയുന്നില്ല. പിന്നീട് ശ്രമിക്കൂ.',
+    askNotHeard: 'ക്ഷമിക്കണം, നിങ്ങളുടെ ചോദ്യം കേട്ടില്ല. വീണ്ടും ചോദിക്കൂ.',
+
+    confirmDeclined: 'ശരി, വീണ്ടും പറയൂ.',
+  },
+
+  messages: {
+    'common.back': 'പിന്നോട്ട്',
+    'common.home': 'ഹോം',
+    'common.continue': 'തുടരുക',
+    'common.listening': 'കേൾക്കുന്നു...',
+    'common.speaking': 'സംസാരിക്കുന്നു...',
+    'common.handsFreeHint': '"സിദ്ദീഖ" എന്ന് വിളിച്ച് സംസാരിക്കൂ',
+    'common.confirm': 'നിങ്ങൾ {heard} എന്നാണോ പറഞ്ഞത്?',
+
+    'mic.notUnderstood': 'ക്ഷമിക്കണം, എനിക്ക് മനസ്സിലായില്ല. വീണ്ടും ശ്രമിക്കൂ.',
+    'mic.network': 'നെറ്റ്‌വർക്ക് പിശക് സംഭവിച്ചു. ഇന്റർനെറ്റ് കണക്ഷൻ പരിശോധിക്കൂ.',
+    'mic.noSpeech': 'ഞാൻ ഒന്നും കേട്ടില്ല. ദയവായി വീണ്ടും സംസാരിക്കൂ.',
+    'mic.denied': 'മൈക്രോഫോൺ അനുമതി നിഷേധിച്ചു. ബ്രൗസർ ക്രമീകരണങ്ങളിൽ അത് അനുവദിക്കൂ.',
+    'mic.unsupported': 'ഈ ഉപകരണത്തിൽ ശബ്ദം തിരിച്ചറിയൽ ലഭ്യമല്ല. സ്ക്രീനിൽ തൊട്ട് തിരഞ്ഞെടുക്കൂ.',
+
+    'initial.tagline': 'നിങ്ങളുടെ ഇസ്‌ലാമിക റോബോട്ട് കൂട്ടുകാരി',
+    'initial.start': 'തുടങ്ങുക',
+
+    'welcome.peace': 'നിങ്ങൾക്ക് സമാധാനം ഉണ്ടാകട്ടെ',
+    'welcome.listening': '"തുടരുക" എന്ന് പറയുന്നതിനായി കാത്തിരിക്കുന്നു...',
+    'welcome.sayContinue': 'തുടരാൻ "തുടരുക" അല്ലെങ്കിൽ "Continue" എന്ന് പറയൂ.',
+    'welcome.language': 'ഭാഷ',
+
+    'landing.question': 'ഇന്ന് നിങ്ങൾ എന്താണ് ചെയ്യാൻ ആഗ്രഹിക്കുന്നത്?',
+    'landing.surah': 'സൂറ കേൾക്കുക',
+    'landing.surahDetail': 'ഖുർആൻ പാരായണം കേൾക്കൂ',
+    'landing.quiz': 'ക്വിസ് തുടങ്ങുക',
+    'landing.quizDetail': 'നിങ്ങളുടെ ഇസ്‌ലാമിക അറിവ് പരീക്ഷിക്കൂ',
+    'landing.dua': 'ദുആ കേൾക്കുക',
+    'landing.duaDetail': 'മനോഹരമായ പ്രാർത്ഥനകൾ കേൾക്കൂ',
+    'landing.ask': 'സിദ്ദീഖയോട് ചോദിക്കൂ',
+    'landing.askDetail': 'ഇസ്‌ലാമിനെക്കുറിച്ച് ഒരു ചോദ്യം ചോദിക്കൂ',
+
+    'surah.title': 'സൂറ കേൾക്കുക',
+    'surah.instructions': 'പട്ടികയിൽ നിന്ന് ഒരു സൂറ തിരഞ്ഞെടുക്കൂ, അല്ലെങ്കിൽ അതിന്റെ പേര് പറയൂ.',
+    'surah.playing': 'പാരായണം ചെയ്യുന്നു: സൂറ {name}...',
+    'surah.nowPlaying': 'ഇപ്പോൾ പാരായണം: സൂറ {name} (അധ്യായം {number}) - {reciter}',
+    'surah.playingAyah': 'പാരായണം ചെയ്യുന്നു: സൂറ {name}, ആയത്ത് {ayah} ({repetition}/{repeat})',
+    'surah.previewEnding': 'പ്രിവ്യൂ അൽപ്പസമയത്തിനകം അവസാനിക്കും: സൂറ {name}',
+    'surah.stopped': 'പാരായണം നിർത്തി. വീണ്ടും കേൾക്കാൻ മൈക്രോഫോൺ അമർത്തൂ.',
+    'surah.notFound': 'ക്ഷമിക്കണം, ആ സൂറ കണ്ടെത്താനായില്ല. വീണ്ടും ശ്രമിക്കൂ.',
+    'surah.nothingToResume': 'തുടരാൻ ഒന്നുമില്ല. ഒരു സൂറയുടെ പേര് പറയൂ.',
+    'surah.reciterChosen': 'ഖാരി: {reciter}. ഒരു സൂറയുടെ പേര് പറയൂ.',
+    'surah.chooseFirst': 'ആദ്യം ഒരു സൂറ തിരഞ്ഞെടുക്കൂ.',
+    'surah.audioMissing': 'ഓഡിയോ ഫയൽ ലഭ്യമല്ല. ദയവായി ഓഡിയോ ഫയൽ ചേർക്കൂ.',
+    'surah.notCachedOffline': 'ഇന്റർനെറ്റ് കണക്ഷൻ ഇല്ല, ഈ സൂറ ഓഫ്‌ലൈനായി സൂക്ഷിച്ചിട്ടില്ല.',
+
+    'memorise.toggle': 'മനഃപാഠ പരിശീലനം',
+    'memorise.from': 'ആയത്ത്',
+    'memorise.to': 'മുതൽ',
+    'memorise.until': 'വരെ',
+    'memorise.repeat': 'ഓരോന്നും',
+    'memorise.times': 'തവണ',
+    'memorise.pause': 'ഇടവേള',
+    'memorise.seconds': 'സെക്കൻഡ്',
+
+    'dua.listTitle': 'ദുആകൾ',
+    'dua.instructions': 'കേൾക്കാൻ ആഗ്രഹിക്കുന്ന ദുആ തിരഞ്ഞെടുക്കൂ, അല്ലെങ്കിൽ അതിന്റെ പേര് പറയൂ.',
+    'dua.notFound': 'ക്ഷമിക്കണം, ആ ദുആ കണ്ടെത്താനായില്ല. വീണ്ടും ശ്രമിക്കൂ.',
+    'dua.audioFailed': 'ഓഡിയോ പ്ലേ ചെയ്യാൻ കഴിഞ്ഞില്ല. നെറ്റ്‌വർക്ക് കണക്ഷൻ പരിശോധിക്കൂ.',
+    'dua.source': 'അവലംബം: {source}',
+    'dua.stopHint': 'പാരായണം നിർത്താൻ',
+    'dua.again': 'വീണ്ടും',
+    'dua.meaningOnly': 'അർത്ഥം മാത്രം',
+
+    'quizRules.title': 'ക്വിസ് നിയമങ്ങൾ',
+    'quizRules.rule1': '5 ചോദ്യങ്ങൾ ചോദിക്കും, ഓരോന്നിനും ഒരു ശരിയുത്തരം ഉണ്ട്.',
+    'quizRules.rule2': 'ഓരോ ചോദ്യത്തിനും പരമാവധി മൂന്ന് അവസരങ്ങൾ ലഭിക്കും.',
+    'quizRules.rule3': 'അഞ്ചാമത്തെ ചോദ്യത്തിന് ശേഷം സ്കോർ കാർഡ് ലഭിക്കും.',
+    'quizRules.rule4': 'ഉത്തരത്തിൽ തൊടാം, ഉത്തരം പറയാം, അല്ലെങ്കിൽ "ഓപ്ഷൻ 1" എന്ന് പറയാം.',
+    'quizRules.category': 'വിഷയം തിരഞ്ഞെടുക്കൂ',
+    'quizRules.lightning': 'മിന്നൽ റൗണ്ട്',
+    'quizRules.lightningDetail': 'ഓരോ ചോദ്യത്തിനും {seconds} സെക്കൻഡ്. വേഗത്തിലുള്ള ഉത്തരങ്ങൾക്ക് ബോണസ് പോയിന്റ്.',
+    'quizRules.start': 'ക്വിസ് തുടങ്ങുക',
+
+    'quiz.loading': 'ക്വിസ് ലോഡ് ചെയ്യുന്നു...',
+    'quiz.youSaid': 'നിങ്ങൾ പറഞ്ഞത്: {text}',
+    'quiz.speakAnswer': '🎙️ നിങ്ങളുടെ ഉത്തരം പറയൂ',
+    'quiz.chooseOrSpeak': 'ഉത്തരം തിരഞ്ഞെടുക്കൂ, അല്ലെങ്കിൽ പറയൂ',
+    'quiz.correctNext': 'ശരിയുത്തരം! അടുത്ത ചോദ്യത്തിന് തയ്യാറാകൂ...',
+    'quiz.incorrectRetry': 'തെറ്റായ ഉത്തരം, വീണ്ടും ശ്രമിക്കൂ...',
+    'quiz.showingAnswer': 'ശരിയുത്തരം കാണിക്കുന്നു...',
+    'quiz.timeUp': 'സമയം കഴിഞ്ഞു!',
+    'quiz.explanation': 'അറിയാമോ?',
+    'quiz.reference': 'അവലംബം: {reference}',
+    'quiz.revealAnswer': 'തെറ്റായ ഉത്തരം. ശരിയുത്തരം,',
+    'quiz.finished': 'ക്വിസ് കഴിഞ്ഞു!',
+    'quiz.score': 'നിങ്ങളുടെ പോയിന്റ്: {score} / {total}',
+    'quiz.levelReached': 'എത്തിയ നില: {level}',
+    'quiz.speedBonus': 'വേഗ ബോണസ്: +{bonus}',
+    'quiz.scoreSpoken': 'നിങ്ങൾക്ക് {percent} ശതമാനം സ്കോർ ലഭിച്ചു. അഭിനന്ദനങ്ങൾ!',
+    'quiz.great': '🎉 അഭിനന്ദനങ്ങൾ! നന്നായി ചെയ്തു!',
+    'quiz.goodTry': '🤔 നല്ല ശ്രമം!',
+    'quiz.playAgain': 'വീണ്ടും കളിക്കുക',
+    'quiz.category.all': 'എല്ലാ വിഷയങ്ങളും',
+    'quiz.category.seerah': 'സീറ',
+    'quiz.category.quran': 'ഖുർആൻ',
+    'quiz.category.fiqh': 'ഫിഖ്ഹ്',
+    'quiz.category.duas': 'ദുആകൾ',
+    'quiz.difficulty.easy': 'എളുപ്പം',
+    'quiz.difficulty.medium': 'ഇടത്തരം',
+    'quiz.difficulty.hard': 'കഠിനം',
+
+    'leaderboard.title': 'ലീഡർബോർഡ്',
+    'leaderboard.today': 'ഇന്ന്',
+    'leaderboard.allTime': 'എക്കാലത്തെയും',
+    'leaderboard.empty': 'ഇതുവരെ സ്കോറുകളില്ല.',
+    'leaderboard.addName': 'നിങ്ങളുടെ പേര് ലീഡർബോർഡിൽ ചേർക്കൂ',
+    'leaderboard.namePlaceholder': 'നിങ്ങളുടെ പേര്',
+    'leaderboard.sayName': 'നിങ്ങളുടെ പേര് പറയൂ...',
+    'leaderboard.save': 'സേവ് ചെയ്യുക',
+    'leaderboard.saved': 'നന്ദി, {name}! ഇന്ന് നിങ്ങൾ {rank}-ാം സ്ഥാനത്താണ്.',
+    'leaderboard.saveFailed': 'സ്കോർ സേവ് ചെയ്യാനായില്ല.',
+
+    'ask.title': 'സിദ്ദീഖയോട് ചോദിക്കൂ',
+    'ask.notEnabled': 'ഈ കിയോസ്കിൽ ചോദ്യോത്തരം പ്രവർത്തനക്ഷമമല്ല (GEMINI_API_KEY ഇല്ല).',
+    'ask.yourQuestion': 'നിങ്ങളുടെ ചോദ്യം',
+    'ask.thinking': 'ആലോചിക്കുന്നു...',
+    'ask.speakQuestion': '🎙️ നിങ്ങളുടെ ചോദ്യം ചോദിക്കൂ',
+    'ask.hint': 'ഖുർആൻ, ദുആ, പ്രവാചകന്മാർ എന്നിവയെക്കുറിച്ച് ചോദിക്കൂ',
+  },
+};
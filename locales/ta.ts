@@ -0,0 +1,171 @@
+// Tamil, the kiosk's main language. Every other catalog must have the same keys.
+
+export const ta = {
+  // Fixed spoken phrases; `npm run build:prompts` renders them for every language.
+  prompts: {
+    welcomeIntro: 'நான் சித்திக்கா - உங்கள் இஸ்லாமிய ரோபோ தோழி. நாம் தொடங்கலாமா?',
+
+    landingQuestion: 'இன்று நீங்கள் என்ன செய்ய விரும்புகிறீர்கள்?',
+    landingChoices: 'சூரா, வினாடி வினா, துஆ, அல்லது சித்திக்காவிடம் கேள்வி?',
+    landingNotUnderstood: 'மன்னிக்கவும், எனக்குப் புரியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    landingUseButtons: 'மன்னிக்கவும், உங்கள் குரலை என்னால் கண்டறிய முடியவில்லை. திரையில் உள்ள பொத்தான்களைப் பயன்படுத்தவும்.',
+
+    quizRulesTitle: 'வினாடி வினா விதிகள்.',
+    quizRule1: 'ஒன்று: 5 கேள்விகள் கேட்கப்படும் மற்றும் ஒவ்வொன்றிற்கும் ஒரு சரியான பதில் உள்ளது.',
+    quizRule2: 'இரண்டு: எந்தவொரு கேள்விக்கும் உங்களுக்கு அதிகபட்சம் மூன்று முயற்சிகள் வழங்கப்படும்.',
+    quizRule3: 'மூன்று: 5வது கேள்விக்குப் பிறகு மதிப்பெண் அட்டை வழங்கப்படும்.',
+    quizRule4: 'நான்கு: நீங்கள் விருப்பத்தை கிளிக் செய்யலாம், பதிலைச் சொல்லலாம், அல்லது "ஆப்ஷன் 1" என்று கூறலாம்.',
+
+    quizCorrect: 'சரியான பதில்',
+    quizNextQuestion: 'அடுத்த கேள்விக்கு தயாராகுங்கள்',
+    quizIncorrect: 'தவறான பதில், மீண்டும் முயற்சிக்கவும்',
+    quizTimeUp: 'நேரம் முடிந்தது. சரியான பதில்,',
+    quizNotHeard: 'மன்னிக்கவும், எனக்கு சரியாக கேட்கவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    quizWhichAnswer: 'மன்னிக்கவும், எந்த பதில் என்று புரியவில்லை. பதிலையோ அதன் எண்ணையோ சொல்லுங்கள்.',
+    quizChoose: 'இவற்றில் எந்த பதிலைச் சொன்னீர்கள்?',
+    quizChooseHint: 'பதிலையோ அதன் எண்ணையோ சொல்லுங்கள்.',
+
+    surahInstruction: 'நீங்கள் கேட்க விரும்பும் சூராவின் பெயரைச் சொல்லுங்கள்',
+    surahFinished: 'ஓதுதல் முடிந்தது. அடுத்த சூராவின் பெயரைச் சொல்லுங்கள்.',
+    surahPreviewEnded: "முன்னோட்டம் முடிந்தது. தொடர்ந்து கேட்க 'continue' என்று சொல்லுங்கள், அல்லது அடுத்த சூராவின் பெயரைச் சொல்லுங்கள்.",
+    duaInstruction: 'நீங்கள் கேட்க விரும்பும் துஆவைத் தேர்ந்தெடுக்கவும் அல்லது அதன் பெயரைச் சொல்லவும்',
+    duaOptions: "மீண்டும் கேட்க 'மீண்டும்', அர்த்தம் மட்டும் கேட்க 'அர்த்தம்', பட்டியலுக்குத் திரும்ப 'பின்' என்று சொல்லுங்கள்.",
+    duaNotUnderstood: "மன்னிக்கவும், புரியவில்லை. 'மீண்டும்', 'அர்த்தம்' அல்லது 'பின்' என்று சொல்லுங்கள்.",
+    duaChoose: 'ஒன்றுக்கு மேற்பட்ட துஆக்கள் கிடைத்தன. எதைக் கேட்க விரும்புகிறீர்கள்?',
+    duaChooseHint: 'அதன் எண்ணையோ பெயரையோ சொல்லுங்கள்.',
+
+    askIntro: 'இஸ்லாம் பற்றி உங்கள் கேள்வியைக் கேளுங்கள்.',
+    askThinking: 'ஒரு நிமிடம், யோசிக்கிறேன்.',
+    askRefusal: 'மன்னிக்கவும், அதைப் பற்றி என்னால் பதில் சொல்ல முடியாது. குர்ஆன், துஆ அல்லது நபிமார்கள் பற்றிக் கேளுங்கள்.',
+    askUnavailable: 'மன்னிக்கவும், இப்போது என்னால் பதில் சொல்ல முடியவில்லை. பிறகு முயற்சிக்கவும்.',
+    askNotHeard: 'மன்னிக்கவும், உங்கள் கேள்வி கேட்கவில்லை. மீண்டும் கேளுங்கள்.',
+
+    confirmDeclined: 'சரி, மீண்டும் சொல்லுங்கள்.',
+  },
+
+  // On-screen text and spoken text with {placeholders}.
+  messages: {
+    'common.back': 'பின் செல்',
+    'common.home': 'முகப்பு',
+    'common.continue': 'தொடரவும்',
+    'common.listening': 'கேட்கிறது...',
+    'common.speaking': 'பேசுகிறது...',
+    'common.handsFreeHint': '"சித்திக்கா" என்று அழைத்துப் பேசுங்கள்',
+    'common.confirm': 'நீங்கள் {heard} என்று சொன்னீர்களா?',
+
+    'mic.notUnderstood': 'மன்னிக்கவும், எனக்குப் புரியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    'mic.network': 'ஒரு நெட்வொர்க் பிழை ஏற்பட்டது. உங்கள் இணைய இணைப்பைச் சரிபார்க்கவும்.',
+    'mic.noSpeech': 'நான் எதுவும் கேட்கவில்லை. தயவுசெய்து மீண்டும் பேச முயற்சிக்கவும்.',
+    'mic.denied': 'மைக்ரோஃபோன் அணுகல் மறுக்கப்பட்டது. உங்கள் உலாவி அமைப்புகளில் அதை இயக்கவும்.',
+    'mic.unsupported': 'இந்த சாதனத்தில் குரல் அங்கீகாரம் இல்லை. திரையைத் தொட்டுத் தேர்ந்தெடுக்கவும்.',
+
+    'initial.tagline': 'உங்கள் இஸ்லாமிய ரோபோ தோழி',
+    'initial.start': 'தொடங்கு',
+
+    'welcome.peace': 'உங்கள் மீது சாந்தி உண்டாவதாக',
+    'welcome.listening': '"தொடரவும்" என்று சொல்லக் காத்திருக்கிறது...',
+    'welcome.sayContinue': "தொடர 'தொடரவும்' அல்லது 'Continue' என்று கூறவும்.",
+    'welcome.language': 'மொழி',
+
+    'landing.question': 'இன்று நீங்கள் என்ன செய்ய விரும்புகிறீர்கள்?',
+    'landing.surah': 'சூராவை ஓதவும்',
+    'landing.surahDetail': 'குர்ஆன் ஓதுதலைக் கேளுங்கள்',
+    'landing.quiz': 'வினாடி வினா தொடங்க',
+    'landing.quizDetail': 'உங்கள் இஸ்லாமிய அறிவை சோதிக்கவும்',
+    'landing.dua': 'துஆவைக் கேட்கவும்',
+    'landing.duaDetail': 'அழகான பிரார்த்தனைகளைக் கேளுங்கள்',
+    'landing.ask': 'சித்திக்காவிடம் கேளுங்கள்',
+    'landing.askDetail': 'இஸ்லாம் பற்றிக் கேள்வி கேளுங்கள்',
+
+    'surah.title': 'சூராவை ஓதவும்',
+    'surah.instructions': 'பட்டியலில் இருந்து ஒரு சூராவைத் தேர்ந்தெடுக்கவும் அல்லது அதன் பெயரைச் சொல்லவும்.',
+    'surah.playing': 'ஓதப்படுகிறது: சூரா {name}...',
+    'surah.nowPlaying': 'இப்போது ஓதப்படுவது: சூரா {name} (அத்தியாயம் {number}) - {reciter}',
+    'surah.playingAyah': 'ஓதப்படுகிறது: சூரா {name}, ஆயத் {ayah} ({repetition}/{repeat})',
+    'surah.previewEnding': 'முன்னோட்டம் சில வினாடிகளில் முடியும்: சூரா {name}',
+    'surah.stopped': 'ஓதுதல் நிறுத்தப்பட்டது. மீண்டும் கேட்க, மைக்ரோஃபோனை அழுத்தவும்.',
+    'surah.notFound': 'மன்னிக்கவும், அந்த சூராவை கண்டுபிடிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    'surah.nothingToResume': 'தொடர எதுவும் இல்லை. சூராவின் பெயரைச் சொல்லுங்கள்.',
+    'surah.reciterChosen': 'ஓதுபவர்: {reciter}. சூராவின் பெயரைச் சொல்லுங்கள்.',
+    'surah.chooseFirst': 'முதலில் ஒரு சூராவைத் தேர்ந்தெடுக்கவும்.',
+    'surah.audioMissing': 'ஆடியோ கோப்பு கிடைக்கவில்லை. தயவுசெய்து ஆடியோ கோப்பைச் சேர்க்கவும்.',
+    'surah.notCachedOffline': 'இணைய இணைப்பு இல்லை, இந்த சூரா ஆஃப்லைனில் சேமிக்கப்படவில்லை.',
+
+    'memorise.toggle': 'மனனப் பயிற்சி',
+    'memorise.from': 'ஆயத்',
+    'memorise.to': 'முதல்',
+    'memorise.until': 'வரை',
+    'memorise.repeat': 'ஒவ்வொன்றும்',
+    'memorise.times': 'முறை',
+    'memorise.pause': 'இடைவெளி',
+    'memorise.seconds': 'வினாடி',
+
+    'dua.listTitle': 'துஆ பட்டியல்கள்',
+    'dua.instructions': 'நீங்கள் கேட்க விரும்பும் துஆவைத் தேர்ந்தெடுக்கவும் அல்லது அதன் பெயரைச் சொல்லவும்.',
+    'dua.notFound': 'மன்னிக்கவும், அந்த துவாவைக் கண்டுபிடிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    'dua.audioFailed': 'ஆடியோவை இயக்க முடியவில்லை. பிணைய இணைப்பைச் சரிபார்க்கவும்.',
+    'dua.source': 'ஆதாரம்: {source}',
+    'dua.stopHint': 'ஓதுவதை நிறுத்த',
+    'dua.again': 'மீண்டும்',
+    'dua.meaningOnly': 'அர்த்தம் மட்டும்',
+
+    'quizRules.title': 'வினாடி வினா விதிகள்',
+    'quizRules.rule1': '5 கேள்விகள் கேட்கப்படும் மற்றும் ஒவ்வொன்றிற்கும் ஒரு சரியான பதில் உள்ளது.',
+    'quizRules.rule2': 'எந்தவொரு கேள்விக்கும் உங்களுக்கு அதிகபட்சம் மூன்று முயற்சிகள் வழங்கப்படும்.',
+    'quizRules.rule3': '5வது கேள்விக்குப் பிறகு மதிப்பெண் அட்டை வழங்கப்படும்.',
+    'quizRules.rule4': 'நீங்கள் விருப்பத்தை கிளிக் செய்யலாம், பதிலைச் சொல்லலாம், அல்லது "ஆப்ஷன் 1" என்று கூறலாம்.',
+    'quizRules.category': 'தலைப்பைத் தேர்ந்தெடுங்கள்',
+    'quizRules.lightning': 'மின்னல் சுற்று',
+    'quizRules.lightningDetail': 'ஒவ்வொரு கேள்விக்கும் {seconds} வினாடிகள். வேகமாக பதிலளித்தால் கூடுதல் புள்ளிகள்.',
+    'quizRules.start': 'வினாடி வினாவைத் தொடங்கு',
+
+    'quiz.loading': 'வினாடி வினா ஏற்றப்படுகிறது...',
+    'quiz.youSaid': 'நீங்கள் கூறியது: {text}',
+    'quiz.speakAnswer': '🎙️ உங்கள் பதிலை பேசுங்கள்',
+    'quiz.chooseOrSpeak': 'பதிலைத் தேர்ந்தெடுக்கவும் அல்லது பேசவும்',
+    'quiz.correctNext': 'சரியான பதில்! அடுத்த கேள்விக்கு தயாராகுங்கள்...',
+    'quiz.incorrectRetry': 'தவறான பதில், மீண்டும் முயற்சிக்கவும்...',
+    'quiz.showingAnswer': 'சரியான பதில் காட்டப்படுகிறது...',
+    'quiz.timeUp': 'நேரம் முடிந்தது!',
+    'quiz.explanation': 'தெரிந்துகொள்வோம்',
+    'quiz.reference': 'ஆதாரம்: {reference}',
+    // Spoken before the correct option, which is read out in Tamil.
+    'quiz.revealAnswer': 'தவறான பதில். சரியான பதில்,',
+    'quiz.finished': 'வினாடி வினா முடிந்தது!',
+    'quiz.score': 'உங்கள் புள்ளிகள்: {score} / {total}',
+    'quiz.levelReached': 'அடைந்த நிலை: {level}',
+    'quiz.speedBonus': 'வேகப் போனஸ்: +{bonus}',
+    'quiz.scoreSpoken': 'நீங்கள் {percent} சதவீதம் மதிப்பெண் பெற்றுள்ளீர்கள். வாழ்த்துக்கள்!',
+    'quiz.great': '🎉 வாழ்த்துக்கள்! சிறப்பாக செய்தீர்கள்!',
+    'quiz.goodTry': '🤔 நன்றாக முயற்சித்தீர்கள்!',
+    'quiz.playAgain': 'மீண்டும் விளையாடு',
+    'quiz.category.all': 'அனைத்து தலைப்புகள்',
+    'quiz.category.seerah': 'நபி வரலாறு',
+    'quiz.category.quran': 'குர்ஆன்',
+    'quiz.category.fiqh': 'ஃபிக்ஹ்',
+    'quiz.category.duas': 'துஆக்கள்',
+    'quiz.difficulty.easy': 'எளிது',
+    'quiz.difficulty.medium': 'நடுத்தரம்',
+    'quiz.difficulty.hard': 'கடினம்',
+
+    'leaderboard.title': 'முன்னணி பட்டியல்',
+    'leaderboard.today': 'இன்று',
+    'leaderboard.allTime': 'எல்லா நேரமும்',
+    'leaderboard.empty': 'இன்னும் மதிப்பெண்கள் இல்லை.',
+    'leaderboard.addName': 'உங்கள் பெயரை முன்னணி பட்டியலில் சேர்க்கவும்',
+    'leaderboard.namePlaceholder': 'உங்கள் பெயர்',
+    'leaderboard.sayName': 'உங்கள் பெயரைச் சொல்லுங்கள்...',
+    'leaderboard.save': 'சேமி',
+    'leaderboard.saved': 'நன்றி {name}! இன்று நீங்கள் {rank}-ஆம் இடத்தில் உள்ளீர்கள்.',
+    'leaderboard.saveFailed': 'மதிப்பெண்ணைச் சேமிக்க முடியவில்லை.',
+
+    'ask.title': 'சித்திக்காவிடம் கேளுங்கள்',
+    'ask.notEnabled': 'இந்த கியோஸ்கில் கேள்வி-பதில் இயக்கப்படவில்லை (GEMINI_API_KEY இல்லை).',
+    'ask.yourQuestion': 'உங்கள் கேள்வி',
+    'ask.thinking': 'யோசிக்கிறேன்...',
+    'ask.speakQuestion': '🎙️ உங்கள் கேள்வியைக் கேளுங்கள்',
+    'ask.hint': 'குர்ஆன், துஆ, நபிமார்கள் பற்றிக் கேளுங்கள்',
+  },
+};
+
+export type Catalog = typeof ta;
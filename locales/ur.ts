@@ -0,0 +1,166 @@
+import type { Catalog } from './ta';
+
+export const ur: Catalog = {
+  prompts: {
+    welcomeIntro: 'میں صدیقہ ہوں، آپ کی اسلامی روبوٹ دوست۔ کیا ہم شروع کریں؟',
+
+    landingQuestion: 'آج آپ کیا کرنا چاہیں گے؟',
+    landingChoices: 'سورہ، کوئز، دعا، یا صدیقہ سے کوئی سوال؟',
+    landingNotUnderstood: 'معاف کیجیے، میں سمجھ نہیں سکی۔ دوبارہ کوشش کیجیے۔',
+    landingUseButtons: 'معاف کیجیے، میں آپ کی آواز نہیں سن سکی۔ اسکرین پر دیے گئے بٹن استعمال کیجیے۔',
+
+    quizRulesTitle: 'کوئز کے قواعد۔',
+    quizRule1: 'ایک: پانچ سوال پوچھے جائیں گے اور ہر ایک کا ایک صحیح جواب ہے۔',
+    quizRule2: 'دو: ہر سوال کے لیے زیادہ سے زیادہ تین کوششیں ملیں گی۔',
+    quizRule3: 'تین: پانچویں سوال کے بعد اسکور کارڈ ملے گا۔',
+    quizRule4: 'چار: آپ جواب پر ٹیپ کر سکتے ہیں، جواب بول سکتے ہیں، یا "آپشن 1" کہہ سکتے ہیں۔',
+
+    quizCorrect: 'صحیح جواب',
+    quizNextQuestion: 'اگلے سوال کے لیے تیار ہو جائیے',
+    quizIncorrect: 'غلط جواب، دوبارہ کوشش کیجیے',
+    quizTimeUp: 'وقت ختم۔ صحیح جواب ہے:',
+    quizNotHeard: 'معاف کیجیے، میں ٹھیک سے سن نہیں سکی۔ دوبارہ کوشش کیجیے۔',
+    quizWhichAnswer: 'معاف کیجیے، کون سا جواب؟ جواب یا اس کا نمبر بتائیے۔',
+    quizChoose: 'ان میں سے آپ کا مطلب کون سا تھا؟',
+    quizChooseHint: 'جواب یا اس کا نمبر بتائیے۔',
+
+    surahInstruction: 'جو سورہ آپ سننا چاہتے ہیں اس کا نام بتائیے',
+    surahFinished: 'تلاوت مکمل ہو گئی۔ اگلی سورہ کا نام بتائیے۔',
+    surahPreviewEnded: 'جھلک ختم ہو گئی۔ سنتے رہنے کے لیے "continue" کہیے، یا اگلی سورہ کا نام بتائیے۔',
+    duaInstruction: 'جو دعا آپ سننا چاہتے ہیں اسے چنیے یا اس کا نام بتائیے',
+    duaOptions: 'دوبارہ سننے کے لیے "دوبارہ"، صرف معنی کے لیے "معنی"، اور فہرست پر واپس جانے کے لیے "واپس" کہیے۔',
+    duaNotUnderstood: 'معاف کیجیے، سمجھ نہیں آیا۔ "دوبارہ"، "معنی" یا "واپس" کہیے۔',
+    duaChoose: 'ایک سے زیادہ دعائیں ملیں۔ آپ کون سی سننا چاہیں گے؟',
+    duaChooseHint: 'اس کا نمبر یا نام بتائیے۔',
+
+    askIntro: 'اسلام کے بارے میں اپنا سوال پوچھیے۔',
+    askThinking: 'ایک لمحہ، میں سوچ رہی ہوں۔',
+    askRefusal: 'معاف کیجیے، میں اس کا جواب نہیں دے سکتی۔ قرآن، دعاؤں یا انبیاء کے بارے میں پوچھیے۔',
+    askUnavailable: 'معاف کیجیے، ابھی میں جواب نہیں دے سکتی۔ بعد میں کوشش کیجیے۔',
+    askNotHeard: 'معاف کیجیے، آپ کا سوال سنائی نہیں دیا۔ دوبارہ پوچھیے۔',
+
+    confirmDeclined: 'ٹھیک ہے، دوبارہ کہیے۔',
+  },
+
+  messages: {
+    'common.back': 'واپس',
+    'common.home': 'ہوم',
+    'common.continue': 'جاری رکھیں',
+    'common.listening': 'سن رہی ہوں...',
+    'common.speaking': 'بول رہی ہوں...',
+    'common.handsFreeHint': 'بات کرنے کے لیے "صدیقہ" کہیے',
+    'common.confirm': 'کیا آپ نے {heard} کہا؟',
+
+    'mic.notUnderstood': 'معاف کیجیے، میں سمجھ نہیں سکی۔ دوبارہ کوشش کیجیے۔',
+    'mic.network': 'نیٹ ورک میں خرابی ہوئی۔ اپنا انٹرنیٹ کنکشن چیک کیجیے۔',
+    'mic.noSpeech': 'مجھے کچھ سنائی نہیں دیا۔ براہ کرم دوبارہ بولیے۔',
+    'mic.denied': 'مائیکروفون کی اجازت نہیں ملی۔ براؤزر کی ترتیبات میں اجازت دیجیے۔',
+    'mic.unsupported': 'اس آلے پر آواز کی پہچان دستیاب نہیں۔ اسکرین پر ٹیپ کر کے چنیے۔',
+
+    'initial.tagline': 'آپ کی اسلامی روبوٹ دوست',
+    'initial.start': 'شروع کریں',
+
+    'welcome.peace': 'آپ پر سلامتی ہو',
+    'welcome.listening': '"جاری رکھیں" سننے کا انتظار...',
+    'welcome.sayContinue': 'آگے بڑھنے کے لیے "جاری رکھیں" یا "Continue" کہیے۔',
+    'welcome.language': 'زبان',
+
+    'landing.question': 'آج آپ کیا کرنا چاہیں گے؟',
+    'landing.surah': 'سورہ سنیے',
+    'landing.surahDetail': 'قرآن کی تلاوت سنیے',
+    'landing.quiz': 'کوئز شروع کریں',
+    'landing.quizDetail': 'اپنی اسلامی معلومات جانچیے',
+    'landing.dua': 'دعا سنیے',
+    'landing.duaDetail': 'خوبصورت دعائیں سنیے',
+    'landing.ask': 'صدیقہ سے پوچھیے',
+    'landing.askDetail': 'اسلام کے بارے میں سوال پوچھیے',
+
+    'surah.title': 'سورہ سنیے',
+    'surah.instructions': 'فہرست میں سے کوئی سورہ چنیے یا اس کا نام بتائیے۔',
+    'surah.playing': 'تلاوت: سورہ {name}...',
+    'surah.nowPlaying': 'اب تلاوت: سورہ {name} (سورہ نمبر {number}) - {reciter}',
+    'surah.playingAyah': 'تلاوت: سورہ {name}، آیت {ayah} ({repetition}/{repeat})',
+    'surah.previewEnding': 'جھلک چند سیکنڈ میں ختم ہوگی: سورہ {name}',
+    'surah.stopped': 'تلاوت روک دی گئی۔ دوبارہ سننے کے لیے مائیکروفون دبائیے۔',
+    'surah.notFound': 'معاف کیجیے، وہ سورہ نہیں ملی۔ دوبارہ کوشش کیجیے۔',
+    'surah.nothingToResume': 'جاری رکھنے کو کچھ نہیں۔ کسی سورہ کا نام بتائیے۔',
+    'surah.reciterChosen': 'قاری: {reciter}۔ کسی سورہ کا نام بتائیے۔',
+    'surah.chooseFirst': 'پہلے کوئی سورہ چنیے۔',
+    'surah.audioMissing': 'آڈیو فائل نہیں ملی۔ براہ کرم آڈیو فائل شامل کیجیے۔',
+    'surah.notCachedOffline': 'انٹرنیٹ کنکشن نہیں ہے، اور یہ سورہ آف لائن محفوظ نہیں کی گئی۔',
+
+    'memorise.toggle': 'حفظ کی مشق',
+    'memorise.from': 'آیت',
+    'memorise.to': 'سے',
+    'memorise.until': 'تک',
+    'memorise.repeat': 'ہر ایک',
+    'memorise.times': 'بار',
+    'memorise.pause': 'وقفہ',
+    'memorise.seconds': 'سیکنڈ',
+
+    'dua.listTitle': 'دعائیں',
+    'dua.instructions': 'جو دعا آپ سننا چاہتے ہیں اسے چنیے یا اس کا نام بتائیے۔',
+    'dua.notFound': 'معاف کیجیے، وہ دعا نہیں ملی۔ دوبارہ کوشش کیجیے۔',
+    'dua.audioFailed': 'آڈیو نہیں چل سکی۔ نیٹ ورک کنکشن چیک کیجیے۔',
+    'dua.source': 'حوالہ: {source}',
+    'dua.stopHint': 'تلاوت روکنے کے لیے',
+    'dua.again': 'دوبارہ',
+    'dua.meaningOnly': 'صرف معنی',
+
+    'quizRules.title': 'کوئز کے قواعد',
+    'quizRules.rule1': 'پانچ سوال پوچھے جائیں گے اور ہر ایک کا ایک صحیح جواب ہے۔',
+    'quizRules.rule2': 'ہر سوال کے لیے زیادہ سے زیادہ تین کوششیں ملیں گی۔',
+    'quizRules.rule3': 'پانچویں سوال کے بعد اسکور کارڈ ملے گا۔',
+    'quizRules.rule4': 'آپ جواب پر ٹیپ کر سکتے ہیں، جواب بول سکتے ہیں، یا "آپشن 1" کہہ سکتے ہیں۔',
+    'quizRules.category': 'موضوع چنیے',
+    'quizRules.lightning': 'لائٹننگ راؤنڈ',
+    'quizRules.lightningDetail': 'ہر سوال کے لیے {seconds} سیکنڈ، تیز جواب پر بونس پوائنٹس۔',
+    'quizRules.start': 'کوئز شروع کریں',
+
+    'quiz.loading': 'کوئز لوڈ ہو رہا ہے...',
+    'quiz.youSaid': 'آپ نے کہا: {text}',
+    'quiz.speakAnswer': '🎙️ اپنا جواب بولیے',
+    'quiz.chooseOrSpeak': 'جواب چنیے یا بولیے',
+    'quiz.correctNext': 'صحیح جواب! اگلے سوال کے لیے تیار ہو جائیے...',
+    'quiz.incorrectRetry': 'غلط جواب، دوبارہ کوشش کیجیے...',
+    'quiz.showingAnswer': 'صحیح جواب دکھایا جا رہا ہے...',
+    'quiz.timeUp': 'وقت ختم!',
+    'quiz.explanation': 'کیا آپ جانتے ہیں؟',
+    'quiz.reference': 'حوالہ: {reference}',
+    'quiz.revealAnswer': 'غلط جواب۔ صحیح جواب ہے:',
+    'quiz.finished': 'کوئز مکمل!',
+    'quiz.score': 'آپ کے پوائنٹس: {score} / {total}',
+    'quiz.levelReached': 'حاصل کردہ درجہ: {level}',
+    'quiz.speedBonus': 'رفتار بونس: +{bonus}',
+    'quiz.scoreSpoken': 'آپ نے {percent} فیصد اسکور کیا۔ مبارک ہو!',
+    'quiz.great': '🎉 مبارک ہو! بہت خوب!',
+    'quiz.goodTry': '🤔 اچھی کوشش!',
+    'quiz.playAgain': 'دوبارہ کھیلیں',
+    'quiz.category.all': 'تمام موضوعات',
+    'quiz.category.seerah': 'سیرت',
+    'quiz.category.quran': 'قرآن',
+    'quiz.category.fiqh': 'فقہ',
+    'quiz.category.duas': 'دعائیں',
+    'quiz.difficulty.easy': 'آسان',
+    'quiz.difficulty.medium': 'درمیانہ',
+    'quiz.difficulty.hard': 'مشکل',
+
+    'leaderboard.title': 'لیڈر بورڈ',
+    'leaderboard.today': 'آج',
+    'leaderboard.allTime': 'اب تک',
+    'leaderboard.empty': 'ابھی کوئی اسکور نہیں۔',
+    'leaderboard.addName': 'اپنا نام لیڈر بورڈ میں شامل کریں',
+    'leaderboard.namePlaceholder': 'آپ کا نام',
+    'leaderboard.sayName': 'اپنا نام بولیں...',
+    'leaderboard.save': 'محفوظ کریں',
+    'leaderboard.saved': 'شکریہ، {name}! آج آپ {rank} نمبر پر ہیں۔',
+    'leaderboard.saveFailed': 'آپ کا اسکور محفوظ نہیں ہو سکا۔',
+
+    'ask.title': 'صدیقہ سے پوچھیے',
+    'ask.notEnabled': 'اس کیوسک پر سوال و جواب فعال نہیں (GEMINI_API_KEY موجود نہیں)۔',
+    'ask.yourQuestion': 'آپ کا سوال',
+    'ask.thinking': 'سوچ رہی ہوں...',
+    'ask.speakQuestion': '🎙️ اپنا سوال پوچھیے',
+    'ask.hint': 'قرآن، دعاؤں یا انبیاء کے بارے میں پوچھیے',
+  },
+};
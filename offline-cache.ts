@@ -0,0 +1,114 @@
+import { Surah } from './types';
+import { surahDatabase } from './surah-data';
+import { ayahAudioUrl, reciterFor, surahAudioUrl } from './reciters';
+
+// Page-side half of the offline cache. public/sw.js serves these caches; this module
+// registers the worker and lets the operator pre-download audio before visitors arrive.
+
+// Must match the names in public/sw.js.
+export const AUDIO_CACHE = 'siddiqa-audio-v1';
+export const TTS_CACHE = 'siddiqa-tts-v1';
+
+// Juz Amma: An-Naba (78) to An-Nas (114).
+export const JUZ_AMMA = Array.from({ length: 37 }, (_, i) => 78 + i);
+export const ALL_SURAHS = Array.from({ length: 114 }, (_, i) => i + 1);
+
+export interface PrecacheProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface CacheStats {
+  audioFiles: number;
+  promptFiles: number;
+  usageBytes: number | null;
+}
+
+export const isOfflineCacheSupported = (): boolean =>
+  'serviceWorker' in navigator && 'caches' in window;
+
+export const registerServiceWorker = () => {
+  if (!isOfflineCacheSupported()) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service worker registration failed.', error);
+    });
+  });
+};
+
+// surahDatabase has several spoken keys per surah; pick one entry per number.
+export const surahsByNumber = (numbers: number[]): Surah[] => {
+  const byNumber = new Map<number, Surah>();
+  Object.values(surahDatabase).forEach(surah => {
+    if (!byNumber.has(surah.number)) byNumber.set(surah.number, surah);
+  });
+  return numbers.map(n => byNumber.get(n)).filter((surah): surah is Surah => !!surah);
+};
+
+// The same URLs playback will request, including the fallback reciter where needed.
+export const surahUrlsFor = (numbers: number[], reciterId: string): string[] =>
+  surahsByNumber(numbers).map(surah => surahAudioUrl(surah, reciterFor(surah, reciterId)));
+
+// Verse-by-verse files for the same surahs, used by verse ranges, memorisation and the
+// ayah-boundary preview; the whole-surah files above cannot stand in for them.
+export const ayahUrlsFor = (numbers: number[], reciterId: string): string[] =>
+  surahsByNumber(numbers).flatMap(surah => {
+    const reciter = reciterFor(surah, reciterId);
+    return Array.from({ length: surah.ayahCount }, (_, i) => ayahAudioUrl(surah, i + 1, reciter));
+  });
+
+const fetchForCache = async (url: string): Promise<Response> => {
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response;
+  } catch (error) {
+    // Hosts without CORS headers can still be cached as opaque responses.
+    const opaque = await fetch(url, { mode: 'no-cors' });
+    if (opaque.type !== 'opaque') throw error;
+    return opaque;
+  }
+};
+
+// Downloads every URL not already cached, one at a time so the kiosk stays responsive.
+export const precacheUrls = async (
+  cacheName: string,
+  urls: string[],
+  onProgress: (progress: PrecacheProgress) => void,
+  signal?: AbortSignal
+): Promise<PrecacheProgress> => {
+  const cache = await caches.open(cacheName);
+  const progress: PrecacheProgress = { done: 0, total: urls.length, failed: 0 };
+  onProgress({ ...progress });
+
+  for (const url of urls) {
+    if (signal?.aborted) break;
+    try {
+      if (!(await cache.match(url))) {
+        await cache.put(url, await fetchForCache(url));
+      }
+    } catch (error) {
+      console.warn(`Could not cache ${url}`, error);
+      progress.failed++;
+    }
+    progress.done++;
+    onProgress({ ...progress });
+  }
+  return progress;
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const [audio, prompts] = await Promise.all([caches.open(AUDIO_CACHE), caches.open(TTS_CACHE)]);
+  const [audioKeys, promptKeys] = await Promise.all([audio.keys(), prompts.keys()]);
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : null;
+  return {
+    audioFiles: audioKeys.length,
+    promptFiles: promptKeys.length,
+    usageBytes: estimate?.usage ?? null,
+  };
+};
+
+export const clearOfflineAudio = async () => {
+  await Promise.all([caches.delete(AUDIO_CACHE), caches.delete(TTS_CACHE)]);
+};
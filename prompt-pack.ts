@@ -0,0 +1,54 @@
+import type { SpeechRequest } from './speech';
+
+// The offline prompt pack: prerendered audio for fixed phrases, shipped under
+// public/prompts and described by a manifest keyed by language and text hash.
+// This module is shared by the browser and by scripts/build-prompt-pack.ts.
+
+export const PROMPT_PACK_BASE = '/prompts';
+export const PROMPT_MANIFEST_FILE = 'manifest.json';
+
+export interface PromptManifest {
+  version: 1;
+  generatedAt: string;
+  // promptKey(text, lang) -> audio file name relative to the pack directory
+  prompts: Record<string, string>;
+}
+
+// 32-bit FNV-1a over the NFC-normalised text; stable in Node and the browser.
+export const hashText = (text: string): string => {
+  const normalized = text.normalize('NFC').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const promptKey = (text: string, lang: string): string => `${lang}-${hashText(text)}`;
+
+let manifest: PromptManifest | null = null;
+let packBase = PROMPT_PACK_BASE;
+
+export const loadPromptPack = async (base: string = PROMPT_PACK_BASE): Promise<void> => {
+  try {
+    const response = await fetch(`${base}/${PROMPT_MANIFEST_FILE}`);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    manifest = await response.json();
+    packBase = base;
+  } catch (error) {
+    console.warn('Prompt pack not available, all prompts will use live TTS.', error);
+    manifest = null;
+  }
+};
+
+export const lookupPrompt = ({ text, lang }: SpeechRequest): string | null => {
+  const file = manifest?.prompts[promptKey(text, lang)];
+  return file ? `${packBase}/${file}` : null;
+};
+
+// Every file in the loaded pack, including the manifest, for offline pre-caching.
+export const promptPackUrls = (): string[] =>
+  manifest
+    ? [`${packBase}/${PROMPT_MANIFEST_FILE}`, ...Object.values(manifest.prompts).map(file => `${packBase}/${file}`)]
+    : [];
@@ -0,0 +1,24 @@
+import type { SpeechRequest } from './speech';
+import type { Catalog } from './locales/ta';
+import { CATALOGS, LOCALES, Locale, getLocale } from './i18n';
+
+// Every fixed phrase Siddiqa speaks lives in the locale catalogs. `npm run build:prompts`
+// renders all of them into the offline prompt pack, so keep dynamic text (scores,
+// option names) out of the catalogs' `prompts`.
+
+export type PromptId = keyof Catalog['prompts'];
+
+// Said in Arabic whatever the visitor's language.
+export const GREETING: SpeechRequest = { text: 'ٱلسَّلَامُ عَلَيْكُمْ', lang: 'ar' };
+
+export const prompt = (id: PromptId, locale: Locale = getLocale()): SpeechRequest => ({
+  text: CATALOGS[locale].prompts[id],
+  lang: LOCALES[locale].speechLang,
+});
+
+export const allPrompts = (): SpeechRequest[] => [
+  GREETING,
+  ...(Object.keys(CATALOGS) as Locale[]).flatMap(locale =>
+    (Object.keys(CATALOGS[locale].prompts) as PromptId[]).map(id => prompt(id, locale))
+  ),
+];
@@ -0,0 +1,142 @@
+// Siddiqa service worker: keeps the kiosk running when the exhibition network drops.
+//  - app shell and CDN assets: network first, cached copy when offline
+//  - recitation audio: cache first (the operator screen pre-downloads it); verse-by-verse
+//    files are also stored on first play
+//  - spoken prompts (TTS proxy, prompt pack, dua recordings): cache first, stored on first use
+// Cache names are shared with offline-cache.ts.
+
+const SHELL_CACHE = 'siddiqa-shell-v2';
+const AUDIO_CACHE = 'siddiqa-audio-v1';
+const TTS_CACHE = 'siddiqa-tts-v1';
+const CACHES = [SHELL_CACHE, AUDIO_CACHE, TTS_CACHE];
+
+const AUDIO_HOSTS = ['download.quranicaudio.com', 'everyayah.com'];
+// Serves one file per ayah, for verse ranges, memorisation and ayah-boundary previews.
+const AYAH_HOST = 'everyayah.com';
+const SHELL_URLS = ['/', '/index.html'];
+// The CDNs index.html loads the styles, fonts and libraries from.
+const SHELL_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+// Each build adds new hashed assets; the oldest are dropped past this many entries.
+const MAX_SHELL_ENTRIES = 80;
+
+// Only what the app needs to start is kept: pages, built assets and the CDN files.
+// Dev server modules (/@vite/client, /App.tsx?t=...) and API calls are left alone.
+const isShellUrl = (url) =>
+  url.origin === self.location.origin
+    ? SHELL_URLS.includes(url.pathname) || url.pathname.startsWith('/assets/') || url.pathname === '/index.css'
+    : SHELL_HOSTS.includes(url.hostname);
+
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  // Keys come back oldest first.
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+const pruneShellCache = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.filter(key => !isShellUrl(new URL(key.url))).map(key => cache.delete(key)));
+  await trimCache(cache, MAX_SHELL_ENTRIES);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('siddiqa-') && !CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(pruneShellCache)
+      .then(() => self.clients.claim())
+  );
+});
+
+// Media elements ask for byte ranges; answer them from the full cached file.
+const rangeResponse = async (request, response) => {
+  const range = request.headers.get('range');
+  if (!range || response.type === 'opaque') return response;
+  const match = /bytes=(\d*)-(\d*)/.exec(range);
+  if (!match) return response;
+
+  const buffer = await response.arrayBuffer();
+  const size = buffer.byteLength;
+  let start = match[1] ? Number(match[1]) : size - Number(match[2]);
+  let end = match[1] && match[2] ? Number(match[2]) : size - 1;
+  start = Math.max(0, start);
+  end = Math.min(end, size - 1);
+  if (start > end) {
+    return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  return new Response(buffer.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': response.headers.get('Content-Type') || 'audio/mpeg',
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+};
+
+// The whole file, whatever range the media element asked for, so the stored copy is
+// complete. Hosts without CORS headers still give an opaque response that plays.
+const fetchWhole = async (url) => {
+  try {
+    return await fetch(url, { mode: 'cors' });
+  } catch (error) {
+    return fetch(url, { mode: 'no-cors' });
+  }
+};
+
+const cacheFirst = async (request, cacheName, store) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request.url);
+  if (cached) return rangeResponse(request, cached);
+  if (!store) return fetch(request);
+
+  const response = await fetchWhole(request.url);
+  if (response.status === 200 || response.type === 'opaque') {
+    await cache.put(request.url, response.clone());
+  }
+  return rangeResponse(request, response);
+};
+
+const networkFirst = async (request, fallbackUrl) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok || response.type === 'opaque') {
+      await cache.put(request, response.clone());
+      await trimCache(cache, MAX_SHELL_ENTRIES);
+    }
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (AUDIO_HOSTS.includes(url.hostname)) {
+    // Whole surah files are large, so they are only stored by an explicit pre-download.
+    // Ayah files are small and a verse range is often replayed, so they are kept as played.
+    event.respondWith(cacheFirst(request, AUDIO_CACHE, url.hostname === AYAH_HOST));
+  } else if (url.origin === self.location.origin && (url.pathname === '/api/tts' || url.pathname.startsWith('/prompts/') || url.pathname.startsWith('/duas/'))) {
+    event.respondWith(cacheFirst(request, TTS_CACHE, true));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (isShellUrl(url)) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,304 @@
+import { useSyncExternalStore } from 'react';
+import { QUIZ_SESSION_LENGTH, quizCategories, quizDifficulties, quizQuestions } from './constants';
+import { hashText } from './prompt-pack';
+import { QuizCategory, QuizDifficulty, QuizQuestion } from './types';
+
+// Question banks the exhibition volunteers write for each event, as JSON or CSV.
+// A bank is used only when every row is valid. Otherwise the report lists what is
+// wrong, row by row, and the last valid bank (or the built-in questions) stays.
+
+// Looked for at startup; the first one that exists is imported.
+export const QUIZ_BANK_FILES = ['/quiz-bank.json', '/quiz-bank.csv'];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 4;
+
+// CSV header; option columns past the question's last option are left empty.
+export const CSV_COLUMNS = [
+  'question', 'option1', 'option2', 'option3', 'option4', 'correctAnswer', 'category', 'difficulty', 'explanation', 'reference',
+];
+const OPTIONAL_COLUMNS = ['option3', 'option4', 'reference'];
+
+export interface QuizBank {
+  // The uploaded file's name, or the URL it was loaded from at startup.
+  source: string;
+  importedAt: string;
+  questions: QuizQuestion[];
+}
+
+export interface ImportIssue {
+  // The spreadsheet row for CSV (the header is row 1), the question's position for
+  // JSON, and 0 for the file as a whole.
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface ImportReport {
+  source: string;
+  // Questions read, valid or not.
+  rows: number;
+  issues: ImportIssue[];
+  // False when the bank was refused and the previous one kept.
+  applied: boolean;
+}
+
+// ---- Parsing -------------------------------------------------------------
+
+interface RawRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+// RFC 4180: quoted cells may hold commas, newlines and "" for a quote.
+const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      records.push([...record, cell]);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || record.length) records.push([...record, cell]);
+  return records;
+};
+
+const csvRows = (text: string, issues: ImportIssue[]): RawRow[] => {
+  const [header = [], ...records] = parseCsv(text);
+  const columns = header.map(name => name.trim());
+  const missing = CSV_COLUMNS.filter(column => !OPTIONAL_COLUMNS.includes(column) && !columns.includes(column));
+  if (missing.length) {
+    issues.push({ row: 0, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.` });
+    return [];
+  }
+  return records
+    .map((cells, i) => ({ row: i + 2, cells }))
+    .filter(({ cells }) => cells.some(cell => cell.trim()))
+    .map(({ row, cells }) => {
+      const cell = (column: string) => cells[columns.indexOf(column)] ?? '';
+      const options = columns.filter(column => /^option\d+$/.test(column)).map(cell);
+      // Empty option columns at the end belong to a question with fewer options.
+      while (options.length && !options[options.length - 1].trim()) options.pop();
+      const answer = cell('correctAnswer').trim();
+      return {
+        row,
+        values: {
+          question: cell('question'),
+          options,
+          correctAnswer: answer === '' ? undefined : Number(answer),
+          category: cell('category').trim().toLowerCase(),
+          difficulty: cell('difficulty').trim().toLowerCase(),
+          explanation: cell('explanation'),
+          reference: cell('reference'),
+        },
+      };
+    });
+};
+
+const jsonRows = (text: string, issues: ImportIssue[]): RawRow[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    issues.push({ row: 0, message: `Not valid JSON: ${(error as Error).message}` });
+    return [];
+  }
+  // Either a list of questions or { "questions": [...] }.
+  const list = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown } | null)?.questions;
+  if (!Array.isArray(list)) {
+    issues.push({ row: 0, message: 'Expected a list of questions.' });
+    return [];
+  }
+  return list.map((item, i) => ({ row: i + 1, values: item && typeof item === 'object' ? item as Record<string, unknown> : {} }));
+};
+
+// ---- Validation ----------------------------------------------------------
+
+const TAMIL_LETTER = /[\u0B80-\u0BFF]/;
+
+const textOf = (value: unknown) => (typeof value === 'string' ? value.normalize('NFC').trim() : '');
+
+const sameText = (text: string) => text.replace(/\s+/g, ' ').toLowerCase();
+
+// The question and explanation are spoken with the Tamil voice, so they must be Tamil.
+const validateRow = ({ row, values }: RawRow, issues: ImportIssue[]): QuizQuestion | null => {
+  const before = issues.length;
+  const fail = (field: string, message: string) => issues.push({ row, field, message });
+
+  const question = textOf(values.question);
+  if (!question) fail('question', 'The question is empty.');
+  else if (!TAMIL_LETTER.test(question)) fail('question', 'The question is not in Tamil.');
+
+  const options = Array.isArray(values.options) ? values.options.map(textOf) : [];
+  if (!Array.isArray(values.options)) {
+    fail('options', 'The options must be a list.');
+  } else if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+    fail('options', `Expected ${MIN_OPTIONS} to ${MAX_OPTIONS} options, found ${options.length}.`);
+  }
+  options.forEach((option, i) => {
+    if (!option) fail(`option${i + 1}`, `Option ${i + 1} is empty.`);
+    const first = options.findIndex(other => other && sameText(other) === sameText(option));
+    if (option && first < i) fail(`option${i + 1}`, `Option ${i + 1} repeats option ${first + 1}.`);
+  });
+
+  const { correctAnswer } = values;
+  if (typeof correctAnswer !== 'number' || !Number.isInteger(correctAnswer) || correctAnswer < 0 || correctAnswer >= options.length) {
+    fail('correctAnswer', `Must be a whole number from 0 to ${Math.max(0, options.length - 1)} (0 is the first option).`);
+  }
+
+  const category = textOf(values.category) as QuizCategory;
+  if (!quizCategories.includes(category)) fail('category', `Must be one of ${quizCategories.join(', ')}.`);
+  const difficulty = textOf(values.difficulty) as QuizDifficulty;
+  if (!quizDifficulties.includes(difficulty)) fail('difficulty', `Must be one of ${quizDifficulties.join(', ')}.`);
+
+  const explanation = textOf(values.explanation);
+  if (!explanation) fail('explanation', 'The explanation is empty.');
+  else if (!TAMIL_LETTER.test(explanation)) fail('explanation', 'The explanation is not in Tamil.');
+
+  const reference = textOf(values.reference);
+  if (values.reference !== undefined && typeof values.reference !== 'string') fail('reference', 'The reference must be text.');
+
+  if (issues.length > before) return null;
+  return { question, options, correctAnswer: correctAnswer as number, category, difficulty, explanation, ...(reference ? { reference } : {}) };
+};
+
+// Reads and checks a bank without applying it.
+export const parseQuizBank = (text: string, source: string): { questions: QuizQuestion[]; report: ImportReport } => {
+  const issues: ImportIssue[] = [];
+  const content = text.replace(/^\uFEFF/, '');
+  const isJson = /\.json$/i.test(source) || (!/\.csv$/i.test(source) && /^\s*[[{]/.test(content));
+  const rows = isJson ? jsonRows(content, issues) : csvRows(content, issues);
+
+  const questions: QuizQuestion[] = [];
+  const firstRow = new Map<string, number>();
+  for (const raw of rows) {
+    const question = validateRow(raw, issues);
+    if (!question) continue;
+    const key = sameText(question.question);
+    const first = firstRow.get(key);
+    if (first !== undefined) {
+      issues.push({ row: raw.row, field: 'question', message: `The same question as row ${first}.` });
+      continue;
+    }
+    firstRow.set(key, raw.row);
+    questions.push(question);
+  }
+  if (rows.length > 0 && rows.length < QUIZ_SESSION_LENGTH) {
+    issues.push({ row: 0, message: `A quiz asks ${QUIZ_SESSION_LENGTH} questions, but the file has ${rows.length}.` });
+  }
+  if (rows.length === 0 && issues.length === 0) issues.push({ row: 0, message: 'The file has no questions.' });
+
+  return { questions, report: { source, rows: rows.length, issues, applied: false } };
+};
+
+// ---- Store ---------------------------------------------------------------
+
+interface StoredBank {
+  bank: QuizBank | null;
+  // Hash of the last startup file imported, so it is not re-imported over a later upload.
+  startupHash: string | null;
+}
+
+export interface QuizBankState {
+  bank: QuizBank | null;
+  // The last import this session, from startup or an upload.
+  report: ImportReport | null;
+}
+
+const STORAGE_KEY = 'siddiqa.quizBank';
+
+const load = (): StoredBank => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { bank: null, startupHash: null, ...JSON.parse(stored) } : { bank: null, startupHash: null };
+  } catch {
+    return { bank: null, startupHash: null };
+  }
+};
+
+let stored: StoredBank = load();
+let state: QuizBankState = { bank: stored.bank, report: null };
+const listeners = new Set<() => void>();
+
+const save = (next: StoredBank, report: ImportReport | null = state.report) => {
+  stored = next;
+  state = { bank: next.bank, report };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn('Could not save the quiz bank.', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const getQuizBank = (): QuizBank | null => stored.bank;
+
+// The questions the quiz draws from: the imported bank, or the built-in ones.
+export const getQuizQuestions = (): QuizQuestion[] => stored.bank?.questions ?? quizQuestions;
+
+// Checks `text` and, when every row is valid, makes it the bank.
+export const importQuizBank = (text: string, source: string): ImportReport => {
+  const { questions, report } = parseQuizBank(text, source);
+  if (report.issues.length > 0) {
+    save(stored, report);
+    return report;
+  }
+  const applied = { ...report, applied: true };
+  save({ ...stored, bank: { source, importedAt: new Date().toISOString(), questions } }, applied);
+  return applied;
+};
+
+// Goes back to the questions built into the app.
+export const resetQuizBank = () => save({ ...stored, bank: null }, null);
+
+// Imports the bank deployed next to the app, unless it is the one imported last time.
+export const loadQuizBank = async (files: string[] = QUIZ_BANK_FILES): Promise<void> => {
+  for (const url of files) {
+    try {
+      const response = await fetch(url);
+      // The dev server answers unknown paths with index.html.
+      if (!response.ok || response.headers.get('content-type')?.includes('text/html')) continue;
+      const text = await response.text();
+      const hash = hashText(text);
+      if (hash === stored.startupHash) return;
+      const report = importQuizBank(text, url);
+      if (report.applied) {
+        save({ ...stored, startupHash: hash });
+      } else {
+        console.warn(`Quiz bank ${url} was not imported.`, report.issues);
+      }
+      return;
+    } catch (error) {
+      console.warn(`Could not load the quiz bank ${url}.`, error);
+    }
+  }
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useQuizBank = (): QuizBankState => useSyncExternalStore(subscribe, () => state);
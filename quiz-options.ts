@@ -0,0 +1,83 @@
+import { phoneticKey, similarity } from './surah-resolver';
+import { findSpokenNumbers, normalizeForNumbers } from './spoken-numbers';
+
+// Matches a spoken answer against the options' own text, so a child can answer
+// "ரமழான்" instead of "option two". Honorifics in brackets are ignored, either half
+// of an "A / B" option is enough, and words every option shares ("பாதுகாப்பு",
+// "மனைவி") do not count towards any of them.
+
+export interface OptionMatch {
+  // Index into the question's options.
+  index: number;
+  // 0..1, 1 being every distinguishing word of the option said as written.
+  score: number;
+}
+
+// Close to the top score, a second option makes the answer unclear.
+export const OPTION_AMBIGUITY_MARGIN = 0.15;
+
+const BRACKETED = /\([^)]*\)/g;
+// A Tamil word's final "ம்" or pulli changes before a case ending: "நரகம்", "நரகத்திலிருந்து".
+const FINAL_CONSONANT = /ம்$|்$/;
+
+interface OptionWord {
+  plain: string;
+  key: string;
+  // Set for numbers written as digits, which match however they are said: "10" and "பத்து".
+  value?: number;
+}
+
+const wordsOf = (text: string) =>
+  normalizeForNumbers(text.replace(BRACKETED, ' ')).split(' ').filter(Boolean);
+
+interface OptionHalf {
+  words: OptionWord[];
+  // The words run together, for "அபுபக்கர்" heard as one word.
+  joined: OptionWord | null;
+}
+
+const optionWord = (plain: string): OptionWord =>
+  ({ plain, key: phoneticKey(plain), value: /^\d+$/.test(plain) ? Number(plain) : undefined });
+
+// Each option as its halves, each half as the words that tell it apart.
+const indexOptions = (options: string[]): OptionHalf[][] => {
+  const halves = options.map(option => option.split('/').map(wordsOf));
+  const shared = new Set(halves[0].flat().filter(word => halves.every(option => option.flat().includes(word))));
+  return halves.map(option => option.map(all => {
+    const words = all.filter(word => !shared.has(word));
+    return { words: words.map(optionWord), joined: words.length > 1 ? optionWord(words.join('')) : null };
+  }));
+};
+
+// How well one spoken word matches one option word, 0..1. Tamil case endings are
+// tolerated ("ரமழானில்" for "ரமழான்"), as are small mishearings.
+const matchWord = (spoken: string, spokenKey: string, word: OptionWord): number => {
+  if (spoken === word.plain) return 1;
+  const [shorter, longer] = spoken.length < word.plain.length ? [spoken, word.plain] : [word.plain, spoken];
+  const stem = shorter.replace(FINAL_CONSONANT, '');
+  if (stem.length >= 3 && longer.startsWith(stem)) return 0.85;
+  if (spokenKey.length < 3 || word.key.length < 3) return 0;
+  const alike = similarity(spokenKey, word.key);
+  return alike >= 0.75 ? alike * 0.9 : 0;
+};
+
+const scoreHalf = (spoken: { word: string; key: string }[], numbers: number[], { words, joined }: OptionHalf) => {
+  if (words.length === 0) return 0;
+  const best = (word: OptionWord) => Math.max(0, ...spoken.map(({ word: said, key }) => matchWord(said, key, word)));
+  const total = words.reduce((sum, word) => sum + (word.value !== undefined && numbers.includes(word.value) ? 1 : best(word)), 0);
+  return Math.max(total / words.length, joined ? best(joined) : 0);
+};
+
+// Every option that sounds like `transcript`, best first.
+export const matchQuizOptions = (transcript: string, options: string[]): OptionMatch[] => {
+  if (options.length === 0) return [];
+  const spoken = wordsOf(transcript).map(word => ({ word, key: phoneticKey(word) }));
+  // Ordinals name a position ("இரண்டாவது"), never a number in an option's text.
+  const numbers = findSpokenNumbers(transcript).filter(found => !found.ordinal).map(found => found.value);
+
+  return indexOptions(options)
+    .map((halves, index) => ({ index, score: Math.max(...halves.map(half => scoreHalf(spoken, numbers, half))) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(match => ({ ...match, score: Math.round(match.score * 100) / 100 }));
+};
@@ -0,0 +1,30 @@
+// Word timing for the dua player's read-along highlighting.
+
+// Harakat, Quranic annotation marks and tatweel take no time to pronounce on their own.
+const ARABIC_MARKS = /[\u0640\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+
+// Silence between words, measured in letters.
+const WORD_GAP_WEIGHT = 1;
+
+export const splitWords = (text: string): string[] => text.trim().split(/\s+/).filter(Boolean);
+
+// Start time of each word, spreading `duration` over the words by their letter count.
+export const estimateWordTimings = (words: string[], duration: number): number[] => {
+  const weights = words.map(word => word.replace(ARABIC_MARKS, '').length + WORD_GAP_WEIGHT);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let elapsed = 0;
+  return weights.map(weight => {
+    const start = (elapsed / total) * duration;
+    elapsed += weight;
+    return start;
+  });
+};
+
+// Index of the word being spoken at `time`, or -1 before the first word.
+export const wordIndexAt = (timings: number[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < timings.length && timings[i] <= time; i++) {
+    index = i;
+  }
+  return index;
+};
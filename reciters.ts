@@ -0,0 +1,100 @@
+import { Surah } from './types';
+
+// Registry of the qurra the kiosk can play. Audio URLs are built from templates:
+// `{surah}` becomes the zero-padded surah number and `{ayah}` the zero-padded ayah.
+
+export interface Reciter {
+  id: string;
+  name: string;
+  nameTamil: string;
+  urlTemplate: string;
+  // Per-ayah files, used for verse ranges and ayah-boundary playback.
+  ayahUrlTemplate: string;
+  // Surah numbers this reciter has recordings for.
+  surahs: 'all' | number[];
+  // Lower-case spoken forms, e.g. "yasin by sudais".
+  aliases: string[];
+}
+
+const QURANICAUDIO = 'https://download.quranicaudio.com/quran';
+const EVERYAYAH = 'https://everyayah.com/data';
+
+export const reciters: Reciter[] = [
+  {
+    id: 'alafasy',
+    name: 'Mishary Rashid Alafasy',
+    nameTamil: 'மிஷாரி ராஷித் அல்-அஃபாஸி',
+    urlTemplate: `${QURANICAUDIO}/mishaari_raashid_al_3afaasee/{surah}.mp3`,
+    ayahUrlTemplate: `${EVERYAYAH}/Alafasy_128kbps/{surah}{ayah}.mp3`,
+    surahs: 'all',
+    aliases: ['alafasy', 'afasy', 'mishary', 'mishari', 'மிஷாரி', 'அஃபாஸி'],
+  },
+  {
+    id: 'sudais',
+    name: 'Abdur-Rahman as-Sudais',
+    nameTamil: 'அப்துர் ரஹ்மான் அஸ்-ஸுதைஸ்',
+    urlTemplate: `${QURANICAUDIO}/abdurrahmaan_as-sudays/{surah}.mp3`,
+    ayahUrlTemplate: `${EVERYAYAH}/Abdurrahmaan_As-Sudais_192kbps/{surah}{ayah}.mp3`,
+    surahs: 'all',
+    aliases: ['sudais', 'sudays', 'ஸுதைஸ்', 'சுதைஸ்'],
+  },
+  {
+    id: 'ghamdi',
+    name: "Sa'ad al-Ghamdi",
+    nameTamil: 'ஸஅத் அல்-ஃகாமிதி',
+    urlTemplate: `${QURANICAUDIO}/sa3d_al-ghaamidi/complete/{surah}.mp3`,
+    ayahUrlTemplate: `${EVERYAYAH}/Ghamadi_40kbps/{surah}{ayah}.mp3`,
+    surahs: 'all',
+    aliases: ['ghamdi', 'ghamidi', 'ghamadi', 'காமிதி', 'ஃகாமிதி'],
+  },
+  {
+    id: 'abdulbasit',
+    name: 'Abdul Basit Abdus-Samad',
+    nameTamil: 'அப்துல் பாஸித் அப்துஸ் ஸமத்',
+    urlTemplate: `${QURANICAUDIO}/abdul_basit_murattal/{surah}.mp3`,
+    ayahUrlTemplate: `${EVERYAYAH}/Abdul_Basit_Murattal_192kbps/{surah}{ayah}.mp3`,
+    surahs: 'all',
+    aliases: ['abdul basit', 'abdulbasit', 'basit', 'பாஸித்'],
+  },
+  {
+    id: 'husary',
+    name: 'Mahmoud Khalil al-Husary',
+    nameTamil: 'மஹ்மூத் கலீல் அல்-ஹுஸரி',
+    urlTemplate: `${QURANICAUDIO}/mahmood_khaleel_al-husaree/{surah}.mp3`,
+    ayahUrlTemplate: `${EVERYAYAH}/Husary_128kbps/{surah}{ayah}.mp3`,
+    surahs: 'all',
+    aliases: ['husary', 'husari', 'hussary', 'ஹுஸரி'],
+  },
+];
+
+export const DEFAULT_RECITER_ID = 'alafasy';
+
+const pad3 = (n: number) => String(n).padStart(3, '0');
+
+export const getReciter = (id: string): Reciter =>
+  reciters.find(r => r.id === id) ?? reciters.find(r => r.id === DEFAULT_RECITER_ID)!;
+
+export const hasSurah = (reciter: Reciter, surahNumber: number): boolean =>
+  reciter.surahs === 'all' || reciter.surahs.includes(surahNumber);
+
+// The requested reciter if they recorded this surah, otherwise the default reciter.
+export const reciterFor = (surah: Surah, reciterId: string): Reciter => {
+  const reciter = getReciter(reciterId);
+  return hasSurah(reciter, surah.number) ? reciter : getReciter(DEFAULT_RECITER_ID);
+};
+
+export const surahAudioUrl = (surah: Surah, reciter: Reciter): string =>
+  reciter.urlTemplate.replace('{surah}', pad3(surah.number));
+
+export const ayahAudioUrl = (surah: Surah, ayah: number, reciter: Reciter): string =>
+  reciter.ayahUrlTemplate.replace('{surah}', pad3(surah.number)).replace('{ayah}', pad3(ayah));
+
+// Finds a reciter named in a voice command, e.g. "yasin by sudais".
+export const findReciterInCommand = (command: string): { reciter: Reciter; alias: string } | null => {
+  const lower = command.toLowerCase();
+  for (const reciter of reciters) {
+    const alias = reciter.aliases.find(a => lower.includes(a));
+    if (alias) return { reciter, alias };
+  }
+  return null;
+};
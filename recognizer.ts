@@ -0,0 +1,331 @@
+// Speech input for Siddiqa. Screens talk to a `Recognizer`, shaped like the Web
+// Speech API's SpeechRecognition, and the operator picks the engine behind it: the
+// browser's own recogniser, an offline model on a local WebSocket server, or a
+// scripted fake for demos.
+
+import { getSettings, RecognitionSettings } from './settings';
+
+// Type declarations for the Web Speech API, which TypeScript's DOM lib does not ship.
+declare global {
+  interface Window {
+    SpeechRecognition: any;
+    webkitSpeechRecognition: any;
+  }
+
+  interface SpeechRecognitionEvent extends Event {
+    readonly results: SpeechRecognitionResultList;
+    readonly resultIndex: number;
+  }
+
+  interface SpeechRecognitionResultList {
+    [index: number]: SpeechRecognitionResult;
+    readonly length: number;
+    item(index: number): SpeechRecognitionResult;
+  }
+
+  interface SpeechRecognitionResult {
+    [index: number]: SpeechRecognitionAlternative;
+    readonly length: number;
+    readonly isFinal: boolean;
+    item(index: number): SpeechRecognitionAlternative;
+  }
+
+  interface SpeechRecognitionAlternative {
+    readonly transcript: string;
+    readonly confidence: number;
+  }
+
+  interface SpeechRecognitionErrorEvent extends Event {
+    readonly error: string;
+    readonly message: string;
+  }
+}
+
+export interface RecognitionAlternative {
+  transcript: string;
+  // 0..1; engines that do not score their guesses report 1.
+  confidence: number;
+}
+
+export interface RecognitionResult {
+  isFinal: boolean;
+  // Best guess first.
+  alternatives: RecognitionAlternative[];
+}
+
+export interface RecognitionEvent {
+  // Index of the first result that changed; earlier ones were already delivered.
+  resultIndex: number;
+  results: RecognitionResult[];
+}
+
+// The Web Speech API's error codes: 'no-speech', 'aborted', 'network', 'not-allowed', ...
+export interface RecognitionError {
+  error: string;
+  message: string;
+}
+
+export interface Recognizer {
+  lang: string;
+  continuous: boolean;
+  maxAlternatives: number;
+  start: () => void;
+  // Stops listening but still delivers what was already heard.
+  stop: () => void;
+  // Stops listening and drops anything not yet delivered.
+  abort: () => void;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((error: RecognitionError) => void) | null;
+  // Fires once after every session, whether it ended normally or with an error.
+  onend: (() => void) | null;
+}
+
+export type RecognizerBackendId = RecognitionSettings['backend'];
+
+// Screens match every alternative against their grammar, so ask for several.
+export const MAX_ALTERNATIVES = 5;
+
+// Holds the handlers and settings every backend exposes.
+const baseRecognizer = (): Recognizer => ({
+  lang: 'en-US',
+  continuous: false,
+  maxAlternatives: MAX_ALTERNATIVES,
+  start: () => {},
+  stop: () => {},
+  abort: () => {},
+  onresult: null,
+  onerror: null,
+  onend: null,
+});
+
+// ---- Web Speech API ------------------------------------------------------
+
+const browserRecognition = () => window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const createWebSpeechRecognizer = (): Recognizer | null => {
+  const SpeechRecognition = browserRecognition();
+  if (!SpeechRecognition) return null;
+
+  const recognition = new SpeechRecognition();
+  recognition.interimResults = false;
+  const recognizer = baseRecognizer();
+
+  recognition.onresult = (event: SpeechRecognitionEvent) => {
+    const results: RecognitionResult[] = [];
+    for (let i = 0; i < event.results.length; i++) {
+      const result = event.results[i];
+      const alternatives: RecognitionAlternative[] = [];
+      for (let j = 0; j < result.length; j++) {
+        alternatives.push({ transcript: result[j].transcript, confidence: result[j].confidence });
+      }
+      results.push({ isFinal: result.isFinal, alternatives });
+    }
+    recognizer.onresult?.({ resultIndex: event.resultIndex, results });
+  };
+  recognition.onerror = (event: SpeechRecognitionErrorEvent) =>
+    recognizer.onerror?.({ error: event.error, message: event.message });
+  recognition.onend = () => recognizer.onend?.();
+
+  recognizer.start = () => {
+    recognition.lang = recognizer.lang;
+    recognition.continuous = recognizer.continuous;
+    recognition.maxAlternatives = recognizer.maxAlternatives;
+    recognition.start();
+  };
+  recognizer.stop = () => recognition.stop();
+  recognizer.abort = () => recognition.abort();
+  return recognizer;
+};
+
+// ---- Local WebSocket server (Vosk, whisper.cpp) ---------------------------
+
+// Speaks the vosk-server protocol: a JSON config message, 16 kHz mono 16-bit PCM as
+// binary frames, then {"eof": 1}. The server answers with {"partial": "..."} while
+// the visitor talks and {"text": "..."} or {"alternatives": [...]} at each pause.
+// whisper.cpp and other engines can sit behind a small adapter that speaks the same.
+const SAMPLE_RATE = 16000;
+// A session with nothing recognised ends with 'no-speech' after this long.
+const NO_SPEECH_TIMEOUT_MS = 8000;
+
+interface LocalServerMessage {
+  partial?: string;
+  text?: string;
+  alternatives?: { text: string; confidence?: number }[];
+}
+
+const toPcm16 = (input: Float32Array, fromRate: number): ArrayBuffer => {
+  const ratio = fromRate / SAMPLE_RATE;
+  const output = new Int16Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const sample = Math.max(-1, Math.min(1, input[Math.floor(i * ratio)]));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return output.buffer;
+};
+
+export const createLocalServerRecognizer = (url: string): Recognizer | null => {
+  if (!url || typeof WebSocket === 'undefined' || !navigator.mediaDevices?.getUserMedia) return null;
+
+  const recognizer = baseRecognizer();
+  let socket: WebSocket | null = null;
+  let stream: MediaStream | null = null;
+  let context: AudioContext | null = null;
+  let noSpeechTimer: ReturnType<typeof setTimeout> | null = null;
+  let results: RecognitionResult[] = [];
+  let session = 0;
+
+  const release = () => {
+    if (noSpeechTimer) clearTimeout(noSpeechTimer);
+    noSpeechTimer = null;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    context?.close().catch(() => undefined);
+    context = null;
+  };
+
+  const end = (id: number, error?: RecognitionError) => {
+    if (id !== session) return;
+    session++;
+    release();
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ eof: 1 }));
+    socket?.close();
+    socket = null;
+    if (error) recognizer.onerror?.(error);
+    recognizer.onend?.();
+  };
+
+  const handleMessage = (id: number, message: LocalServerMessage) => {
+    const alternatives = message.alternatives
+      ? message.alternatives.map(alt => ({ transcript: alt.text, confidence: alt.confidence ?? 1 }))
+      : message.text ? [{ transcript: message.text, confidence: 1 }] : [];
+    if (!alternatives.length || !alternatives[0].transcript.trim()) return;
+
+    if (noSpeechTimer) clearTimeout(noSpeechTimer);
+    noSpeechTimer = null;
+    results = [...results, { isFinal: true, alternatives: alternatives.slice(0, recognizer.maxAlternatives) }];
+    recognizer.onresult?.({ resultIndex: results.length - 1, results });
+    if (!recognizer.continuous) end(id);
+  };
+
+  const capture = async (id: number, ws: WebSocket) => {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true } });
+    if (id !== session) return release();
+    context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    // ScriptProcessorNode is deprecated but needs no separate worklet file, and one
+    // mono stream at kiosk scale is well within what it handles.
+    const processor = context.createScriptProcessor(4096, 1, 1);
+    processor.onaudioprocess = event => {
+      if (ws.readyState === WebSocket.OPEN) ws.send(toPcm16(event.inputBuffer.getChannelData(0), context!.sampleRate));
+    };
+    source.connect(processor);
+    processor.connect(context.destination);
+  };
+
+  recognizer.start = () => {
+    if (socket) throw new Error('Recognition is already running');
+    const id = ++session;
+    results = [];
+    const ws = new WebSocket(url);
+    socket = ws;
+    ws.onopen = () => {
+      ws.send(JSON.stringify({
+        config: { sample_rate: SAMPLE_RATE, max_alternatives: recognizer.maxAlternatives > 1 ? recognizer.maxAlternatives : 0, lang: recognizer.lang },
+      }));
+      capture(id, ws).catch(error => {
+        const denied = error instanceof DOMException && error.name === 'NotAllowedError';
+        end(id, { error: denied ? 'not-allowed' : 'audio-capture', message: String(error) });
+      });
+      if (!recognizer.continuous) {
+        noSpeechTimer = setTimeout(() => end(id, { error: 'no-speech', message: 'Nothing was recognised' }), NO_SPEECH_TIMEOUT_MS);
+      }
+    };
+    ws.onmessage = event => {
+      try {
+        handleMessage(id, JSON.parse(event.data));
+      } catch (error) {
+        console.warn('Unreadable message from the recognition server.', error);
+      }
+    };
+    ws.onerror = () => end(id, { error: 'network', message: `Could not reach ${url}` });
+    ws.onclose = () => end(id);
+  };
+  // The server flushes what it has heard once it receives eof.
+  recognizer.stop = () => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ eof: 1 }));
+    else end(session);
+  };
+  recognizer.abort = () => end(session, { error: 'aborted', message: 'Recognition aborted' });
+  return recognizer;
+};
+
+// ---- Scripted fake -------------------------------------------------------
+
+// "Hears" each line of the script in turn, one line per session; an empty line is
+// a visitor who says nothing. For demos without a microphone and for trying flows.
+const SCRIPTED_DELAY_MS = 1200;
+// Shared by every scripted recogniser so a demo carries on across screens.
+let scriptedLine = 0;
+
+export const createScriptedRecognizer = (script: string[]): Recognizer => {
+  const recognizer = baseRecognizer();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const finish = (error?: RecognitionError) => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (error) recognizer.onerror?.(error);
+    recognizer.onend?.();
+  };
+
+  recognizer.start = () => {
+    if (timer) throw new Error('Recognition is already running');
+    timer = setTimeout(() => {
+      const transcript = script.length ? script[scriptedLine++ % script.length].trim() : '';
+      if (!transcript) return finish({ error: 'no-speech', message: 'Scripted silence' });
+      recognizer.onresult?.({ resultIndex: 0, results: [{ isFinal: true, alternatives: [{ transcript, confidence: 1 }] }] });
+      // Continuous sessions keep going until stopped, like the browser's.
+      if (recognizer.continuous) {
+        timer = null;
+        recognizer.start();
+      } else {
+        finish();
+      }
+    }, SCRIPTED_DELAY_MS);
+  };
+  recognizer.stop = () => { if (timer) finish(); };
+  recognizer.abort = () => { if (timer) finish({ error: 'aborted', message: 'Recognition aborted' }); };
+  return recognizer;
+};
+
+// ---- Selection -----------------------------------------------------------
+
+export const RECOGNIZER_BACKENDS: { id: RecognizerBackendId; label: string }[] = [
+  { id: 'webSpeech', label: 'Browser speech recognition (Chrome, needs internet)' },
+  { id: 'localServer', label: 'Local offline server (Vosk / whisper.cpp over WebSocket)' },
+  { id: 'scripted', label: 'Scripted demo (no microphone)' },
+];
+
+export const createRecognizer = (config: RecognitionSettings = getSettings().recognition): Recognizer | null => {
+  switch (config.backend) {
+    case 'localServer':
+      return createLocalServerRecognizer(config.serverUrl);
+    case 'scripted':
+      return createScriptedRecognizer(config.script);
+    case 'webSpeech':
+    default:
+      return createWebSpeechRecognizer();
+  }
+};
+
+export const isRecognitionSupported = (config: RecognitionSettings = getSettings().recognition): boolean => {
+  switch (config.backend) {
+    case 'localServer':
+      return !!config.serverUrl && typeof WebSocket !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+    case 'scripted':
+      return true;
+    case 'webSpeech':
+    default:
+      return !!browserRecognition();
+  }
+};
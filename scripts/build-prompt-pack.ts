@@ -0,0 +1,85 @@
+// Renders every fixed phrase into public/prompts and writes the manifest the app
+// reads at startup. Run with `npm run build:prompts`; existing files are reused,
+// so only new or changed phrases are fetched.
+
+import { mkdir, readFile, writeFile, access, unlink } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { allPrompts } from '../prompts';
+import { CATALOGS, LOCALES, Locale, t } from '../i18n';
+import { duaDatabase, quizQuestions } from '../constants';
+import { promptKey, PROMPT_MANIFEST_FILE, type PromptManifest } from '../prompt-pack';
+import type { SpeechRequest } from '../speech';
+import { fetchSpeech } from '../tts';
+
+const OUTPUT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'public', 'prompts');
+
+// Quiz options and dua choices are read out as "1 ..., 2 ...", up to four of them.
+const SPOKEN_CHOICE_NUMBERS = 4;
+
+const locales = Object.keys(CATALOGS) as Locale[];
+
+// Besides the catalog prompts, the built-in content Siddiqa reads out on every play.
+const collectPhrases = (): SpeechRequest[] => {
+  const phrases: SpeechRequest[] = [
+    ...allPrompts(),
+    ...Object.values(duaDatabase).flatMap(dua => [
+      ...(dua.audio ? [] : [{ text: dua.arabic, lang: 'ar' }]),
+      { text: dua.translationTamil, lang: 'ta' },
+      { text: dua.name, lang: 'ta' },
+    ]),
+    ...quizQuestions.flatMap(q => [q.question, q.explanation, ...q.options].map(text => ({ text, lang: 'ta' }))),
+    ...locales.flatMap(locale => [
+      { text: t('quiz.revealAnswer', {}, locale), lang: LOCALES[locale].speechLang },
+      ...Array.from({ length: SPOKEN_CHOICE_NUMBERS }, (_, i) => ({ text: String(i + 1), lang: LOCALES[locale].speechLang })),
+    ]),
+  ];
+  const unique = new Map(phrases.map(p => [promptKey(p.text, p.lang), p]));
+  return [...unique.values()];
+};
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+const readManifest = async (): Promise<PromptManifest | null> => {
+  try {
+    return JSON.parse(await readFile(path.join(OUTPUT_DIR, PROMPT_MANIFEST_FILE), 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+const main = async () => {
+  await mkdir(OUTPUT_DIR, { recursive: true });
+  const previous = await readManifest();
+  const prompts: Record<string, string> = {};
+  let fetched = 0;
+  let failed = 0;
+
+  for (const phrase of collectPhrases()) {
+    const key = promptKey(phrase.text, phrase.lang);
+    const file = `${key}.mp3`;
+    if (!(await exists(path.join(OUTPUT_DIR, file)))) {
+      try {
+        await writeFile(path.join(OUTPUT_DIR, file), await fetchSpeech(phrase.text, phrase.lang));
+        fetched++;
+      } catch (error) {
+        console.error(`Could not render ${key} ("${phrase.text.slice(0, 40)}")`, error);
+        failed++;
+        continue;
+      }
+    }
+    prompts[key] = file;
+  }
+
+  // Drop audio for phrases that no longer exist.
+  for (const [key, file] of Object.entries(previous?.prompts ?? {})) {
+    if (!prompts[key]) await unlink(path.join(OUTPUT_DIR, file)).catch(() => undefined);
+  }
+
+  const manifest: PromptManifest = { version: 1, generatedAt: new Date().toISOString(), prompts };
+  await writeFile(path.join(OUTPUT_DIR, PROMPT_MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+  console.log(`Prompt pack: ${Object.keys(prompts).length} phrases (${fetched} fetched, ${failed} failed).`);
+  if (failed > 0) process.exitCode = 1;
+};
+
+main();
@@ -0,0 +1,83 @@
+import { useSyncExternalStore } from 'react';
+import type { Locale } from './i18n';
+
+// Operator settings for the kiosk, persisted in localStorage so they survive reloads.
+
+export type RecitationPolicy =
+  | { mode: 'preview'; seconds: number }
+  | { mode: 'full' }
+  // Plays ayah by ayah and stops at the end of the ayah that is playing after `seconds`.
+  | { mode: 'ayahBoundary'; seconds: number };
+
+export interface DuaPlaybackSettings {
+  // How many times the Arabic (and translation) sequence plays.
+  repeat: number;
+  includeTranslation: boolean;
+  // Seconds without a command before the player returns to the dua list.
+  returnAfterSeconds: number;
+}
+
+export interface ListeningSettings {
+  // Keeps the mic open and waits for the wake word instead of a button press.
+  handsFree: boolean;
+  // Seconds a bare "Siddiqa" (or a spoken prompt) waits for the command that follows.
+  wakeWindowSeconds: number;
+}
+
+export interface RecognitionSettings {
+  backend: 'webSpeech' | 'localServer' | 'scripted';
+  // WebSocket address of the offline engine, e.g. a vosk-server on the kiosk itself.
+  serverUrl: string;
+  // Lines the scripted backend "hears", one per listening session.
+  script: string[];
+}
+
+export interface KioskSettings {
+  recitation: RecitationPolicy;
+  dua: DuaPlaybackSettings;
+  listening: ListeningSettings;
+  recognition: RecognitionSettings;
+  // The language each visitor starts in; they can switch on the welcome screen.
+  defaultLocale: Locale;
+}
+
+const STORAGE_KEY = 'siddiqa.settings';
+
+export const DEFAULT_SETTINGS: KioskSettings = {
+  recitation: { mode: 'preview', seconds: 60 },
+  dua: { repeat: 1, includeTranslation: true, returnAfterSeconds: 30 },
+  listening: { handsFree: false, wakeWindowSeconds: 8 },
+  recognition: { backend: 'webSpeech', serverUrl: 'ws://localhost:2700', script: [] },
+  defaultLocale: 'ta',
+};
+
+const load = (): KioskSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+let current: KioskSettings = load();
+const listeners = new Set<() => void>();
+
+export const getSettings = (): KioskSettings => current;
+
+export const updateSettings = (patch: Partial<KioskSettings>) => {
+  current = { ...current, ...patch };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch (error) {
+    console.warn('Could not save settings.', error);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const useSettings = (): KioskSettings => useSyncExternalStore(subscribe, getSettings);
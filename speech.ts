@@ -0,0 +1,294 @@
+// Central speech output for Siddiqa.
+// Every spoken prompt goes through `speak` so that the provider, the queue and
+// cancellation are handled in one place instead of on each screen.
+
+import { lookupPrompt } from './prompt-pack';
+
+export type SpeechLang = 'ta' | 'ar' | 'en' | (string & {});
+
+export interface SpeechRequest {
+  text: string;
+  lang: SpeechLang;
+  // A recording of `text`, preferred over synthesis when it plays.
+  audio?: string;
+}
+
+export interface SpeakOptions {
+  // Cancellation token: aborting it removes the utterance from the queue or stops it mid-playback.
+  signal?: AbortSignal;
+  // Cancel everything queued or playing before this utterance.
+  interrupt?: boolean;
+  // Called once audio actually starts playing.
+  onStart?: () => void;
+  // Recording to play instead of synthesising `text`; TTS is the fallback.
+  audio?: string;
+  // Seconds into the audio to start from.
+  startAt?: number;
+  // Playback position in seconds, reported every animation frame while audio plays.
+  onProgress?: (currentTime: number, duration: number) => void;
+}
+
+export interface PlaybackHooks {
+  onStart: () => void;
+  onProgress: (currentTime: number, duration: number) => void;
+  // Backends that cannot seek (speech synthesis) start from the beginning.
+  startAt: number;
+  // 0..1
+  volume: number;
+}
+
+export interface SpeechBackend {
+  name: string;
+  supports: (request: SpeechRequest) => boolean;
+  play: (request: SpeechRequest, signal: AbortSignal, hooks: PlaybackHooks) => Promise<void>;
+}
+
+export class SpeechCancelledError extends Error {
+  constructor() {
+    super('Speech cancelled');
+    this.name = 'SpeechCancelledError';
+  }
+}
+
+export const isSpeechCancelled = (error: unknown): boolean => error instanceof SpeechCancelledError;
+
+// Served by tts.ts in production and proxied to Google by the Vite dev server.
+export const TTS_ENDPOINT = '/api/tts';
+
+const SYNTHESIS_LANGS: Record<string, string> = {
+  ta: 'ta-IN',
+  ar: 'ar-SA',
+  en: 'en-US',
+  ml: 'ml-IN',
+  ur: 'ur-PK',
+};
+
+let sharedAudio: HTMLAudioElement | null = null;
+
+// Prompts use their own element so they never trigger the recitation player's `ended` handler.
+const getSpeechAudio = (): HTMLAudioElement => {
+  if (!sharedAudio) {
+    sharedAudio = new Audio();
+  }
+  return sharedAudio;
+};
+
+const playAudioUrl = (url: string, signal: AbortSignal, hooks: PlaybackHooks) => {
+  return new Promise<void>((resolve, reject) => {
+    const audio = getSpeechAudio();
+    let frame = 0;
+
+    const reportProgress = () => {
+      if (!Number.isNaN(audio.duration)) hooks.onProgress(audio.currentTime, audio.duration);
+      frame = requestAnimationFrame(reportProgress);
+    };
+    const cleanup = () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('loadedmetadata', onLoaded);
+      audio.removeEventListener('playing', onPlaying);
+      audio.removeEventListener('ended', onEnded);
+      audio.removeEventListener('error', onError);
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onLoaded = () => {
+      if (hooks.startAt > 0) audio.currentTime = hooks.startAt;
+    };
+    const onPlaying = () => {
+      hooks.onStart();
+      cancelAnimationFrame(frame);
+      reportProgress();
+    };
+    const onEnded = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (e: unknown) => {
+      cleanup();
+      reject(e instanceof Error ? e : new Error(`Could not play ${url}`));
+    };
+    const onAbort = () => {
+      cleanup();
+      audio.pause();
+      audio.removeAttribute('src');
+      reject(new SpeechCancelledError());
+    };
+
+    if (signal.aborted) return onAbort();
+
+    audio.src = url;
+    audio.volume = hooks.volume;
+    audio.addEventListener('loadedmetadata', onLoaded);
+    audio.addEventListener('playing', onPlaying);
+    audio.addEventListener('ended', onEnded);
+    audio.addEventListener('error', onError);
+    signal.addEventListener('abort', onAbort);
+    audio.play().catch(onError);
+  });
+};
+
+export const createProxyBackend = (endpoint: string = TTS_ENDPOINT): SpeechBackend => ({
+  name: 'proxy',
+  supports: ({ text }) => text.trim().length > 0,
+  play: ({ text, lang }, signal, hooks) => {
+    const params = new URLSearchParams({ text, lang });
+    return playAudioUrl(`${endpoint}?${params.toString()}`, signal, hooks);
+  },
+});
+
+// Plays a prerecorded file when `lookup` knows one for the request.
+export const createPrerecordedBackend = (lookup: (request: SpeechRequest) => string | null): SpeechBackend => ({
+  name: 'prerecorded',
+  supports: (request) => lookup(request) !== null,
+  play: (request, signal, hooks) => playAudioUrl(lookup(request)!, signal, hooks),
+});
+
+export const createSpeechSynthesisBackend = (): SpeechBackend => ({
+  name: 'speechSynthesis',
+  supports: () => typeof window !== 'undefined' && 'speechSynthesis' in window,
+  // Reports no progress and cannot seek; read-along highlighting needs an audio backend.
+  play: ({ text, lang }, signal, hooks) => {
+    return new Promise<void>((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = SYNTHESIS_LANGS[lang] || lang;
+      utterance.volume = hooks.volume;
+
+      const onAbort = () => {
+        window.speechSynthesis.cancel();
+        reject(new SpeechCancelledError());
+      };
+      if (signal.aborted) return onAbort();
+
+      utterance.onstart = () => hooks.onStart();
+      utterance.onend = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      utterance.onerror = (event) => {
+        signal.removeEventListener('abort', onAbort);
+        if (signal.aborted) return;
+        reject(new Error(`Speech synthesis failed: ${event.error}`));
+      };
+      signal.addEventListener('abort', onAbort);
+      window.speechSynthesis.speak(utterance);
+    });
+  },
+});
+
+export const createSpeechService = (initialBackends: SpeechBackend[]) => {
+  let backends = initialBackends;
+  let queue: Promise<void> = Promise.resolve();
+  let speaking = false;
+  const pending = new Set<AbortController>();
+  const listeners = new Set<(speaking: boolean) => void>();
+  const volumeListeners = new Set<(volume: number) => void>();
+  let lastRequest: SpeechRequest | null = null;
+  let volume = 1;
+
+  const setSpeaking = (value: boolean) => {
+    if (speaking === value) return;
+    speaking = value;
+    listeners.forEach(listener => listener(value));
+  };
+
+  const playWithFallback = async (request: SpeechRequest, signal: AbortSignal, hooks: PlaybackHooks) => {
+    let lastError: unknown = new Error(`No speech backend for "${request.lang}"`);
+    for (const backend of backends) {
+      if (!backend.supports(request)) continue;
+      try {
+        await backend.play(request, signal, hooks);
+        return;
+      } catch (error) {
+        if (signal.aborted || isSpeechCancelled(error)) throw new SpeechCancelledError();
+        console.warn(`Speech backend "${backend.name}" failed, trying the next one.`, error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  };
+
+  const cancel = () => {
+    pending.forEach(controller => controller.abort());
+    pending.clear();
+    setSpeaking(false);
+  };
+
+  const speak = (text: string, lang: SpeechLang, options: SpeakOptions = {}): Promise<void> => {
+    if (options.interrupt) cancel();
+
+    const controller = new AbortController();
+    const { signal: external } = options;
+    if (external) {
+      if (external.aborted) controller.abort();
+      else external.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+    pending.add(controller);
+    lastRequest = { text, lang, audio: options.audio };
+
+    const run = async () => {
+      try {
+        if (controller.signal.aborted) throw new SpeechCancelledError();
+        setSpeaking(true);
+        await playWithFallback({ text, lang, audio: options.audio }, controller.signal, {
+          onStart: () => options.onStart?.(),
+          onProgress: (time, duration) => options.onProgress?.(time, duration),
+          startAt: options.startAt ?? 0,
+          volume,
+        });
+      } finally {
+        pending.delete(controller);
+        if (pending.size === 0) setSpeaking(false);
+      }
+    };
+
+    const result = queue.then(run, run);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    speak,
+    cancel,
+    isSpeaking: () => speaking,
+    onSpeakingChange: (listener: (speaking: boolean) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    setBackends: (next: SpeechBackend[]) => { backends = next; },
+    // The most recent utterance, for "repeat that".
+    lastUtterance: () => lastRequest,
+    getVolume: () => volume,
+    setVolume: (next: number) => {
+      volume = Math.min(1, Math.max(0, next));
+      getSpeechAudio().volume = volume;
+      volumeListeners.forEach(listener => listener(volume));
+    },
+    onVolumeChange: (listener: (volume: number) => void) => {
+      volumeListeners.add(listener);
+      return () => { volumeListeners.delete(listener); };
+    },
+  };
+};
+
+export type SpeechService = ReturnType<typeof createSpeechService>;
+
+// Recordings and the offline prompt pack come first; anything else falls through to live TTS.
+export const speech = createSpeechService([
+  createPrerecordedBackend(request => request.audio ?? lookupPrompt(request)),
+  createProxyBackend(),
+  createSpeechSynthesisBackend(),
+]);
+
+export const speak = speech.speak;
+
+export const speakPrompt = (prompt: SpeechRequest, options?: SpeakOptions) => speak(prompt.text, prompt.lang, options);
+
+const VOLUME_STEP = 0.2;
+
+export const changeVolume = (direction: 'up' | 'down') =>
+  speech.setVolume(speech.getVolume() + (direction === 'up' ? VOLUME_STEP : -VOLUME_STEP));
+
+// Says the last utterance again, cutting off anything still playing.
+export const repeatLastUtterance = (options: SpeakOptions = {}): Promise<void> => {
+  const last = speech.lastUtterance();
+  return last ? speak(last.text, last.lang, { ...options, audio: last.audio, interrupt: true }) : Promise.resolve();
+};
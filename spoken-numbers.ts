@@ -0,0 +1,146 @@
+// Numbers as visitors say them: digits, English words and Tamil words, cardinal or
+// ordinal ("36", "thirty six", "36th", "முப்பத்தி ஆறு", "முப்பத்தாறாவது").
+
+export interface SpokenNumber {
+  value: number;
+  ordinal: boolean;
+  // Word positions of the match in the normalised text: [start, end).
+  start: number;
+  end: number;
+}
+
+export const MAX_SPOKEN_NUMBER = 199;
+
+const EN_ONES = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+const EN_TEENS = ['ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_ORDINALS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+};
+
+const englishOrdinal = (word: string) =>
+  EN_ORDINALS[word] ?? (word.endsWith('y') ? `${word.slice(0, -1)}ieth` : `${word}th`);
+
+const englishWords = (n: number): string[] => {
+  if (n >= 100) {
+    const rest = n - 100;
+    if (rest === 0) return ['hundred', 'one hundred', 'a hundred'];
+    return englishWords(rest).flatMap(words =>
+      ['one hundred', 'a hundred', 'hundred'].flatMap(h => [`${h} ${words}`, `${h} and ${words}`])
+    );
+  }
+  if (n < 10) return [EN_ONES[n]];
+  if (n < 20) return [EN_TEENS[n - 10]];
+  const tens = EN_TENS[Math.floor(n / 10)];
+  return n % 10 === 0 ? [tens] : [`${tens} ${EN_ONES[n % 10]}`];
+};
+
+// Tamil units, with common spoken variants.
+const TA_ONES: string[][] = [
+  [], ['ஒன்று', 'ஒண்ணு'], ['இரண்டு', 'ரெண்டு'], ['மூன்று'], ['நான்கு', 'நாலு'],
+  ['ஐந்து', 'அஞ்சு'], ['ஆறு'], ['ஏழு'], ['எட்டு'], ['ஒன்பது'],
+];
+const TA_TEENS = ['பத்து', 'பதினொன்று', 'பன்னிரண்டு', 'பதிமூன்று', 'பதினான்கு', 'பதினைந்து', 'பதினாறு', 'பதினேழு', 'பதினெட்டு', 'பத்தொன்பது'];
+// Round tens and their combining stems, which end in a dead consonant (புள்ளி).
+const TA_TENS: [string, string][] = [
+  ['', ''], ['', ''], ['இருபது', 'இருபத்'], ['முப்பது', 'முப்பத்'], ['நாற்பது', 'நாற்பத்'],
+  ['ஐம்பது', 'ஐம்பத்'], ['அறுபது', 'அறுபத்'], ['எழுபது', 'எழுபத்'], ['எண்பது', 'எண்பத்'], ['தொண்ணூறு', 'தொண்ணூற்'],
+];
+const TA_HUNDRED: [string, string] = ['நூறு', 'நூற்'];
+
+const PULLI = '்';
+const TA_VOWEL_SIGNS: Record<string, string> = {
+  'அ': '', 'ஆ': 'ா', 'இ': 'ி', 'ஈ': 'ீ', 'உ': 'ு', 'ஊ': 'ூ',
+  'எ': 'ெ', 'ஏ': 'ே', 'ஐ': 'ை', 'ஒ': 'ொ', 'ஓ': 'ோ', 'ஔ': 'ௌ',
+};
+
+// "முப்பத்" + "ஆறு": the stem's consonant is doubled and takes the next word's vowel,
+// giving the joined form "முப்பத்தாறு" alongside "முப்பத்து ஆறு" and "முப்பத்தி ஆறு".
+const joinTamil = (stem: string, rest: string): string[] => {
+  const consonant = stem.slice(-2, -1);
+  const forms = [`${stem}${consonant}ு ${rest}`, `${stem}${consonant}ி ${rest}`];
+  const sign = TA_VOWEL_SIGNS[rest[0]];
+  forms.push(sign !== undefined ? `${stem}${consonant}${sign}${rest.slice(1)}` : `${stem}${consonant}ு${rest}`);
+  // Before க, ச, த, ப the hard consonant doubles: "நூற்றுப் பத்து".
+  if ('கசதப'.includes(rest[0])) {
+    forms.push(`${stem}${consonant}ு${rest[0]}${PULLI} ${rest}`, `${stem}${consonant}ு${rest[0]}${PULLI}${rest}`);
+  }
+  return forms;
+};
+
+const tamilWords = (n: number): string[] => {
+  if (n >= 100) {
+    const rest = n - 100;
+    return rest === 0 ? [TA_HUNDRED[0]] : tamilWords(rest).flatMap(words => joinTamil(TA_HUNDRED[1], words));
+  }
+  if (n < 10) return TA_ONES[n];
+  if (n < 20) return [TA_TEENS[n - 10]];
+  const [round, stem] = TA_TENS[Math.floor(n / 10)];
+  return n % 10 === 0 ? [round] : TA_ONES[n % 10].flatMap(unit => joinTamil(stem, unit));
+};
+
+// Tamil number words end in the உ sign: "ஆறு" becomes "ஆறாவது" or "ஆறாம்".
+const tamilOrdinals = (phrase: string): string[] =>
+  phrase.endsWith('ு') ? [`${phrase.slice(0, -1)}ாவது`, `${phrase.slice(0, -1)}ாம்`] : [];
+
+let phrases: Map<string, { value: number; ordinal: boolean }> | null = null;
+
+const buildPhrases = () => {
+  const map = new Map<string, { value: number; ordinal: boolean }>();
+  for (let n = 1; n <= MAX_SPOKEN_NUMBER; n++) {
+    for (const words of [...englishWords(n), ...tamilWords(n)]) {
+      map.set(words, { value: n, ordinal: false });
+    }
+    for (const words of englishWords(n)) {
+      const parts = words.split(' ');
+      parts.push(englishOrdinal(parts.pop()!));
+      map.set(parts.join(' '), { value: n, ordinal: true });
+    }
+    for (const words of tamilWords(n)) {
+      tamilOrdinals(words).forEach(ordinal => map.set(ordinal, { value: n, ordinal: true }));
+    }
+  }
+  ['முதல்', 'முதலாவது', 'முதலாம்'].forEach(word => map.set(word, { value: 1, ordinal: true }));
+  return map;
+};
+
+const LONGEST_PHRASE = 5;
+const DIGITS = /^(\d+)(st|nd|rd|th|வது|ஆவது|ஆம்)?$/;
+
+export const normalizeForNumbers = (text: string): string =>
+  text
+    .toLowerCase()
+    .normalize('NFC')
+    .replace(/(\d)\s*-?\s*(வது|ஆவது|ஆம்)/g, '$1$2')
+    .replace(/[-.,?!]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(' ');
+
+// Every number in `text`, longest phrase first, e.g. "surah thirty six" -> 36 at words [1, 3).
+export const findSpokenNumbers = (text: string): SpokenNumber[] => {
+  phrases ??= buildPhrases();
+  const words = normalizeForNumbers(text).split(' ');
+  const found: SpokenNumber[] = [];
+
+  for (let i = 0; i < words.length;) {
+    const digits = DIGITS.exec(words[i]);
+    if (digits) {
+      found.push({ value: Number(digits[1]), ordinal: !!digits[2], start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    let matched = false;
+    for (let length = Math.min(LONGEST_PHRASE, words.length - i); length > 0; length--) {
+      const phrase = phrases.get(words.slice(i, i + length).join(' '));
+      if (phrase) {
+        found.push({ ...phrase, start: i, end: i + length });
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) i++;
+  }
+  return found;
+};
@@ -1,216 +1,216 @@
 import { SurahDatabase } from './types';
 
 export const surahDatabase: SurahDatabase = {
-  'al-fatiha': { name: 'Al-Fatiha', number: 1, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/001.mp3' },
-  'fatiha': { name: 'Al-Fatiha', number: 1, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/001.mp3' },
-  'al-baqarah': { name: 'Al-Baqarah', number: 2, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/002.mp3' },
-  'baqarah': { name: 'Al-Baqarah', number: 2, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/002.mp3' },
-  'aal-imran': { name: 'Aal-Imran', number: 3, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/003.mp3' },
-  'imran': { name: 'Aal-Imran', number: 3, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/003.mp3' },
-  'an-nisa': { name: 'An-Nisa', number: 4, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/004.mp3' },
-  'nisa': { name: 'An-Nisa', number: 4, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/004.mp3' },
-  'al-maidah': { name: 'Al-Maidah', number: 5, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/005.mp3' },
-  'maidah': { name: 'Al-Maidah', number: 5, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/005.mp3' },
-  'al-anam': { name: 'Al-Anam', number: 6, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/006.mp3' },
-  'anam': { name: 'Al-Anam', number: 6, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/006.mp3' },
-  'al-araf': { name: 'Al-Araf', number: 7, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/007.mp3' },
-  'araf': { name: 'Al-Araf', number: 7, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/007.mp3' },
-  'al-anfal': { name: 'Al-Anfal', number: 8, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/008.mp3' },
-  'anfal': { name: 'Al-Anfal', number: 8, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/008.mp3' },
-  'at-tawbah': { name: 'At-Tawbah', number: 9, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/009.mp3' },
-  'tawbah': { name: 'At-Tawbah', number: 9, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/009.mp3' },
-  'yunus': { name: 'Yunus', number: 10, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/010.mp3' },
-  'hud': { name: 'Hud', number: 11, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/011.mp3' },
-  'yusuf': { name: 'Yusuf', number: 12, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/012.mp3' },
-  'ar-rad': { name: 'Ar-Rad', number: 13, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/013.mp3' },
-  'rad': { name: 'Ar-Rad', number: 13, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/013.mp3' },
-  'ibrahim': { name: 'Ibrahim', number: 14, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/014.mp3' },
-  'al-hijr': { name: 'Al-Hijr', number: 15, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/015.mp3' },
-  'hijr': { name: 'Al-Hijr', number: 15, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/015.mp3' },
-  'an-nahl': { name: 'An-Nahl', number: 16, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/016.mp3' },
-  'nahl': { name: 'An-Nahl', number: 16, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/016.mp3' },
-  'al-isra': { name: 'Al-Isra', number: 17, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/017.mp3' },
-  'isra': { name: 'Al-Isra', number: 17, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/017.mp3' },
-  'al-kahf': { name: 'Al-Kahf', number: 18, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/018.mp3' },
-  'kahf': { name: 'Al-Kahf', number: 18, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/018.mp3' },
-  'maryam': { name: 'Maryam', number: 19, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/019.mp3' },
-  'taha': { name: 'Taha', number: 20, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/020.mp3' },
-  'al-anbiya': { name: 'Al-Anbiya', number: 21, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/021.mp3' },
-  'anbiya': { name: 'Al-Anbiya', number: 21, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/021.mp3' },
-  'al-hajj': { name: 'Al-Hajj', number: 22, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/022.mp3' },
-  'hajj': { name: 'Al-Hajj', number: 22, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/022.mp3' },
-  'al-muminun': { name: 'Al-Muminun', number: 23, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/023.mp3' },
-  'muminun': { name: 'Al-Muminun', number: 23, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/023.mp3' },
-  'an-nur': { name: 'An-Nur', number: 24, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/024.mp3' },
-  'nur': { name: 'An-Nur', number: 24, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/024.mp3' },
-  'al-furqan': { name: 'Al-Furqan', number: 25, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/025.mp3' },
-  'furqan': { name: 'Al-Furqan', number: 25, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/025.mp3' },
-  'ash-shuara': { name: 'Ash-Shuara', number: 26, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/026.mp3' },
-  'shuara': { name: 'Ash-Shuara', number: 26, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/026.mp3' },
-  'an-naml': { name: 'An-Naml', number: 27, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/027.mp3' },
-  'naml': { name: 'An-Naml', number: 27, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/027.mp3' },
-  'al-qasas': { name: 'Al-Qasas', number: 28, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/028.mp3' },
-  'qasas': { name: 'Al-Qasas', number: 28, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/028.mp3' },
-  'al-ankabut': { name: 'Al-Ankabut', number: 29, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/029.mp3' },
-  'ankabut': { name: 'Al-Ankabut', number: 29, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/029.mp3' },
-  'ar-rum': { name: 'Ar-Rum', number: 30, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/030.mp3' },
-  'rum': { name: 'Ar-Rum', number: 30, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/030.mp3' },
-  'luqman': { name: 'Luqman', number: 31, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/031.mp3' },
-  'as-sajdah': { name: 'As-Sajdah', number: 32, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/032.mp3' },
-  'sajdah': { name: 'As-Sajdah', number: 32, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/032.mp3' },
-  'al-ahzab': { name: 'Al-Ahzab', number: 33, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/033.mp3' },
-  'ahzab': { name: 'Al-Ahzab', number: 33, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/033.mp3' },
-  'saba': { name: 'Saba', number: 34, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/034.mp3' },
-  'fatir': { name: 'Fatir', number: 35, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/035.mp3' },
-  'ya-sin': { name: 'Ya-Sin', number: 36, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/036.mp3' },
-  'yasin': { name: 'Ya-Sin', number: 36, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/036.mp3' },
-  'as-saffat': { name: 'As-Saffat', number: 37, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/037.mp3' },
-  'saffat': { name: 'As-Saffat', number: 37, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/037.mp3' },
-  'sad': { name: 'Sad', number: 38, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/038.mp3' },
-  'az-zumar': { name: 'Az-Zumar', number: 39, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/039.mp3' },
-  'zumar': { name: 'Az-Zumar', number: 39, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/039.mp3' },
-  'ghafir': { name: 'Ghafir', number: 40, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/040.mp3' },
-  'fussilat': { name: 'Fussilat', number: 41, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/041.mp3' },
-  'ash-shura': { name: 'Ash-Shura', number: 42, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/042.mp3' },
-  'shura': { name: 'Ash-Shura', number: 42, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/042.mp3' },
-  'az-zukhruf': { name: 'Az-Zukhruf', number: 43, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/043.mp3' },
-  'zukhruf': { name: 'Az-Zukhruf', number: 43, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/043.mp3' },
-  'ad-dukhan': { name: 'Ad-Dukhan', number: 44, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/044.mp3' },
-  'dukhan': { name: 'Ad-Dukhan', number: 44, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/044.mp3' },
-  'al-jathiyah': { name: 'Al-Jathiyah', number: 45, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/045.mp3' },
-  'jathiyah': { name: 'Al-Jathiyah', number: 45, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/045.mp3' },
-  'al-ahqaf': { name: 'Al-Ahqaf', number: 46, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/046.mp3' },
-  'ahqaf': { name: 'Al-Ahqaf', number: 46, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/046.mp3' },
-  'muhammad': { name: 'Muhammad', number: 47, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/047.mp3' },
-  'al-fath': { name: 'Al-Fath', number: 48, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/048.mp3' },
-  'fath': { name: 'Al-Fath', number: 48, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/048.mp3' },
-  'al-hujurat': { name: 'Al-Hujurat', number: 49, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/049.mp3' },
-  'hujurat': { name: 'Al-Hujurat', number: 49, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/049.mp3' },
-  'qaf': { name: 'Qaf', number: 50, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/050.mp3' },
-  'adh-dhariyat': { name: 'Adh-Dhariyat', number: 51, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/051.mp3' },
-  'dhariyat': { name: 'Adh-Dhariyat', number: 51, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/051.mp3' },
-  'at-tur': { name: 'At-Tur', number: 52, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/052.mp3' },
-  'tur': { name: 'At-Tur', number: 52, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/052.mp3' },
-  'an-najm': { name: 'An-Najm', number: 53, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/053.mp3' },
-  'najm': { name: 'An-Najm', number: 53, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/053.mp3' },
-  'al-qamar': { name: 'Al-Qamar', number: 54, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/054.mp3' },
-  'qamar': { name: 'Al-Qamar', number: 54, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/054.mp3' },
-  'ar-rahman': { name: 'Ar-Rahman', number: 55, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/055.mp3' },
-  'rahman': { name: 'Ar-Rahman', number: 55, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/055.mp3' },
-  'al-waqiah': { name: 'Al-Waqiah', number: 56, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/056.mp3' },
-  'waqiah': { name: 'Al-Waqiah', number: 56, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/056.mp3' },
-  'al-hadid': { name: 'Al-Hadid', number: 57, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/057.mp3' },
-  'hadid': { name: 'Al-Hadid', number: 57, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/057.mp3' },
-  'al-mujadilah': { name: 'Al-Mujadilah', number: 58, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/058.mp3' },
-  'mujadilah': { name: 'Al-Mujadilah', number: 58, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/058.mp3' },
-  'al-hashr': { name: 'Al-Hashr', number: 59, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/059.mp3' },
-  'hashr': { name: 'Al-Hashr', number: 59, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/059.mp3' },
-  'al-mumtahanah': { name: 'Al-Mumtahanah', number: 60, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/060.mp3' },
-  'mumtahanah': { name: 'Al-Mumtahanah', number: 60, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/060.mp3' },
-  'as-saff': { name: 'As-Saff', number: 61, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/061.mp3' },
-  'saff': { name: 'As-Saff', number: 61, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/061.mp3' },
-  'al-jumuah': { name: 'Al-Jumuah', number: 62, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/062.mp3' },
-  'jumuah': { name: 'Al-Jumuah', number: 62, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/062.mp3' },
-  'al-munafiqun': { name: 'Al-Munafiqun', number: 63, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/063.mp3' },
-  'munafiqun': { name: 'Al-Munafiqun', number: 63, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/063.mp3' },
-  'at-taghabun': { name: 'At-Taghabun', number: 64, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/064.mp3' },
-  'taghabun': { name: 'At-Taghabun', number: 64, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/064.mp3' },
-  'at-talaq': { name: 'At-Talaq', number: 65, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/065.mp3' },
-  'talaq': { name: 'At-Talaq', number: 65, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/065.mp3' },
-  'at-tahrim': { name: 'At-Tahrim', number: 66, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/066.mp3' },
-  'tahrim': { name: 'At-Tahrim', number: 66, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/066.mp3' },
-  'al-mulk': { name: 'Al-Mulk', number: 67, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/067.mp3' },
-  'mulk': { name: 'Al-Mulk', number: 67, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/067.mp3' },
-  'al-qalam': { name: 'Al-Qalam', number: 68, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/068.mp3' },
-  'qalam': { name: 'Al-Qalam', number: 68, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/068.mp3' },
-  'al-haqqah': { name: 'Al-Haqqah', number: 69, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/069.mp3' },
-  'haqqah': { name: 'Al-Haqqah', number: 69, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/069.mp3' },
-  'al-maarij': { name: 'Al-Maarij', number: 70, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/070.mp3' },
-  'maarij': { name: 'Al-Maarij', number: 70, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/070.mp3' },
-  'nuh': { name: 'Nuh', number: 71, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/071.mp3' },
-  'al-jinn': { name: 'Al-Jinn', number: 72, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/072.mp3' },
-  'jinn': { name: 'Al-Jinn', number: 72, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/072.mp3' },
-  'al-muzzammil': { name: 'Al-Muzzammil', number: 73, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/073.mp3' },
-  'muzzammil': { name: 'Al-Muzzammil', number: 73, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/073.mp3' },
-  'al-muddaththir': { name: 'Al-Muddaththir', number: 74, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/074.mp3' },
-  'muddaththir': { name: 'Al-Muddaththir', number: 74, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/074.mp3' },
-  'al-qiyamah': { name: 'Al-Qiyamah', number: 75, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/075.mp3' },
-  'qiyamah': { name: 'Al-Qiyamah', number: 75, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/075.mp3' },
-  'al-insan': { name: 'Al-Insan', number: 76, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/076.mp3' },
-  'insan': { name: 'Al-Insan', number: 76, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/076.mp3' },
-  'al-mursalat': { name: 'Al-Mursalat', number: 77, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/077.mp3' },
-  'mursalat': { name: 'Al-Mursalat', number: 77, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/077.mp3' },
-  'an-naba': { name: 'An-Naba', number: 78, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/078.mp3' },
-  'naba': { name: 'An-Naba', number: 78, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/078.mp3' },
-  'an-naziat': { name: 'An-Naziat', number: 79, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/079.mp3' },
-  'naziat': { name: 'An-Naziat', number: 79, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/079.mp3' },
-  'abasa': { name: 'Abasa', number: 80, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/080.mp3' },
-  'at-takwir': { name: 'At-Takwir', number: 81, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/081.mp3' },
-  'takwir': { name: 'At-Takwir', number: 81, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/081.mp3' },
-  'al-infitar': { name: 'Al-Infitar', number: 82, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/082.mp3' },
-  'infitar': { name: 'Al-Infitar', number: 82, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/082.mp3' },
-  'al-mutaffifin': { name: 'Al-Mutaffifin', number: 83, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/083.mp3' },
-  'mutaffifin': { name: 'Al-Mutaffifin', number: 83, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/083.mp3' },
-  'al-inshiqaq': { name: 'Al-Inshiqaq', number: 84, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/084.mp3' },
-  'inshiqaq': { name: 'Al-Inshiqaq', number: 84, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/084.mp3' },
-  'al-buruj': { name: 'Al-Buruj', number: 85, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/085.mp3' },
-  'buruj': { name: 'Al-Buruj', number: 85, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/085.mp3' },
-  'at-tariq': { name: 'At-Tariq', number: 86, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/086.mp3' },
-  'tariq': { name: 'At-Tariq', number: 86, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/086.mp3' },
-  'al-ala': { name: 'Al-Ala', number: 87, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/087.mp3' },
-  'ala': { name: 'Al-Ala', number: 87, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/087.mp3' },
-  'al-ghashiyah': { name: 'Al-Ghashiyah', number: 88, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/088.mp3' },
-  'ghashiyah': { name: 'Al-Ghashiyah', number: 88, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/088.mp3' },
-  'al-fajr': { name: 'Al-Fajr', number: 89, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/089.mp3' },
-  'fajr': { name: 'Al-Fajr', number: 89, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/089.mp3' },
-  'al-balad': { name: 'Al-Balad', number: 90, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/090.mp3' },
-  'balad': { name: 'Al-Balad', number: 90, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/090.mp3' },
-  'ash-shams': { name: 'Ash-Shams', number: 91, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/091.mp3' },
-  'shams': { name: 'Ash-Shams', number: 91, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/091.mp3' },
-  'al-layl': { name: 'Al-Layl', number: 92, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/092.mp3' },
-  'layl': { name: 'Al-Layl', number: 92, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/092.mp3' },
-  'ad-duha': { name: 'Ad-Duha', number: 93, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/093.mp3' },
-  'duha': { name: 'Ad-Duha', number: 93, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/093.mp3' },
-  'ash-sharh': { name: 'Ash-Sharh', number: 94, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/094.mp3' },
-  'sharh': { name: 'Ash-Sharh', number: 94, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/094.mp3' },
-  'at-tin': { name: 'At-Tin', number: 95, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/095.mp3' },
-  'tin': { name: 'At-Tin', number: 95, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/095.mp3' },
-  'al-alaq': { name: 'Al-Alaq', number: 96, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/096.mp3' },
-  'alaq': { name: 'Al-Alaq', number: 96, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/096.mp3' },
-  'al-qadr': { name: 'Al-Qadr', number: 97, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/097.mp3' },
-  'qadr': { name: 'Al-Qadr', number: 97, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/097.mp3' },
-  'al-bayyinah': { name: 'Al-Bayyinah', number: 98, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/098.mp3' },
-  'bayyinah': { name: 'Al-Bayyinah', number: 98, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/098.mp3' },
-  'az-zalzalah': { name: 'Az-Zalzalah', number: 99, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/099.mp3' },
-  'zalzalah': { name: 'Az-Zalzalah', number: 99, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/099.mp3' },
-  'al-adiyat': { name: 'Al-Adiyat', number: 100, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/100.mp3' },
-  'adiyat': { name: 'Al-Adiyat', number: 100, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/100.mp3' },
-  'al-qariah': { name: 'Al-Qariah', number: 101, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/101.mp3' },
-  'qariah': { name: 'Al-Qariah', number: 101, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/101.mp3' },
-  'at-takathur': { name: 'At-Takathur', number: 102, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/102.mp3' },
-  'takathur': { name: 'At-Takathur', number: 102, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/102.mp3' },
-  'al-asr': { name: 'Al-Asr', number: 103, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/103.mp3' },
-  'asr': { name: 'Al-Asr', number: 103, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/103.mp3' },
-  'al-humazah': { name: 'Al-Humazah', number: 104, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/104.mp3' },
-  'humazah': { name: 'Al-Humazah', number: 104, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/104.mp3' },
-  'al-fil': { name: 'Al-Fil', number: 105, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/105.mp3' },
-  'fil': { name: 'Al-Fil', number: 105, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/105.mp3' },
-  'quraysh': { name: 'Quraysh', number: 106, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/106.mp3' },
-  'al-maun': { name: 'Al-Maun', number: 107, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/107.mp3' },
-  'maun': { name: 'Al-Maun', number: 107, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/107.mp3' },
-  'al-kawthar': { name: 'Al-Kawthar', number: 108, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/108.mp3' },
-  'kawthar': { name: 'Al-Kawthar', number: 108, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/108.mp3' },
-  'al-kafirun': { name: 'Al-Kafirun', number: 109, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/109.mp3' },
-  'kafirun': { name: 'Al-Kafirun', number: 109, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/109.mp3' },
-  'an-nasr': { name: 'An-Nasr', number: 110, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/110.mp3' },
-  'nasr': { name: 'An-Nasr', number: 110, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/110.mp3' },
-  'al-masad': { name: 'Al-Masad', number: 111, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/111.mp3' },
-  'masad': { name: 'Al-Masad', number: 111, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/111.mp3' },
-  'al-ikhlas': { name: 'Al-Ikhlas', number: 112, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/112.mp3' },
-  'ikhlas': { name: 'Al-Ikhlas', number: 112, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/112.mp3' },
-  'al-falaq': { name: 'Al-Falaq', number: 113, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/113.mp3' },
-  'falaq': { name: 'Al-Falaq', number: 113, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/113.mp3' },
-  'falak': { name: 'Al-Falaq', number: 113, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/113.mp3' },
-  'an-nas': { name: 'An-Nas', number: 114, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/114.mp3' },
-  'nas': { name: 'An-Nas', number: 114, audio: 'https://download.quranicaudio.com/quran/mishaari_raashid_al_3afaasee/114.mp3' },
+  'al-fatiha': { name: 'Al-Fatiha', number: 1, ayahCount: 7 },
+  'fatiha': { name: 'Al-Fatiha', number: 1, ayahCount: 7 },
+  'al-baqarah': { name: 'Al-Baqarah', number: 2, ayahCount: 286 },
+  'baqarah': { name: 'Al-Baqarah', number: 2, ayahCount: 286 },
+  'aal-imran': { name: 'Aal-Imran', number: 3, ayahCount: 200 },
+  'imran': { name: 'Aal-Imran', number: 3, ayahCount: 200 },
+  'an-nisa': { name: 'An-Nisa', number: 4, ayahCount: 176 },
+  'nisa': { name: 'An-Nisa', number: 4, ayahCount: 176 },
+  'al-maidah': { name: 'Al-Maidah', number: 5, ayahCount: 120 },
+  'maidah': { name: 'Al-Maidah', number: 5, ayahCount: 120 },
+  'al-anam': { name: 'Al-Anam', number: 6, ayahCount: 165 },
+  'anam': { name: 'Al-Anam', number: 6, ayahCount: 165 },
+  'al-araf': { name: 'Al-Araf', number: 7, ayahCount: 206 },
+  'araf': { name: 'Al-Araf', number: 7, ayahCount: 206 },
+  'al-anfal': { name: 'Al-Anfal', number: 8, ayahCount: 75 },
+  'anfal': { name: 'Al-Anfal', number: 8, ayahCount: 75 },
+  'at-tawbah': { name: 'At-Tawbah', number: 9, ayahCount: 129 },
+  'tawbah': { name: 'At-Tawbah', number: 9, ayahCount: 129 },
+  'yunus': { name: 'Yunus', number: 10, ayahCount: 109 },
+  'hud': { name: 'Hud', number: 11, ayahCount: 123 },
+  'yusuf': { name: 'Yusuf', number: 12, ayahCount: 111 },
+  'ar-rad': { name: 'Ar-Rad', number: 13, ayahCount: 43 },
+  'rad': { name: 'Ar-Rad', number: 13, ayahCount: 43 },
+  'ibrahim': { name: 'Ibrahim', number: 14, ayahCount: 52 },
+  'al-hijr': { name: 'Al-Hijr', number: 15, ayahCount: 99 },
+  'hijr': { name: 'Al-Hijr', number: 15, ayahCount: 99 },
+  'an-nahl': { name: 'An-Nahl', number: 16, ayahCount: 128 },
+  'nahl': { name: 'An-Nahl', number: 16, ayahCount: 128 },
+  'al-isra': { name: 'Al-Isra', number: 17, ayahCount: 111 },
+  'isra': { name: 'Al-Isra', number: 17, ayahCount: 111 },
+  'al-kahf': { name: 'Al-Kahf', number: 18, ayahCount: 110 },
+  'kahf': { name: 'Al-Kahf', number: 18, ayahCount: 110 },
+  'maryam': { name: 'Maryam', number: 19, ayahCount: 98 },
+  'taha': { name: 'Taha', number: 20, ayahCount: 135 },
+  'al-anbiya': { name: 'Al-Anbiya', number: 21, ayahCount: 112 },
+  'anbiya': { name: 'Al-Anbiya', number: 21, ayahCount: 112 },
+  'al-hajj': { name: 'Al-Hajj', number: 22, ayahCount: 78 },
+  'hajj': { name: 'Al-Hajj', number: 22, ayahCount: 78 },
+  'al-muminun': { name: 'Al-Muminun', number: 23, ayahCount: 118 },
+  'muminun': { name: 'Al-Muminun', number: 23, ayahCount: 118 },
+  'an-nur': { name: 'An-Nur', number: 24, ayahCount: 64 },
+  'nur': { name: 'An-Nur', number: 24, ayahCount: 64 },
+  'al-furqan': { name: 'Al-Furqan', number: 25, ayahCount: 77 },
+  'furqan': { name: 'Al-Furqan', number: 25, ayahCount: 77 },
+  'ash-shuara': { name: 'Ash-Shuara', number: 26, ayahCount: 227 },
+  'shuara': { name: 'Ash-Shuara', number: 26, ayahCount: 227 },
+  'an-naml': { name: 'An-Naml', number: 27, ayahCount: 93 },
+  'naml': { name: 'An-Naml', number: 27, ayahCount: 93 },
+  'al-qasas': { name: 'Al-Qasas', number: 28, ayahCount: 88 },
+  'qasas': { name: 'Al-Qasas', number: 28, ayahCount: 88 },
+  'al-ankabut': { name: 'Al-Ankabut', number: 29, ayahCount: 69 },
+  'ankabut': { name: 'Al-Ankabut', number: 29, ayahCount: 69 },
+  'ar-rum': { name: 'Ar-Rum', number: 30, ayahCount: 60 },
+  'rum': { name: 'Ar-Rum', number: 30, ayahCount: 60 },
+  'luqman': { name: 'Luqman', number: 31, ayahCount: 34 },
+  'as-sajdah': { name: 'As-Sajdah', number: 32, ayahCount: 30 },
+  'sajdah': { name: 'As-Sajdah', number: 32, ayahCount: 30 },
+  'al-ahzab': { name: 'Al-Ahzab', number: 33, ayahCount: 73 },
+  'ahzab': { name: 'Al-Ahzab', number: 33, ayahCount: 73 },
+  'saba': { name: 'Saba', number: 34, ayahCount: 54 },
+  'fatir': { name: 'Fatir', number: 35, ayahCount: 45 },
+  'ya-sin': { name: 'Ya-Sin', number: 36, ayahCount: 83 },
+  'yasin': { name: 'Ya-Sin', number: 36, ayahCount: 83 },
+  'as-saffat': { name: 'As-Saffat', number: 37, ayahCount: 182 },
+  'saffat': { name: 'As-Saffat', number: 37, ayahCount: 182 },
+  'sad': { name: 'Sad', number: 38, ayahCount: 88 },
+  'az-zumar': { name: 'Az-Zumar', number: 39, ayahCount: 75 },
+  'zumar': { name: 'Az-Zumar', number: 39, ayahCount: 75 },
+  'ghafir': { name: 'Ghafir', number: 40, ayahCount: 85 },
+  'fussilat': { name: 'Fussilat', number: 41, ayahCount: 54 },
+  'ash-shura': { name: 'Ash-Shura', number: 42, ayahCount: 53 },
+  'shura': { name: 'Ash-Shura', number: 42, ayahCount: 53 },
+  'az-zukhruf': { name: 'Az-Zukhruf', number: 43, ayahCount: 89 },
+  'zukhruf': { name: 'Az-Zukhruf', number: 43, ayahCount: 89 },
+  'ad-dukhan': { name: 'Ad-Dukhan', number: 44, ayahCount: 59 },
+  'dukhan': { name: 'Ad-Dukhan', number: 44, ayahCount: 59 },
+  'al-jathiyah': { name: 'Al-Jathiyah', number: 45, ayahCount: 37 },
+  'jathiyah': { name: 'Al-Jathiyah', number: 45, ayahCount: 37 },
+  'al-ahqaf': { name: 'Al-Ahqaf', number: 46, ayahCount: 35 },
+  'ahqaf': { name: 'Al-Ahqaf', number: 46, ayahCount: 35 },
+  'muhammad': { name: 'Muhammad', number: 47, ayahCount: 38 },
+  'al-fath': { name: 'Al-Fath', number: 48, ayahCount: 29 },
+  'fath': { name: 'Al-Fath', number: 48, ayahCount: 29 },
+  'al-hujurat': { name: 'Al-Hujurat', number: 49, ayahCount: 18 },
+  'hujurat': { name: 'Al-Hujurat', number: 49, ayahCount: 18 },
+  'qaf': { name: 'Qaf', number: 50, ayahCount: 45 },
+  'adh-dhariyat': { name: 'Adh-Dhariyat', number: 51, ayahCount: 60 },
+  'dhariyat': { name: 'Adh-Dhariyat', number: 51, ayahCount: 60 },
+  'at-tur': { name: 'At-Tur', number: 52, ayahCount: 49 },
+  'tur': { name: 'At-Tur', number: 52, ayahCount: 49 },
+  'an-najm': { name: 'An-Najm', number: 53, ayahCount: 62 },
+  'najm': { name: 'An-Najm', number: 53, ayahCount: 62 },
+  'al-qamar': { name: 'Al-Qamar', number: 54, ayahCount: 55 },
+  'qamar': { name: 'Al-Qamar', number: 54, ayahCount: 55 },
+  'ar-rahman': { name: 'Ar-Rahman', number: 55, ayahCount: 78 },
+  'rahman': { name: 'Ar-Rahman', number: 55, ayahCount: 78 },
+  'al-waqiah': { name: 'Al-Waqiah', number: 56, ayahCount: 96 },
+  'waqiah': { name: 'Al-Waqiah', number: 56, ayahCount: 96 },
+  'al-hadid': { name: 'Al-Hadid', number: 57, ayahCount: 29 },
+  'hadid': { name: 'Al-Hadid', number: 57, ayahCount: 29 },
+  'al-mujadilah': { name: 'Al-Mujadilah', number: 58, ayahCount: 22 },
+  'mujadilah': { name: 'Al-Mujadilah', number: 58, ayahCount: 22 },
+  'al-hashr': { name: 'Al-Hashr', number: 59, ayahCount: 24 },
+  'hashr': { name: 'Al-Hashr', number: 59, ayahCount: 24 },
+  'al-mumtahanah': { name: 'Al-Mumtahanah', number: 60, ayahCount: 13 },
+  'mumtahanah': { name: 'Al-Mumtahanah', number: 60, ayahCount: 13 },
+  'as-saff': { name: 'As-Saff', number: 61, ayahCount: 14 },
+  'saff': { name: 'As-Saff', number: 61, ayahCount: 14 },
+  'al-jumuah': { name: 'Al-Jumuah', number: 62, ayahCount: 11 },
+  'jumuah': { name: 'Al-Jumuah', number: 62, ayahCount: 11 },
+  'al-munafiqun': { name: 'Al-Munafiqun', number: 63, ayahCount: 11 },
+  'munafiqun': { name: 'Al-Munafiqun', number: 63, ayahCount: 11 },
+  'at-taghabun': { name: 'At-Taghabun', number: 64, ayahCount: 18 },
+  'taghabun': { name: 'At-Taghabun', number: 64, ayahCount: 18 },
+  'at-talaq': { name: 'At-Talaq', number: 65, ayahCount: 12 },
+  'talaq': { name: 'At-Talaq', number: 65, ayahCount: 12 },
+  'at-tahrim': { name: 'At-Tahrim', number: 66, ayahCount: 12 },
+  'tahrim': { name: 'At-Tahrim', number: 66, ayahCount: 12 },
+  'al-mulk': { name: 'Al-Mulk', number: 67, ayahCount: 30 },
+  'mulk': { name: 'Al-Mulk', number: 67, ayahCount: 30 },
+  'al-qalam': { name: 'Al-Qalam', number: 68, ayahCount: 52 },
+  'qalam': { name: 'Al-Qalam', number: 68, ayahCount: 52 },
+  'al-haqqah': { name: 'Al-Haqqah', number: 69, ayahCount: 52 },
+  'haqqah': { name: 'Al-Haqqah', number: 69, ayahCount: 52 },
+  'al-maarij': { name: 'Al-Maarij', number: 70, ayahCount: 44 },
+  'maarij': { name: 'Al-Maarij', number: 70, ayahCount: 44 },
+  'nuh': { name: 'Nuh', number: 71, ayahCount: 28 },
+  'al-jinn': { name: 'Al-Jinn', number: 72, ayahCount: 28 },
+  'jinn': { name: 'Al-Jinn', number: 72, ayahCount: 28 },
+  'al-muzzammil': { name: 'Al-Muzzammil', number: 73, ayahCount: 20 },
+  'muzzammil': { name: 'Al-Muzzammil', number: 73, ayahCount: 20 },
+  'al-muddaththir': { name: 'Al-Muddaththir', number: 74, ayahCount: 56 },
+  'muddaththir': { name: 'Al-Muddaththir', number: 74, ayahCount: 56 },
+  'al-qiyamah': { name: 'Al-Qiyamah', number: 75, ayahCount: 40 },
+  'qiyamah': { name: 'Al-Qiyamah', number: 75, ayahCount: 40 },
+  'al-insan': { name: 'Al-Insan', number: 76, ayahCount: 31 },
+  'insan': { name: 'Al-Insan', number: 76, ayahCount: 31 },
+  'al-mursalat': { name: 'Al-Mursalat', number: 77, ayahCount: 50 },
+  'mursalat': { name: 'Al-Mursalat', number: 77, ayahCount: 50 },
+  'an-naba': { name: 'An-Naba', number: 78, ayahCount: 40 },
+  'naba': { name: 'An-Naba', number: 78, ayahCount: 40 },
+  'an-naziat': { name: 'An-Naziat', number: 79, ayahCount: 46 },
+  'naziat': { name: 'An-Naziat', number: 79, ayahCount: 46 },
+  'abasa': { name: 'Abasa', number: 80, ayahCount: 42 },
+  'at-takwir': { name: 'At-Takwir', number: 81, ayahCount: 29 },
+  'takwir': { name: 'At-Takwir', number: 81, ayahCount: 29 },
+  'al-infitar': { name: 'Al-Infitar', number: 82, ayahCount: 19 },
+  'infitar': { name: 'Al-Infitar', number: 82, ayahCount: 19 },
+  'al-mutaffifin': { name: 'Al-Mutaffifin', number: 83, ayahCount: 36 },
+  'mutaffifin': { name: 'Al-Mutaffifin', number: 83, ayahCount: 36 },
+  'al-inshiqaq': { name: 'Al-Inshiqaq', number: 84, ayahCount: 25 },
+  'inshiqaq': { name: 'Al-Inshiqaq', number: 84, ayahCount: 25 },
+  'al-buruj': { name: 'Al-Buruj', number: 85, ayahCount: 22 },
+  'buruj': { name: 'Al-Buruj', number: 85, ayahCount: 22 },
+  'at-tariq': { name: 'At-Tariq', number: 86, ayahCount: 17 },
+  'tariq': { name: 'At-Tariq', number: 86, ayahCount: 17 },
+  'al-ala': { name: 'Al-Ala', number: 87, ayahCount: 19 },
+  'ala': { name: 'Al-Ala', number: 87, ayahCount: 19 },
+  'al-ghashiyah': { name: 'Al-Ghashiyah', number: 88, ayahCount: 26 },
+  'ghashiyah': { name: 'Al-Ghashiyah', number: 88, ayahCount: 26 },
+  'al-fajr': { name: 'Al-Fajr', number: 89, ayahCount: 30 },
+  'fajr': { name: 'Al-Fajr', number: 89, ayahCount: 30 },
+  'al-balad': { name: 'Al-Balad', number: 90, ayahCount: 20 },
+  'balad': { name: 'Al-Balad', number: 90, ayahCount: 20 },
+  'ash-shams': { name: 'Ash-Shams', number: 91, ayahCount: 15 },
+  'shams': { name: 'Ash-Shams', number: 91, ayahCount: 15 },
+  'al-layl': { name: 'Al-Layl', number: 92, ayahCount: 21 },
+  'layl': { name: 'Al-Layl', number: 92, ayahCount: 21 },
+  'ad-duha': { name: 'Ad-Duha', number: 93, ayahCount: 11 },
+  'duha': { name: 'Ad-Duha', number: 93, ayahCount: 11 },
+  'ash-sharh': { name: 'Ash-Sharh', number: 94, ayahCount: 8 },
+  'sharh': { name: 'Ash-Sharh', number: 94, ayahCount: 8 },
+  'at-tin': { name: 'At-Tin', number: 95, ayahCount: 8 },
+  'tin': { name: 'At-Tin', number: 95, ayahCount: 8 },
+  'al-alaq': { name: 'Al-Alaq', number: 96, ayahCount: 19 },
+  'alaq': { name: 'Al-Alaq', number: 96, ayahCount: 19 },
+  'al-qadr': { name: 'Al-Qadr', number: 97, ayahCount: 5 },
+  'qadr': { name: 'Al-Qadr', number: 97, ayahCount: 5 },
+  'al-bayyinah': { name: 'Al-Bayyinah', number: 98, ayahCount: 8 },
+  'bayyinah': { name: 'Al-Bayyinah', number: 98, ayahCount: 8 },
+  'az-zalzalah': { name: 'Az-Zalzalah', number: 99, ayahCount: 8 },
+  'zalzalah': { name: 'Az-Zalzalah', number: 99, ayahCount: 8 },
+  'al-adiyat': { name: 'Al-Adiyat', number: 100, ayahCount: 11 },
+  'adiyat': { name: 'Al-Adiyat', number: 100, ayahCount: 11 },
+  'al-qariah': { name: 'Al-Qariah', number: 101, ayahCount: 11 },
+  'qariah': { name: 'Al-Qariah', number: 101, ayahCount: 11 },
+  'at-takathur': { name: 'At-Takathur', number: 102, ayahCount: 8 },
+  'takathur': { name: 'At-Takathur', number: 102, ayahCount: 8 },
+  'al-asr': { name: 'Al-Asr', number: 103, ayahCount: 3 },
+  'asr': { name: 'Al-Asr', number: 103, ayahCount: 3 },
+  'al-humazah': { name: 'Al-Humazah', number: 104, ayahCount: 9 },
+  'humazah': { name: 'Al-Humazah', number: 104, ayahCount: 9 },
+  'al-fil': { name: 'Al-Fil', number: 105, ayahCount: 5 },
+  'fil': { name: 'Al-Fil', number: 105, ayahCount: 5 },
+  'quraysh': { name: 'Quraysh', number: 106, ayahCount: 4 },
+  'al-maun': { name: 'Al-Maun', number: 107, ayahCount: 7 },
+  'maun': { name: 'Al-Maun', number: 107, ayahCount: 7 },
+  'al-kawthar': { name: 'Al-Kawthar', number: 108, ayahCount: 3 },
+  'kawthar': { name: 'Al-Kawthar', number: 108, ayahCount: 3 },
+  'al-kafirun': { name: 'Al-Kafirun', number: 109, ayahCount: 6 },
+  'kafirun': { name: 'Al-Kafirun', number: 109, ayahCount: 6 },
+  'an-nasr': { name: 'An-Nasr', number: 110, ayahCount: 3 },
+  'nasr': { name: 'An-Nasr', number: 110, ayahCount: 3 },
+  'al-masad': { name: 'Al-Masad', number: 111, ayahCount: 5 },
+  'masad': { name: 'Al-Masad', number: 111, ayahCount: 5 },
+  'al-ikhlas': { name: 'Al-Ikhlas', number: 112, ayahCount: 4 },
+  'ikhlas': { name: 'Al-Ikhlas', number: 112, ayahCount: 4 },
+  'al-falaq': { name: 'Al-Falaq', number: 113, ayahCount: 5 },
+  'falaq': { name: 'Al-Falaq', number: 113, ayahCount: 5 },
+  'falak': { name: 'Al-Falaq', number: 113, ayahCount: 5 },
+  'an-nas': { name: 'An-Nas', number: 114, ayahCount: 6 },
+  'nas': { name: 'An-Nas', number: 114, ayahCount: 6 },
 };
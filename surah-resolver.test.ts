@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { SURAH_NAMES, resolveSurah } from './surah-resolver';
+import { SURAH_MATCH_THRESHOLD } from './intents';
+import { surahDatabase } from './surah-data';
+
+const englishNames = new Map<number, string>();
+Object.values(surahDatabase).forEach(surah => {
+  if (!englishNames.has(surah.number)) englishNames.set(surah.number, surah.name);
+});
+
+const topNumber = (transcript: string) => resolveSurah(transcript)[0]?.surah.number;
+
+describe('resolveSurah', () => {
+  it('knows all 114 surahs', () => {
+    expect(englishNames.size).toBe(114);
+    expect(SURAH_NAMES).toHaveLength(114);
+  });
+
+  for (let number = 1; number <= 114; number++) {
+    describe(`surah ${number}`, () => {
+      it('finds the English name', () => {
+        expect(topNumber(englishNames.get(number)!)).toBe(number);
+      });
+
+      it('finds the Arabic name', () => {
+        expect(topNumber(SURAH_NAMES[number - 1].arabic)).toBe(number);
+      });
+
+      it('finds every Tamil name', () => {
+        SURAH_NAMES[number - 1].tamil.forEach(name => expect(topNumber(name)).toBe(number));
+      });
+
+      it('finds the number', () => {
+        expect(topNumber(`surah ${number}`)).toBe(number);
+      });
+    });
+  }
+
+  it('scores an exact name as 1', () => {
+    expect(resolveSurah('Yasin')[0]).toMatchObject({ surah: { number: 36 }, score: 1 });
+  });
+
+  it('accepts spoken numbers in English and Tamil', () => {
+    expect(topNumber('surah 36')).toBe(36);
+    expect(topNumber('surah thirty six')).toBe(36);
+    expect(topNumber('முப்பத்தாறாவது சூரா')).toBe(36);
+    expect(topNumber('சூரா 112')).toBe(112);
+  });
+
+  it('tolerates mishearings', () => {
+    expect(topNumber('yaseen')).toBe(36);
+    expect(topNumber('யாசீன்')).toBe(36);
+    expect(topNumber('play surah rahmaan')).toBe(55);
+  });
+
+  it('ignores numbers that are not about a surah', () => {
+    const [best] = resolveSurah('I have 3 questions');
+    expect(best.surah.number).not.toBe(3);
+    expect(best.score).toBeLessThan(SURAH_MATCH_THRESHOLD);
+    expect(resolveSurah('surah 115')).toEqual([]);
+  });
+
+  it('ranks candidates best first', () => {
+    const scores = resolveSurah('ikhlas', 3).map(candidate => candidate.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(resolveSurah('ikhlas', 3)[0].surah.number).toBe(112);
+  });
+});
@@ -0,0 +1,346 @@
+import { Surah } from './types';
+import { surahDatabase } from './surah-data';
+import { findSpokenNumbers, normalizeForNumbers } from './spoken-numbers';
+
+// Turns a spoken surah request into ranked candidates. Names are compared by a
+// phonetic key (English, Tamil script and Arabic) with edit distance, so "yaseen",
+// "யாசீன்" and "يس" all find Ya-Sin; numbers such as "surah 36" or
+// "முப்பத்தாறாவது சூரா" are matched as well.
+
+export interface SurahCandidate {
+  // Key into surahDatabase.
+  key: string;
+  surah: Surah;
+  // 0..1, 1 being an exact name or number match.
+  score: number;
+  // The part of the transcript that matched.
+  matched: string;
+}
+
+// Arabic and Tamil names in surah order; the English names come from surahDatabase.
+export const SURAH_NAMES: { arabic: string; tamil: string[] }[] = [
+  { arabic: 'الفاتحة', tamil: ['அல்-ஃபாத்திஹா'] },
+  { arabic: 'البقرة', tamil: ['அல்-பகரா'] },
+  { arabic: 'آل عمران', tamil: ['ஆலு இம்ரான்', 'இம்ரான்'] },
+  { arabic: 'النساء', tamil: ['அந்-நிஸா'] },
+  { arabic: 'المائدة', tamil: ['அல்-மாயிதா'] },
+  { arabic: 'الأنعام', tamil: ['அல்-அன்ஆம்'] },
+  { arabic: 'الأعراف', tamil: ['அல்-அஃராஃப்'] },
+  { arabic: 'الأنفال', tamil: ['அல்-அன்ஃபால்'] },
+  { arabic: 'التوبة', tamil: ['அத்-தவ்பா'] },
+  { arabic: 'يونس', tamil: ['யூனுஸ்'] },
+  { arabic: 'هود', tamil: ['ஹூத்'] },
+  { arabic: 'يوسف', tamil: ['யூஸுஃப்'] },
+  { arabic: 'الرعد', tamil: ['அர்-ரஃது'] },
+  { arabic: 'إبراهيم', tamil: ['இப்ராஹீம்'] },
+  { arabic: 'الحجر', tamil: ['அல்-ஹிஜ்ர்'] },
+  { arabic: 'النحل', tamil: ['அந்-நஹ்ல்'] },
+  { arabic: 'الإسراء', tamil: ['அல்-இஸ்ரா', 'பனீ இஸ்ராயீல்'] },
+  { arabic: 'الكهف', tamil: ['அல்-கஹ்ஃப்'] },
+  { arabic: 'مريم', tamil: ['மர்யம்'] },
+  { arabic: 'طه', tamil: ['தாஹா'] },
+  { arabic: 'الأنبياء', tamil: ['அல்-அன்பியா'] },
+  { arabic: 'الحج', tamil: ['அல்-ஹஜ்'] },
+  { arabic: 'المؤمنون', tamil: ['அல்-முஃமினூன்'] },
+  { arabic: 'النور', tamil: ['அந்-நூர்'] },
+  { arabic: 'الفرقان', tamil: ['அல்-ஃபுர்கான்'] },
+  { arabic: 'الشعراء', tamil: ['அஷ்-ஷுஅரா'] },
+  { arabic: 'النمل', tamil: ['அந்-நம்ல்'] },
+  { arabic: 'القصص', tamil: ['அல்-கஸஸ்'] },
+  { arabic: 'العنكبوت', tamil: ['அல்-அன்கபூத்'] },
+  { arabic: 'الروم', tamil: ['அர்-ரூம்'] },
+  { arabic: 'لقمان', tamil: ['லுக்மான்'] },
+  { arabic: 'السجدة', tamil: ['அஸ்-ஸஜ்தா'] },
+  { arabic: 'الأحزاب', tamil: ['அல்-அஹ்ஸாப்'] },
+  { arabic: 'سبأ', tamil: ['ஸபா'] },
+  { arabic: 'فاطر', tamil: ['ஃபாத்திர்'] },
+  { arabic: 'يس', tamil: ['யாஸீன்'] },
+  { arabic: 'الصافات', tamil: ['அஸ்-ஸாஃப்பாத்'] },
+  { arabic: 'ص', tamil: ['ஸாத்'] },
+  { arabic: 'الزمر', tamil: ['அஸ்-ஸுமர்'] },
+  { arabic: 'غافر', tamil: ['ஃகாஃபிர்', 'அல்-முஃமின்'] },
+  { arabic: 'فصلت', tamil: ['ஃபுஸ்ஸிலத்', 'ஹாமீம் ஸஜ்தா'] },
+  { arabic: 'الشورى', tamil: ['அஷ்-ஷூரா'] },
+  { arabic: 'الزخرف', tamil: ['அஸ்-ஸுக்ருஃப்'] },
+  { arabic: 'الدخان', tamil: ['அத்-துகான்'] },
+  { arabic: 'الجاثية', tamil: ['அல்-ஜாஸியா'] },
+  { arabic: 'الأحقاف', tamil: ['அல்-அஹ்காஃப்'] },
+  { arabic: 'محمد', tamil: ['முஹம்மத்'] },
+  { arabic: 'الفتح', tamil: ['அல்-ஃபத்ஹ்'] },
+  { arabic: 'الحجرات', tamil: ['அல்-ஹுஜுராத்'] },
+  { arabic: 'ق', tamil: ['காஃப்'] },
+  { arabic: 'الذاريات', tamil: ['அத்-தாரியாத்'] },
+  { arabic: 'الطور', tamil: ['அத்-தூர்'] },
+  { arabic: 'النجم', tamil: ['அந்-நஜ்ம்'] },
+  { arabic: 'القمر', tamil: ['அல்-கமர்'] },
+  { arabic: 'الرحمن', tamil: ['அர்-ரஹ்மான்'] },
+  { arabic: 'الواقعة', tamil: ['அல்-வாகிஆ'] },
+  { arabic: 'الحديد', tamil: ['அல்-ஹதீத்'] },
+  { arabic: 'المجادلة', tamil: ['அல்-முஜாதலா'] },
+  { arabic: 'الحشر', tamil: ['அல்-ஹஷ்ர்'] },
+  { arabic: 'الممتحنة', tamil: ['அல்-மும்தஹினா'] },
+  { arabic: 'الصف', tamil: ['அஸ்-ஸஃப்'] },
+  { arabic: 'الجمعة', tamil: ['அல்-ஜுமுஆ'] },
+  { arabic: 'المنافقون', tamil: ['அல்-முனாஃபிகூன்'] },
+  { arabic: 'التغابن', tamil: ['அத்-தகாபுன்'] },
+  { arabic: 'الطلاق', tamil: ['அத்-தலாக்'] },
+  { arabic: 'التحريم', tamil: ['அத்-தஹ்ரீம்'] },
+  { arabic: 'الملك', tamil: ['அல்-முல்க்'] },
+  { arabic: 'القلم', tamil: ['அல்-கலம்'] },
+  { arabic: 'الحاقة', tamil: ['அல்-ஹாக்கா'] },
+  { arabic: 'المعارج', tamil: ['அல்-மஆரிஜ்'] },
+  { arabic: 'نوح', tamil: ['நூஹ்'] },
+  { arabic: 'الجن', tamil: ['அல்-ஜின்'] },
+  { arabic: 'المزمل', tamil: ['அல்-முஸ்ஸம்மில்'] },
+  { arabic: 'المدثر', tamil: ['அல்-முத்தஸ்ஸிர்'] },
+  { arabic: 'القيامة', tamil: ['அல்-கியாமா'] },
+  { arabic: 'الإنسان', tamil: ['அல்-இன்ஸான்', 'அத்-தஹ்ர்'] },
+  { arabic: 'المرسلات', tamil: ['அல்-முர்ஸலாத்'] },
+  { arabic: 'النبأ', tamil: ['அந்-நபா'] },
+  { arabic: 'النازعات', tamil: ['அந்-நாஸிஆத்'] },
+  { arabic: 'عبس', tamil: ['அபஸ'] },
+  { arabic: 'التكوير', tamil: ['அத்-தக்வீர்'] },
+  { arabic: 'الانفطار', tamil: ['அல்-இன்ஃபிதார்'] },
+  { arabic: 'المطففين', tamil: ['அல்-முதஃப்ஃபிஃபீன்'] },
+  { arabic: 'الانشقاق', tamil: ['அல்-இன்ஷிகாக்'] },
+  { arabic: 'البروج', tamil: ['அல்-புரூஜ்'] },
+  { arabic: 'الطارق', tamil: ['அத்-தாரிக்'] },
+  { arabic: 'الأعلى', tamil: ['அல்-அஃலா'] },
+  { arabic: 'الغاشية', tamil: ['அல்-ஃகாஷியா'] },
+  { arabic: 'الفجر', tamil: ['அல்-ஃபஜ்ர்'] },
+  { arabic: 'البلد', tamil: ['அல்-பலத்'] },
+  { arabic: 'الشمس', tamil: ['அஷ்-ஷம்ஸ்'] },
+  { arabic: 'الليل', tamil: ['அல்-லைல்'] },
+  { arabic: 'الضحى', tamil: ['அழ்-ழுஹா', 'ளுஹா'] },
+  { arabic: 'الشرح', tamil: ['அஷ்-ஷர்ஹ்', 'அலம் நஷ்ரஹ்'] },
+  { arabic: 'التين', tamil: ['அத்-தீன்'] },
+  { arabic: 'العلق', tamil: ['அல்-அலக்'] },
+  { arabic: 'القدر', tamil: ['அல்-கத்ர்'] },
+  { arabic: 'البينة', tamil: ['அல்-பய்யினா'] },
+  { arabic: 'الزلزلة', tamil: ['அஸ்-ஸல்ஸலா'] },
+  { arabic: 'العاديات', tamil: ['அல்-ஆதியாத்'] },
+  { arabic: 'القارعة', tamil: ['அல்-காரிஆ'] },
+  { arabic: 'التكاثر', tamil: ['அத்-தகாஸுர்'] },
+  { arabic: 'العصر', tamil: ['அல்-அஸ்ர்'] },
+  { arabic: 'الهمزة', tamil: ['அல்-ஹுமஸா'] },
+  { arabic: 'الفيل', tamil: ['அல்-ஃபீல்'] },
+  { arabic: 'قريش', tamil: ['குறைஷ்'] },
+  { arabic: 'الماعون', tamil: ['அல்-மாஊன்'] },
+  { arabic: 'الكوثر', tamil: ['அல்-கவ்ஸர்'] },
+  { arabic: 'الكافرون', tamil: ['அல்-காஃபிரூன்'] },
+  { arabic: 'النصر', tamil: ['அந்-நஸ்ர்'] },
+  { arabic: 'المسد', tamil: ['அல்-மஸத்', 'தப்பத்'] },
+  { arabic: 'الإخلاص', tamil: ['அல்-இக்லாஸ்'] },
+  { arabic: 'الفلق', tamil: ['அல்-ஃபலக்'] },
+  { arabic: 'الناس', tamil: ['அந்-நாஸ்'] },
+];
+
+// Words that introduce a surah rather than name one.
+const SURAH_WORDS = ['surah', 'sura', 'surat', 'soorah', 'chapter', 'number', 'சூரா', 'சுரா', 'ஸூரா', 'சூரத்', 'சூரத்துல்', 'அத்தியாயம்', 'எண்'];
+const FILLER_WORDS = [
+  ...SURAH_WORDS,
+  'play', 'recite', 'read', 'please', 'the', 'of', 'by', 'listen', 'to',
+  'ஓது', 'ஓதுங்கள்', 'ஓதவும்', 'போடு', 'போடுங்கள்', 'கேட்க', 'வேண்டும்', 'தயவுசெய்து',
+];
+const ARTICLES = ['al', 'el', 'an', 'ar', 'as', 'ash', 'at', 'ad', 'adh', 'az', 'அல்', 'அந்', 'அன்', 'அர்', 'அஸ்', 'அஷ்', 'அத்', 'அழ்'];
+
+const MAX_NGRAM = 3;
+
+// ---- Phonetic keys -------------------------------------------------------
+
+const TA_CONSONANTS: Record<string, string> = {
+  'க': 'k', 'ங': 'n', 'ச': 's', 'ஞ': 'n', 'ட': 't', 'ண': 'n', 'த': 't', 'ந': 'n', 'ப': 'p', 'ம': 'm',
+  'ய': 'y', 'ர': 'r', 'ல': 'l', 'வ': 'w', 'ழ': 'l', 'ள': 'l', 'ற': 'r', 'ன': 'n',
+  'ஜ': 'j', 'ஷ': 'sh', 'ஸ': 's', 'ஹ': 'h',
+};
+const TA_VOWELS: Record<string, string> = {
+  'அ': 'a', 'ஆ': 'a', 'இ': 'i', 'ஈ': 'i', 'உ': 'u', 'ஊ': 'u', 'எ': 'e', 'ஏ': 'e', 'ஐ': 'ai', 'ஒ': 'o', 'ஓ': 'o', 'ஔ': 'au',
+  'ா': 'a', 'ி': 'i', 'ீ': 'i', 'ு': 'u', 'ூ': 'u', 'ெ': 'e', 'ே': 'e', 'ை': 'ai', 'ொ': 'o', 'ோ': 'o', 'ௌ': 'au',
+};
+// The aytham (ஃ) turns the next consonant into a sound Tamil lacks: ஃப = f, ஃக = kh, ஃஜ = z.
+const TA_AYTHAM: Record<string, string> = { 'ப': 'f', 'க': 'kh', 'ஜ': 'z', 'ஸ': 's' };
+
+const tamilToLatin = (text: string): string => {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    let char = text[i];
+    let consonant = TA_CONSONANTS[char];
+    if (char === 'ஃ' && TA_AYTHAM[text[i + 1]]) {
+      consonant = TA_AYTHAM[text[++i]];
+      char = text[i];
+    }
+    if (consonant) {
+      const next = text[i + 1];
+      out += consonant;
+      if (next === '்') i++;
+      else if (TA_VOWELS[next] && next >= 'ா') { out += TA_VOWELS[next]; i++; }
+      else out += 'a';
+    } else {
+      out += TA_VOWELS[char] ?? (char === 'ஃ' ? '' : char);
+    }
+  }
+  return out;
+};
+
+const AR_LETTERS: Record<string, string> = {
+  'ا': 'a', 'أ': 'a', 'إ': 'i', 'آ': 'a', 'ٱ': 'a', 'ء': '', 'ؤ': 'u', 'ئ': 'i', 'ب': 'b', 'ت': 't', 'ة': 'a',
+  'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh', 'د': 'd', 'ذ': 'dh', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh',
+  'ص': 's', 'ض': 'd', 'ط': 't', 'ظ': 'z', 'ع': '', 'غ': 'gh', 'ف': 'f', 'ق': 'q', 'ك': 'k', 'ل': 'l',
+  'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'w', 'ي': 'y', 'ى': 'a',
+};
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF]/;
+const isArabic = (text: string) => ARABIC_SCRIPT.test(text);
+
+const arabicToLatin = (text: string): string =>
+  text.replace(/^ال/, '').split('').map(char => AR_LETTERS[char] ?? '').join('');
+
+// Collapses sounds that recognisers and transliterations mix up: q/k/g, t/d, s/z/sh/th,
+// vowel length, doubled letters and h.
+export const phoneticKey = (text: string): string => {
+  const latin = isArabic(text) ? arabicToLatin(text) : tamilToLatin(text.toLowerCase().normalize('NFC'));
+  return latin
+    .replace(/[^a-z]/g, '')
+    .replace(/kh|gh/g, 'k')
+    .replace(/ph/g, 'f')
+    .replace(/sh|th|dh|ch/g, 's')
+    .replace(/h/g, '')
+    .replace(/[qgc]/g, 'k')
+    .replace(/d/g, 't')
+    .replace(/b/g, 'p')
+    .replace(/z/g, 's')
+    .replace(/v/g, 'w')
+    .replace(/e/g, 'i')
+    .replace(/o/g, 'u')
+    .replace(/(.)\1+/g, '$1');
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const similarity = (a: string, b: string) =>
+  a.length === 0 || b.length === 0 ? 0 : 1 - editDistance(a, b) / Math.max(a.length, b.length);
+
+// ---- Index ---------------------------------------------------------------
+
+interface IndexedName {
+  number: number;
+  // Lower-case spelling without the article, for exact matches.
+  plain: string;
+  key: string;
+  arabic: boolean;
+}
+
+const stripArticle = (name: string) => {
+  const [first, ...rest] = name.split(/[-\s]/);
+  return rest.length && ARTICLES.includes(first.toLowerCase()) ? rest.join(' ') : name;
+};
+
+const plainForm = (text: string) => text.toLowerCase().normalize('NFC').replace(/[-'\s]/g, '');
+
+let index: { names: IndexedName[]; keys: Map<number, string> } | null = null;
+
+const buildIndex = () => {
+  const names: IndexedName[] = [];
+  const keys = new Map<number, string>();
+  const add = (number: number, name: string) => {
+    const bare = isArabic(name) ? name : stripArticle(name);
+    names.push({ number, plain: plainForm(bare), key: phoneticKey(bare), arabic: isArabic(name) });
+  };
+
+  Object.entries(surahDatabase).forEach(([key, surah]) => {
+    if (!keys.has(surah.number)) {
+      keys.set(surah.number, key);
+      add(surah.number, surah.name);
+    }
+    add(surah.number, key);
+  });
+  SURAH_NAMES.forEach(({ arabic, tamil }, i) => {
+    add(i + 1, arabic);
+    tamil.forEach(name => add(i + 1, name));
+  });
+  return { names, keys };
+};
+
+// ---- Resolution ----------------------------------------------------------
+
+// Score of one transcript phrase against one name. Short names must match exactly;
+// longer ones tolerate mishearings and a Tamil case suffix ("யாசீனை").
+const scoreName = (phrase: string, name: IndexedName): number => {
+  if (plainForm(phrase) === name.plain) return 1;
+  const key = phoneticKey(phrase);
+  if (key === name.key) return 0.95;
+  if (name.key.length <= 3) return 0;
+  const whole = similarity(key, name.key);
+  const prefix = key.length > name.key.length ? similarity(key.slice(0, name.key.length), name.key) - 0.1 : 0;
+  return Math.max(whole, prefix) * 0.9;
+};
+
+const numberCandidates = (words: string[]): { number: number; matched: string }[] => {
+  const content = words.filter(word => !FILLER_WORDS.includes(word));
+  return findSpokenNumbers(words.join(' '))
+    .filter(found => {
+      const before = words[found.start - 1];
+      const after = words[found.end];
+      const anchored = SURAH_WORDS.includes(before) || SURAH_WORDS.includes(after);
+      const alone = content.length === found.end - found.start;
+      return found.value >= 1 && found.value <= 114 && (found.ordinal || anchored || alone);
+    })
+    .map(found => ({ number: found.value, matched: words.slice(found.start, found.end).join(' ') }));
+};
+
+// The name Siddiqa says back to the visitor, e.g. when confirming a request.
+export const surahTamilName = (number: number): string | undefined => SURAH_NAMES[number - 1]?.tamil[0];
+
+export const surahKeyForNumber = (number: number): string | undefined => {
+  index ??= buildIndex();
+  return index.keys.get(number);
+};
+
+export const resolveSurah = (transcript: string, limit: number = 3): SurahCandidate[] => {
+  index ??= buildIndex();
+  const words = normalizeForNumbers(transcript).split(' ').filter(Boolean);
+  const best = new Map<number, { score: number; matched: string }>();
+  const consider = (number: number, score: number, matched: string) => {
+    const current = best.get(number);
+    if (!current || score > current.score) best.set(number, { score, matched });
+  };
+  // On equal scores the longer phrase wins: "ஹாமீம் ஸஜ்தா" is Fussilat, not As-Sajdah.
+  const wordCount = (text: string) => text.split(' ').length;
+
+  numberCandidates(words).forEach(({ number, matched }) => consider(number, 1, matched));
+
+  const tokens = words.filter(word => !FILLER_WORDS.includes(word) && !ARTICLES.includes(word) && !/\d/.test(word));
+  for (let i = 0; i < tokens.length; i++) {
+    for (let length = 1; length <= MAX_NGRAM && i + length <= tokens.length; length++) {
+      const phrase = tokens.slice(i, i + length).join(' ');
+      const phraseIsArabic = isArabic(phrase);
+      for (const name of index.names) {
+        if (name.arabic !== phraseIsArabic) continue;
+        const score = scoreName(phrase, name);
+        if (score > 0) consider(name.number, score, phrase);
+      }
+    }
+  }
+
+  return [...best.entries()]
+    .sort((a, b) => b[1].score - a[1].score || wordCount(b[1].matched) - wordCount(a[1].matched))
+    .slice(0, limit)
+    .map(([number, { score, matched }]) => {
+      const key = index!.keys.get(number)!;
+      return { key, surah: surahDatabase[key], score: Math.round(score * 100) / 100, matched };
+    });
+};
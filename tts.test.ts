@@ -0,0 +1,221 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_CHUNK_LENGTH, TtsProxyOptions, TtsRequest, createRateLimiter, createTtsHandler, splitForTts } from './tts';
+
+// A stand-in for Google: answers each request with the text it was asked to speak,
+// so the proxy's output shows which chunks it fetched and in what order.
+let upstream: Server;
+let upstreamUrl: string;
+let upstreamRequests: { q: string; tl: string }[] = [];
+
+beforeAll(async () => {
+  upstream = createServer((req, res) => {
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const q = query.get('q') ?? '';
+    upstreamRequests.push({ q, tl: query.get('tl') ?? '' });
+    if (q.includes('FAIL')) {
+      res.writeHead(503).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'audio/mpeg' }).end(`[${q}]`);
+  });
+  await new Promise<void>(resolve => upstream.listen(0, '127.0.0.1', resolve));
+  upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}/translate_tts`;
+});
+
+afterAll(() => new Promise<void>(resolve => upstream.close(() => resolve())));
+
+let cacheDir: string;
+
+beforeEach(async () => {
+  upstreamRequests = [];
+  cacheDir = await mkdtemp(path.join(os.tmpdir(), 'siddiqa-tts-test-'));
+});
+
+afterEach(() => rm(cacheDir, { recursive: true, force: true }));
+
+interface Reply {
+  status: number;
+  headers: Record<string, string | number>;
+  body: string;
+}
+
+// `client` is the forwarded address, or the request headers in full.
+const call = async (
+  handler: ReturnType<typeof createTtsHandler>,
+  query: TtsRequest['query'],
+  client: string | TtsRequest['headers'] = '10.0.0.1'
+): Promise<Reply> => {
+  const reply: Reply = { status: 0, headers: {}, body: '' };
+  const res = {
+    status: (code: number) => {
+      reply.status = code;
+      return res;
+    },
+    setHeader: (name: string, value: string | number) => {
+      reply.headers[name] = value;
+    },
+    send: (body: string | Buffer) => {
+      reply.body = body.toString();
+    },
+  };
+  const headers = typeof client === 'string' ? { 'x-forwarded-for': client } : client;
+  await handler({ query, headers, socket: { remoteAddress: '10.0.0.9' } }, res);
+  return reply;
+};
+
+const handlerWith = (options: TtsProxyOptions = {}) => createTtsHandler({ upstreamUrl, cacheDir, ...options });
+
+const sentence = (n: number) => `இது ${n}-வது வாக்கியம், இதில் சில சொற்கள் உள்ளன.`;
+const longText = Array.from({ length: 12 }, (_, i) => sentence(i + 1)).join(' ');
+
+describe('splitForTts', () => {
+  it('keeps short text whole', () => {
+    expect(splitForTts('  அஸ்ஸலாமு   அலைக்கும் ')).toEqual(['அஸ்ஸலாமு அலைக்கும்']);
+  });
+
+  it('splits long text at sentence ends into parts of at most 200 characters', () => {
+    const chunks = splitForTts(longText);
+    expect(longText.length).toBeGreaterThan(MAX_CHUNK_LENGTH);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => {
+      expect(chunk.length).toBeLessThanOrEqual(MAX_CHUNK_LENGTH);
+      expect(chunk.endsWith('.')).toBe(true);
+    });
+    expect(chunks.join(' ')).toBe(longText);
+  });
+
+  it('falls back to words, then characters, for text without sentence ends', () => {
+    const words = Array.from({ length: 80 }, (_, i) => `சொல்${i}`).join(' ');
+    expect(splitForTts(words).join(' ')).toBe(words);
+    const oneWord = 'அ'.repeat(450);
+    expect(splitForTts(oneWord)).toEqual(['அ'.repeat(200), 'அ'.repeat(200), 'அ'.repeat(50)]);
+  });
+});
+
+describe('createTtsHandler', () => {
+  it('fetches long text chunk by chunk and joins the audio', async () => {
+    const reply = await call(handlerWith(), { text: longText, lang: 'ta' });
+    const chunks = splitForTts(longText);
+
+    expect(reply.status).toBe(200);
+    expect(reply.headers['Content-Type']).toBe('audio/mpeg');
+    expect(reply.headers['X-TTS-Cache']).toBe('upstream');
+    expect(upstreamRequests).toEqual(chunks.map(q => ({ q, tl: 'ta' })));
+    expect(reply.body).toBe(chunks.map(chunk => `[${chunk}]`).join(''));
+    expect(reply.headers['Content-Length']).toBe(Buffer.byteLength(reply.body));
+  });
+
+  it('answers repeats from memory, and from disk after a restart', async () => {
+    const handler = handlerWith();
+    const first = await call(handler, { text: 'பிஸ்மில்லாஹ்', lang: 'ta' });
+    const second = await call(handler, { text: 'பிஸ்மில்லாஹ்', lang: 'ta' });
+    const restarted = await call(handlerWith(), { text: 'பிஸ்மில்லாஹ்', lang: 'ta' });
+
+    expect([first, second, restarted].map(reply => reply.headers['X-TTS-Cache'])).toEqual(['upstream', 'memory', 'disk']);
+    expect(second.body).toBe(first.body);
+    expect(restarted.body).toBe(first.body);
+    expect(upstreamRequests).toHaveLength(1);
+  });
+
+  it('drops the least recently used files when the disk cache is full', async () => {
+    let time = 1_000_000;
+    const now = () => time;
+    const size = (text: string) => Buffer.byteLength(`[${text}]`);
+    const maxDiskBytes = size('ஒன்று') + size('இரண்டு') + size('மூன்று') - 1;
+
+    await call(handlerWith({ now, maxDiskBytes }), { text: 'ஒன்று' });
+    time += 1000;
+    await call(handlerWith({ now, maxDiskBytes }), { text: 'இரண்டு' });
+    time += 1000;
+    // Reading "one" back makes "two" the least recently used.
+    const restarted = handlerWith({ now, maxDiskBytes });
+    expect((await call(restarted, { text: 'ஒன்று' })).headers['X-TTS-Cache']).toBe('disk');
+    time += 1000;
+    await call(restarted, { text: 'மூன்று' });
+
+    const sources = async (text: string) => (await call(handlerWith({ now, maxDiskBytes }), { text })).headers['X-TTS-Cache'];
+    expect(await sources('ஒன்று')).toBe('disk');
+    expect(await sources('மூன்று')).toBe('disk');
+    expect(await sources('இரண்டு')).toBe('upstream');
+  });
+
+  it('keeps languages apart in the cache', async () => {
+    const handler = handlerWith();
+    await call(handler, { text: 'Salam', lang: 'ta' });
+    const english = await call(handler, { text: 'Salam', lang: 'en' });
+    expect(english.headers['X-TTS-Cache']).toBe('upstream');
+  });
+
+  it('rejects a missing text or a bad language with 400', async () => {
+    const handler = handlerWith();
+    expect((await call(handler, {})).status).toBe(400);
+    expect((await call(handler, { text: '   ' })).status).toBe(400);
+    expect((await call(handler, { text: 'Salam', lang: 'ta;rm -rf' })).status).toBe(400);
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it('rejects text over the limit with 413', async () => {
+    const reply = await call(handlerWith({ maxTextLength: 50 }), { text: 'அ'.repeat(51) });
+    expect(reply.status).toBe(413);
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it('rate limits upstream fetches per client with 429 and Retry-After', async () => {
+    const handler = handlerWith({ rateLimit: { capacity: 1, refillPerSecond: 0.5 } });
+    expect((await call(handler, { text: 'ஒன்று' })).status).toBe(200);
+
+    const limited = await call(handler, { text: 'இரண்டு' });
+    expect(limited.status).toBe(429);
+    expect(limited.headers['Retry-After']).toBe(2);
+
+    // Cached audio and other clients are not limited.
+    expect((await call(handler, { text: 'ஒன்று' })).status).toBe(200);
+    expect((await call(handler, { text: 'இரண்டு' }, '10.0.0.2')).status).toBe(200);
+  });
+
+  it('rate limits by the address the proxy saw, not one the client made up', async () => {
+    const handler = handlerWith({ rateLimit: { capacity: 1, refillPerSecond: 0.5 } });
+    const request = async (text: string, headers: TtsRequest['headers']) => (await call(handler, { text }, headers)).status;
+
+    expect(await request('ஒன்று', { 'x-forwarded-for': '1.1.1.1, 10.0.0.1' })).toBe(200);
+    expect(await request('இரண்டு', { 'x-forwarded-for': '2.2.2.2, 10.0.0.1' })).toBe(429);
+    expect(await request('மூன்று', { 'x-vercel-forwarded-for': '10.0.0.3', 'x-forwarded-for': '10.0.0.1' })).toBe(200);
+    expect(await request('நான்கு', { 'x-real-ip': '10.0.0.3' })).toBe(429);
+    expect(await request('ஐந்து', {})).toBe(200);
+    expect(await request('ஆறு', {})).toBe(429);
+  });
+
+  it('passes an upstream error status on', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const reply = await call(handlerWith(), { text: 'FAIL' });
+    expect(reply.status).toBe(503);
+    expect(logged).toHaveBeenCalled();
+    logged.mockRestore();
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('refills over time', () => {
+    let time = 0;
+    const limiter = createRateLimiter(2, 1, () => time);
+    expect([limiter.take('a'), limiter.take('a'), limiter.take('a')]).toEqual([0, 0, 1]);
+    time = 1000;
+    expect(limiter.take('a')).toBe(0);
+  });
+
+  it('drops the buckets of clients that have gone quiet', () => {
+    let time = 0;
+    const limiter = createRateLimiter(2, 1, () => time);
+    for (let i = 0; i < 100; i++) limiter.take(`client-${i}`);
+    expect(limiter.size).toBe(100);
+
+    time = 2000;
+    limiter.take('client-0');
+    expect(limiter.size).toBe(1);
+  });
+});
@@ -0,0 +1,313 @@
+// This is a Vercel serverless function that acts as a proxy for the Google Translate TTS service.
+// It takes 'text' and 'lang' as query parameters and returns the audio stream.
+// This is necessary to avoid CORS issues when deploying the app to a live domain.
+//
+// Google rejects text longer than about 200 characters, so long text is split at
+// sentence boundaries, fetched part by part and returned as one MP3. Results are
+// cached in memory and on disk, both least recently used first out, and each client is rate limited.
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface TtsRequest {
+  query: Record<string, string | string[] | undefined>;
+  headers: Record<string, string | string[] | undefined>;
+  socket?: { remoteAddress?: string };
+}
+
+export interface TtsResponse {
+  status: (code: number) => TtsResponse;
+  setHeader: (name: string, value: string | number) => void;
+  send: (body: string | Buffer) => void;
+}
+
+export interface TtsProxyOptions {
+  upstreamUrl?: string;
+  cacheDir?: string | null;
+  maxCacheBytes?: number;
+  maxDiskBytes?: number;
+  maxTextLength?: number;
+  rateLimit?: { capacity: number; refillPerSecond: number };
+  now?: () => number;
+}
+
+export const GOOGLE_TTS_URL = 'https://translate.google.com/translate_tts';
+export const MAX_CHUNK_LENGTH = 200;
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/58.0.3029.110 Safari/537.36';
+const LANG_PATTERN = /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/;
+
+// Sentence ends in Tamil/English text and Arabic, including the Arabic question mark.
+const SENTENCE_END = /(?<=[.!?؟۔\n])\s+/u;
+const CLAUSE_END = /(?<=[,،;:])\s+/u;
+
+const packParts = (parts: string[], maxLength: number, splitLong: (part: string) => string[]): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const part of parts) {
+    const candidate = current ? `${current} ${part}` : part;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+      continue;
+    }
+    if (current) chunks.push(current);
+    if (part.length <= maxLength) {
+      current = part;
+    } else {
+      const pieces = splitLong(part);
+      current = pieces.pop() ?? '';
+      chunks.push(...pieces);
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const hardSplit = (text: string, maxLength: number): string[] => {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += maxLength) pieces.push(text.slice(i, i + maxLength));
+  return pieces;
+};
+
+// Splits text into parts no longer than `maxLength`, preferring sentence
+// boundaries, then clause boundaries, then spaces.
+export const splitForTts = (text: string, maxLength: number = MAX_CHUNK_LENGTH): string[] => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return [];
+  if (normalized.length <= maxLength) return [normalized];
+
+  const byWords = (part: string) => packParts(part.split(' '), maxLength, word => hardSplit(word, maxLength));
+  const byClauses = (part: string) => packParts(part.split(CLAUSE_END), maxLength, byWords);
+  return packParts(normalized.split(SENTENCE_END), maxLength, byClauses);
+};
+
+export const createLruCache = (maxBytes: number) => {
+  const entries = new Map<string, Buffer>();
+  let size = 0;
+
+  return {
+    get: (key: string): Buffer | undefined => {
+      const value = entries.get(key);
+      if (value) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set: (key: string, value: Buffer) => {
+      const existing = entries.get(key);
+      if (existing) {
+        size -= existing.length;
+        entries.delete(key);
+      }
+      if (value.length > maxBytes) return;
+      entries.set(key, value);
+      size += value.length;
+      for (const [oldestKey, oldest] of entries) {
+        if (size <= maxBytes) break;
+        entries.delete(oldestKey);
+        size -= oldest.length;
+      }
+    },
+    get size() {
+      return size;
+    },
+  };
+};
+
+// Token bucket per client: `capacity` requests in a burst, refilled continuously.
+export const createRateLimiter = (capacity: number, refillPerSecond: number, now: () => number = Date.now) => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  // A bucket left alone this long is full again, the same as no bucket, so it is dropped.
+  const refillMs = (capacity / refillPerSecond) * 1000;
+  let sweptAt = now();
+
+  const sweep = (time: number) => {
+    if (time - sweptAt < refillMs) return;
+    sweptAt = time;
+    for (const [client, bucket] of buckets) {
+      if (time - bucket.updatedAt >= refillMs) buckets.delete(client);
+    }
+  };
+
+  return {
+    // Returns 0 when the request may proceed, otherwise the seconds to wait.
+    take: (client: string): number => {
+      const time = now();
+      sweep(time);
+      const bucket = buckets.get(client) ?? { tokens: capacity, updatedAt: time };
+      bucket.tokens = Math.min(capacity, bucket.tokens + ((time - bucket.updatedAt) / 1000) * refillPerSecond);
+      bucket.updatedAt = time;
+      buckets.set(client, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil((1 - bucket.tokens) / refillPerSecond);
+    },
+    // Clients being tracked; idle ones are dropped on a later take.
+    get size() {
+      return buckets.size;
+    },
+  };
+};
+
+export const cacheKey = (text: string, lang: string): string =>
+  createHash('sha256').update(`${lang}\u0000${text}`).digest('hex');
+
+const fetchChunk = async (upstreamUrl: string, text: string, lang: string): Promise<Buffer> => {
+  const params = new URLSearchParams({ ie: 'UTF-8', q: text, tl: lang, client: 'tw-ob' });
+  // We add a User-Agent header to mimic a browser request.
+  const response = await fetch(`${upstreamUrl}?${params.toString()}`, {
+    headers: { 'User-Agent': USER_AGENT },
+  });
+  if (!response.ok) {
+    throw Object.assign(new Error(`Google TTS fetch failed with status: ${response.status}`), { status: response.status });
+  }
+  return Buffer.from(await response.arrayBuffer());
+};
+
+// Fetches the whole text as one MP3, part by part. MP3 frames can simply be concatenated.
+export const fetchSpeech = async (text: string, lang: string, upstreamUrl: string = GOOGLE_TTS_URL): Promise<Buffer> => {
+  const parts: Buffer[] = [];
+  for (const chunk of splitForTts(text)) {
+    parts.push(await fetchChunk(upstreamUrl, chunk, lang));
+  }
+  return Buffer.concat(parts);
+};
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+// The address the platform saw. The first x-forwarded-for entry is whatever the client
+// sent, so only the hop our own proxy appended, at the end, can be trusted.
+const clientId = (req: TtsRequest): string => {
+  const trusted = firstValue(req.headers['x-vercel-forwarded-for']) ?? firstValue(req.headers['x-real-ip']);
+  const forwarded = firstValue(req.headers['x-forwarded-for'])?.split(',').pop();
+  return trusted?.trim() || forwarded?.trim() || req.socket?.remoteAddress || 'unknown';
+};
+
+export const createTtsHandler = (options: TtsProxyOptions = {}) => {
+  const {
+    upstreamUrl = GOOGLE_TTS_URL,
+    cacheDir = path.join(os.tmpdir(), 'siddiqa-tts'),
+    maxCacheBytes = 50 * 1024 * 1024,
+    maxDiskBytes = 500 * 1024 * 1024,
+    maxTextLength = 2000,
+    rateLimit = { capacity: 30, refillPerSecond: 0.5 },
+    now = Date.now,
+  } = options;
+
+  const memory = createLruCache(maxCacheBytes);
+  const limiter = createRateLimiter(rateLimit.capacity, rateLimit.refillPerSecond, now);
+
+  // Bytes in cacheDir: counted on the first write after a start, then kept up to date.
+  let diskBytes: number | null = null;
+
+  // A file's mtime is when it was last used, so the oldest go first.
+  const touch = (file: string) => {
+    const time = new Date(now());
+    return utimes(file, time, time);
+  };
+
+  const readDisk = async (key: string): Promise<Buffer | null> => {
+    if (!cacheDir) return null;
+    const file = path.join(cacheDir, `${key}.mp3`);
+    try {
+      const audio = await readFile(file);
+      await touch(file).catch(() => {});
+      return audio;
+    } catch {
+      return null;
+    }
+  };
+
+  const evictDisk = async (dir: string) => {
+    const names = (await readdir(dir)).filter(name => name.endsWith('.mp3'));
+    const files = await Promise.all(names.map(async name => {
+      const file = path.join(dir, name);
+      // Another instance may have removed it in the meantime.
+      const info = await stat(file).catch(() => null);
+      return info && { file, size: info.size, usedAt: info.mtimeMs };
+    }));
+    const cached = files.filter(entry => entry !== null).sort((a, b) => a.usedAt - b.usedAt);
+    diskBytes = cached.reduce((total, entry) => total + entry.size, 0);
+    for (const entry of cached) {
+      if (diskBytes <= maxDiskBytes) break;
+      await rm(entry.file, { force: true });
+      diskBytes -= entry.size;
+    }
+  };
+
+  const writeDisk = async (key: string, audio: Buffer) => {
+    if (!cacheDir) return;
+    try {
+      await mkdir(cacheDir, { recursive: true });
+      const file = path.join(cacheDir, `${key}.mp3`);
+      await writeFile(file, audio);
+      await touch(file);
+      if (diskBytes !== null) diskBytes += audio.length;
+      if (diskBytes === null || diskBytes > maxDiskBytes) await evictDisk(cacheDir);
+    } catch (error) {
+      console.warn('TTS disk cache write failed:', error);
+    }
+  };
+
+  return async (req: TtsRequest, res: TtsResponse) => {
+    const text = firstValue(req.query.text)?.trim();
+    const lang = firstValue(req.query.lang) || 'ta'; // Default to Tamil ('ta') if no lang is specified.
+
+    if (!text) {
+      return res.status(400).send('Text query parameter is required');
+    }
+    if (text.length > maxTextLength) {
+      return res.status(413).send(`Text must be at most ${maxTextLength} characters`);
+    }
+    if (!LANG_PATTERN.test(lang)) {
+      return res.status(400).send('Invalid lang query parameter');
+    }
+
+    const key = cacheKey(text, lang);
+    let audio = memory.get(key) ?? null;
+    let source = 'memory';
+
+    if (!audio) {
+      audio = await readDisk(key);
+      source = 'disk';
+      if (audio) memory.set(key, audio);
+    }
+
+    if (!audio) {
+      // Only upstream fetches count against the client's budget.
+      const retryAfter = limiter.take(clientId(req));
+      if (retryAfter > 0) {
+        res.setHeader('Retry-After', retryAfter);
+        return res.status(429).send('Too many requests');
+      }
+
+      try {
+        audio = await fetchSpeech(text, lang, upstreamUrl);
+      } catch (error) {
+        const status = (error as { status?: number }).status;
+        console.error('TTS proxy error:', error);
+        return status
+          ? res.status(status).send('Failed to fetch TTS from Google')
+          : res.status(500).send('Internal Server Error');
+      }
+      source = 'upstream';
+      memory.set(key, audio);
+      await writeDisk(key, audio);
+    }
+
+    // Send the audio data back to the client with the correct headers.
+    res.setHeader('Content-Type', 'audio/mpeg');
+    res.setHeader('Content-Length', audio.length);
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.setHeader('X-TTS-Cache', source);
+    res.status(200).send(audio);
+  };
+};
+
+export default createTtsHandler();
@@ -1,7 +1,7 @@
 export interface Surah {
   name: string;
   number: number;
-  audio: string;
+  ayahCount: number;
 }
 
 export interface SurahDatabase {
@@ -12,6 +12,10 @@ export interface Dua {
     name: string; // Tamil name
     arabic: string;
     translationTamil: string;
+    transliterationTamil: string; // Arabic pronunciation in Tamil script
+    source: string; // hadith reference
+    audio?: string; // recorded recitation; TTS is used when absent
+    wordTimings?: number[]; // start of each Arabic word in `audio`, in seconds
     keywords: string[];
 }
 
@@ -19,8 +23,16 @@ export interface DuaDatabase {
     [key: string]: Dua;
 }
 
+export type QuizCategory = 'seerah' | 'quran' | 'fiqh' | 'duas';
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface QuizQuestion {
     question: string;
     options: string[];
     correctAnswer: number;
+    category: QuizCategory;
+    difficulty: QuizDifficulty;
+    explanation: string; // Tamil, shown and spoken once the answer is known
+    reference?: string; // Quran verse or hadith the explanation comes from
 }
\ No newline at end of file
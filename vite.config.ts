@@ -8,6 +8,23 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // Mirrors tts.ts so the app can use the same endpoint in development.
+          '/api/tts': {
+            target: 'https://translate.google.com',
+            changeOrigin: true,
+            rewrite: (url) => {
+              const query = new URLSearchParams(url.split('?')[1] || '');
+              const params = new URLSearchParams({
+                ie: 'UTF-8',
+                q: query.get('text') || '',
+                tl: query.get('lang') || 'ta',
+                client: 'tw-ob',
+              });
+              return `/translate_tts?${params.toString()}`;
+            },
+          },
+        },
       },
       plugins: [react()],
       define: {